@@ -0,0 +1,254 @@
+import type { Engine } from "@babylonjs/core";
+
+import type { SimulationHost } from "./SimulationHost";
+import type { InteractionTools, SpawnMaterial } from "./InteractionTools";
+import type { Vec3Tuple } from "./worker/SimulationProtocol";
+
+const STATS_INTERVAL = 250; // Milliseconds between updates of the statistics
+const INPUT_PRECISION = 4;  // Significant digits of the values shown in the inputs
+
+// An input and the value it shows, which is refreshed whenever the input isn't being edited
+interface NumberBinding {
+  input: HTMLInputElement;
+  get: () => number;
+}
+
+/**
+ * Overlay for controlling the simulation: playing, pausing, stepping and resetting it, tuning the
+ * time step and gravity, and the spacing, mass and material parameters of the spawn tool, along
+ * with statistics on the simulation and the rendering.
+ */
+export class ControlPanel {
+  simulation: SimulationHost;
+  tools: InteractionTools;
+  engine: Engine;
+  element: HTMLDetailsElement;
+
+  _stats: HTMLPreElement;
+  _playButton: HTMLButtonElement;
+  _materialSelect: HTMLSelectElement;
+  _materialFields: HTMLDivElement;
+  _shownMaterial: SpawnMaterial | null = null; // Whose parameters are in _materialFields
+  _bindings: NumberBinding[] = [];
+  _materialBindings: NumberBinding[] = [];
+  _lastStats: number = -Infinity;
+
+  constructor(simulation: SimulationHost, tools: InteractionTools, engine: Engine) {
+    this.simulation = simulation;
+    this.tools = tools;
+    this.engine = engine;
+
+    // Collapsed by clicking its title
+    this.element = document.createElement("details");
+    this.element.open = true;
+    Object.assign(this.element.style, {
+      position: "absolute", top: "0", right: "0", margin: "8px", padding: "4px 8px", width: "220px",
+      color: "#e0e0e0", background: "rgba(0, 0, 0, 0.6)", font: "12px monospace",
+    });
+    const title = document.createElement("summary");
+    title.textContent = "Controls";
+    title.style.cursor = "pointer";
+    this.element.appendChild(title);
+
+    this._stats = document.createElement("pre");
+    this._stats.style.margin = "4px 0";
+    this.element.appendChild(this._stats);
+
+    const buttons = this._row(this.element);
+    this._playButton = this._button(buttons, "", () => this.togglePlaying());
+    this._button(buttons, "Step", () => this.step());
+    this._button(buttons, "Reset", () => this.simulation.reset());
+
+    this._heading("Simulation");
+    const parameters = () => this.simulation.info?.parameters;
+    this._bindings.push(
+      this._numberInput(this.element, "frame dt", () => parameters()?.frameDt ?? 0, (frameDt) => {
+        if (frameDt > 0) { this.simulation.setParameters({ frameDt }); }
+      }),
+      this._numberInput(this.element, "max dt", () => parameters()?.maxDt ?? 0, (maxDt) => {
+        // The substeps can't be smaller than the minimum
+        if (maxDt > 0) { this.simulation.setParameters({ maxDt, minDt: Math.min(maxDt, parameters()?.minDt ?? maxDt) }); }
+      })
+    );
+    const gravity = this._row(this.element, "gravity");
+    for (let axis = 0; axis < 3; axis++) {
+      this._bindings.push(this._numberInput(gravity, null, () => parameters()?.gravity[axis] ?? 0, (value) => {
+        const current = parameters()?.gravity;
+        if (current == null) { return; }
+        const g = [...current] as Vec3Tuple;
+        g[axis] = value;
+        this.simulation.setParameters({ gravity: g });
+      }));
+    }
+
+    this._heading("Spawn");
+    this._materialSelect = document.createElement("select");
+    for (const material of tools.materials) {
+      const option = document.createElement("option");
+      option.textContent = material.name;
+      this._materialSelect.appendChild(option);
+    }
+    this._materialSelect.addEventListener("change", () => this.tools.setMaterial(this._materialSelect.selectedIndex));
+    this._row(this.element, "material").appendChild(this._materialSelect);
+    this._bindings.push(
+      this._numberInput(this.element, "spacing", () => tools.spacing, (spacing) => {
+        if (spacing > 0) { tools.spacing = spacing; }
+        tools.onChange?.();
+      }),
+      this._numberInput(this.element, "mass", () => tools.particleMass, (mass) => {
+        if (mass > 0) { tools.particleMass = mass; }
+        tools.onChange?.();
+      })
+    );
+    this._materialFields = document.createElement("div");
+    this.element.appendChild(this._materialFields);
+
+    document.body.appendChild(this.element);
+    this.refresh();
+  }
+
+  togglePlaying() {
+    if (this.simulation.running) {
+      this.simulation.pause();
+    }
+    else {
+      this.simulation.play();
+    }
+    this.refresh();
+  }
+
+  // Advances a single frame, pausing the simulation first
+  step() {
+    if (this.simulation.running) {
+      this.simulation.pause();
+      this.refresh();
+    }
+    this.simulation.step();
+  }
+
+  /**
+   * Keys: space plays or pauses the simulation, . steps it and R resets it.
+   * @returns Whether the key was handled.
+   */
+  handleKey(ev: KeyboardEvent): boolean {
+    switch (ev.key) {
+      case " ":
+        this.togglePlaying();
+        return true;
+      case ".":
+        this.step();
+        return true;
+      case "r":
+        this.simulation.reset();
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Shows the current parameters and spawn settings, called when they change outside of the panel.
+   */
+  refresh() {
+    this._playButton.textContent = this.simulation.running ? "Pause" : "Play";
+    this._materialSelect.selectedIndex = this.tools.materialIndex;
+    if (this.tools.spawnMaterial !== this._shownMaterial) {
+      this._showMaterial(this.tools.spawnMaterial);
+    }
+    for (const binding of [...this._bindings, ...this._materialBindings]) {
+      if (document.activeElement !== binding.input) {
+        binding.input.value = formatNumber(binding.get());
+      }
+    }
+  }
+
+  /**
+   * Updates the statistics, called once per rendered frame.
+   */
+  update(now: number = performance.now()) {
+    if (now - this._lastStats < STATS_INTERVAL) { return; }
+    this._lastStats = now;
+    const frame = this.simulation.currFrame;
+    let count = 0;
+    if (frame) {
+      for (let i = 0; i < frame.count; i++) {
+        count += frame.active[i];
+      }
+    }
+    this._stats.textContent = [
+      `particles  ${count}`,
+      `time       ${(frame?.time ?? 0).toFixed(3)} s`,
+      `step       ${(frame?.stepTime ?? 0).toFixed(1)} ms (${frame?.substeps ?? 0} substeps)`,
+      `FPS        ${this.engine.getFps().toFixed(0)}`,
+    ].join("\n");
+  }
+
+  // Replaces the inputs of the material parameters with those of the given material
+  _showMaterial(spawnMaterial: SpawnMaterial) {
+    this._materialFields.replaceChildren();
+    this._materialBindings = [];
+    // The descriptors of the spawn materials have all of their parameters, see InteractionTools.materials
+    const material = spawnMaterial.material as unknown as Record<string, number>;
+    for (const key of Object.keys(material)) {
+      if (key === "type") { continue; }
+      this._materialBindings.push(this._numberInput(this._materialFields, key, () => material[key], (value) => {
+        material[key] = value; // Validated by the simulation when the material is spawned
+      }));
+    }
+    this._shownMaterial = spawnMaterial;
+  }
+
+  _heading(text: string) {
+    const heading = document.createElement("div");
+    heading.textContent = text;
+    Object.assign(heading.style, { marginTop: "6px", borderBottom: "1px solid #808080" });
+    this.element.appendChild(heading);
+  }
+
+  // A row of controls, with a label if given
+  _row(parent: HTMLElement, label?: string): HTMLDivElement {
+    const row = document.createElement("div");
+    Object.assign(row.style, { display: "flex", gap: "4px", alignItems: "center", margin: "2px 0" });
+    if (label) {
+      const span = document.createElement("span");
+      span.textContent = label;
+      span.style.flex = "1";
+      row.appendChild(span);
+    }
+    parent.appendChild(row);
+    return row;
+  }
+
+  _button(parent: HTMLElement, text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.style.flex = "1";
+    button.addEventListener("click", onClick);
+    parent.appendChild(button);
+    return button;
+  }
+
+  /**
+   * Adds an input for a number, in a row of its own if it has a label. Entering anything but a
+   * number restores the current value.
+   */
+  _numberInput(
+    parent: HTMLElement, label: string | null, get: () => number, set: (value: number) => void
+  ): NumberBinding {
+    const input = document.createElement("input");
+    input.type = "number";
+    input.step = "any";
+    input.style.width = "60px";
+    input.addEventListener("change", () => {
+      const value = parseFloat(input.value);
+      if (Number.isFinite(value)) {
+        set(value);
+      }
+      input.value = formatNumber(get());
+    });
+    (label != null ? this._row(parent, label) : parent).appendChild(input);
+    return { input, get };
+  }
+}
+
+const formatNumber = (value: number): string => String(Number(value.toPrecision(INPUT_PRECISION)));
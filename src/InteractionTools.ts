@@ -0,0 +1,258 @@
+import {
+  Scene, ArcRotateCamera, ArcRotateCameraPointersInput, Vector3, Matrix, Plane, Color3, Mesh, MeshBuilder,
+  StandardMaterial, PointerEventTypes, PointerInfo
+} from "@babylonjs/core";
+
+import type { SimulationHost } from "./SimulationHost";
+import { MaterialDescriptor, createMaterial } from "./mpm/Materials";
+import { Vec3Tuple, DEFAULT_BODY_DENSITY } from "./scene/SceneDescription";
+
+export type Tool = "camera" | "push" | "drag" | "spawn" | "erase";
+
+// Selected with the number keys, in this order
+export const TOOLS: readonly Tool[] = ["camera", "push", "drag", "spawn", "erase"];
+
+export interface SpawnMaterial {
+  name: string;
+  material: MaterialDescriptor;
+  density?: number;
+}
+
+export const SPAWN_MATERIALS: readonly SpawnMaterial[] = [
+  { name: "water", material: { type: "fluid", restDensity: 100, stiffness: 200, gamma: 3, viscosity: 0.1 } },
+  { name: "jelly", material: { type: "fixedCorotated", youngsModulus: 5000, poissonRatio: 0.2 } },
+  { name: "snow", material: { type: "snow" } },
+  { name: "sand", material: { type: "sand", frictionAngle: 30 }, density: 150 },
+  { name: "glass", material: { type: "brittle", youngsModulus: 20000, poissonRatio: 0.2, tensileStrength: 1000, softening: 0.2 } },
+];
+
+const PUSH_STRENGTH = 200; // Acceleration at the center of the push brush
+const DRAG_STRENGTH = 30;  // Rate at which the material follows the drag brush
+const MAX_BRUSH_SPEED = 20; // Keeps fast mouse flicks from making the simulation take tiny steps
+const MIN_RADIUS = 0.1;
+const MAX_RADIUS = 3;
+
+/**
+ * Mouse tools for interacting with the simulation: while the left button is held down, the
+ * push and drag brushes force the material under the cursor, spawn emits blobs of the
+ * selected material and erase removes particles. The camera keeps the other mouse buttons.
+ */
+export class InteractionTools {
+  scene: Scene;
+  simulation: SimulationHost;
+  camera: ArcRotateCamera | null = null;
+  is2D: boolean = true;
+
+  tool: Tool = "camera";
+  radius: number = 0.5;
+  // Copies of SPAWN_MATERIALS with all of their parameters filled in, for tuning them
+  materials: SpawnMaterial[] = SPAWN_MATERIALS.map((m) => ({ ...m, material: createMaterial(m.material).toDescriptor() }));
+  materialIndex: number = 0;
+  spacing: number = 0;      // Distance between the spawned particles, half a grid cell by default
+  particleMass: number = 0; // Mass of each spawned particle, by default that of the material's density
+  onChange: (() => void) | null = null; // Called when the tool, radius or spawn settings change
+
+  _cursor: Mesh;
+  _pointerDown: boolean = false;
+  _invert: boolean = false; // Shift held when the brush started, which pulls instead of pushing
+  _lastPosition: Vector3 | null = null;
+  _lastTime: number = 0;
+  _lastSpawn: Vector3 | null = null;
+  _cellSize: number = 0; // Of the simulation that the spawn settings are for
+
+  constructor(scene: Scene, simulation: SimulationHost) {
+    this.scene = scene;
+    this.simulation = simulation;
+
+    const material = new StandardMaterial("brushCursorMaterial", scene);
+    material.wireframe = true;
+    material.emissiveColor = new Color3(1, 1, 1);
+    material.disableLighting = true;
+    material.alpha = 0.25;
+    this._cursor = MeshBuilder.CreateSphere("brushCursor", { diameter: 2, segments: 12 }, scene);
+    this._cursor.material = material;
+    this._cursor.isPickable = false;
+    this._cursor.setEnabled(false);
+
+    scene.onPointerObservable.add((info) => this._handlePointer(info));
+  }
+
+  get spawnMaterial(): SpawnMaterial {
+    return this.materials[this.materialIndex];
+  }
+
+  // Mass of a spawned particle of the material's density at the current spacing
+  get defaultParticleMass(): number {
+    return (this.spawnMaterial.density ?? DEFAULT_BODY_DENSITY) * Math.pow(this.spacing, this.is2D ? 2 : 3);
+  }
+
+  // Called when the simulation (and so the camera) is replaced
+  setCamera(camera: ArcRotateCamera, is2D: boolean) {
+    this.camera = camera;
+    this.is2D = is2D;
+    this._endStroke();
+    this._updateCameraButtons();
+    // The spawn settings are kept when the simulation is reset, or replaced by one with the same grid
+    const cellSize = this.simulation.info?.cellSize ?? 0;
+    if (cellSize !== this._cellSize) {
+      this._cellSize = cellSize;
+      this.spacing = cellSize / 2;
+      this.particleMass = this.defaultParticleMass;
+      this.onChange?.();
+    }
+  }
+
+  setTool(tool: Tool) {
+    this._endStroke();
+    this.tool = tool;
+    this._updateCameraButtons();
+    this.onChange?.();
+  }
+
+  // Selects the spawned material, which resets the mass of the particles to that of its density
+  setMaterial(index: number) {
+    this.materialIndex = index;
+    this.particleMass = this.defaultParticleMass;
+    this.onChange?.();
+  }
+
+  /**
+   * Keys: 1-5 select the tool (see TOOLS), [ and ] resize the brush, M cycles the spawned material.
+   * @returns Whether the key was handled.
+   */
+  handleKey(ev: KeyboardEvent): boolean {
+    const toolIndex = ev.key.length === 1 ? "12345".indexOf(ev.key) : -1;
+    if (toolIndex >= 0) {
+      this.setTool(TOOLS[toolIndex]);
+      return true;
+    }
+    switch (ev.key) {
+      case "[":
+      case "]":
+        this.radius = Math.min(MAX_RADIUS, Math.max(MIN_RADIUS, this.radius * (ev.key === "]" ? 1.25 : 0.8)));
+        this.onChange?.();
+        return true;
+      case "m":
+        this.setMaterial((this.materialIndex + 1) % this.materials.length);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Updates the cursor and the tool in use, called once per rendered frame.
+   */
+  update(now: number = performance.now()) {
+    const position = this.tool !== "camera" ? this.pointerWorldPosition() : null;
+    this._cursor.setEnabled(position != null);
+    if (position == null) { return; }
+    this._cursor.position.copyFrom(position);
+    this._cursor.scaling.setAll(this.radius);
+    if (!this._pointerDown) { return; }
+
+    switch (this.tool) {
+      case "push":
+      case "drag": {
+        const velocity = Vector3.Zero();
+        const elapsed = (now - this._lastTime) / 1000;
+        if (this._lastPosition && elapsed > 0) {
+          position.subtractToRef(this._lastPosition, velocity).scaleInPlace(1 / elapsed);
+          if (velocity.length() > MAX_BRUSH_SPEED) {
+            velocity.normalize().scaleInPlace(MAX_BRUSH_SPEED);
+          }
+        }
+        const push = this.tool === "push";
+        this.simulation.setBrush({
+          mode: push ? "push" : "drag",
+          position: toTuple(position),
+          velocity: toTuple(velocity),
+          radius: this.radius,
+          strength: push ? (this._invert ? -PUSH_STRENGTH : PUSH_STRENGTH) : DRAG_STRENGTH,
+        });
+        break;
+      }
+      case "spawn":
+        // Keep emitting blobs while the cursor moves, without overlapping the previous one
+        if (this._lastSpawn == null || Vector3.Distance(this._lastSpawn, position) >= 2 * this.radius) {
+          this._spawn(position);
+        }
+        break;
+      case "erase":
+        if (this._lastPosition == null || !this._lastPosition.equals(position)) {
+          this.simulation.erase(toTuple(position), this.radius);
+        }
+        break;
+    }
+    this._lastPosition = position;
+    this._lastTime = now;
+  }
+
+  /**
+   * @returns The world position under the mouse cursor: on the simulation plane in 2D, and on
+   * the plane through the camera target facing the camera in 3D.
+   */
+  pointerWorldPosition(): Vector3 | null {
+    const camera = this.camera;
+    if (camera == null) { return null; }
+    const ray = this.scene.createPickingRay(this.scene.pointerX, this.scene.pointerY, Matrix.Identity(), camera);
+    const normal = this.is2D ? new Vector3(0, 0, 1) : camera.target.subtract(camera.position).normalize();
+    const target = this.is2D ? Vector3.Zero() : camera.target;
+    const distance = ray.intersectsPlane(Plane.FromPositionAndNormal(target, normal));
+    if (distance == null) { return null; }
+    return ray.origin.add(ray.direction.scale(distance));
+  }
+
+  _handlePointer(info: PointerInfo) {
+    const event = info.event as PointerEvent;
+    switch (info.type) {
+      case PointerEventTypes.POINTERDOWN:
+        if (this.tool !== "camera" && event.button === 0) {
+          this._pointerDown = true;
+          this._invert = event.shiftKey;
+          this._lastPosition = null;
+          this._lastSpawn = null;
+          this._lastTime = performance.now();
+        }
+        break;
+      case PointerEventTypes.POINTERUP:
+        if (event.button === 0) {
+          this._endStroke();
+        }
+        break;
+    }
+  }
+
+  _spawn(position: Vector3) {
+    const { name, material } = this.spawnMaterial;
+    this.simulation.addBody({
+      name,
+      shape: { type: "sphere", center: toTuple(position), radius: this.radius },
+      spacing: this.spacing,
+      sampling: "jittered",
+      seed: Math.floor(Math.random() * 0x7fffffff),
+      density: this.particleMass / Math.pow(this.spacing, this.is2D ? 2 : 3),
+      material,
+    });
+    this._lastSpawn = position;
+  }
+
+  _endStroke() {
+    if (this._pointerDown && (this.tool === "push" || this.tool === "drag")) {
+      this.simulation.setBrush(null);
+    }
+    this._pointerDown = false;
+    this._lastPosition = null;
+    this._lastSpawn = null;
+  }
+
+  // The left mouse button is left to the tools, unless the camera tool is selected
+  _updateCameraButtons() {
+    const pointers = this.camera?.inputs.attached.pointers as ArcRotateCameraPointersInput | undefined;
+    if (pointers) {
+      pointers.buttons = this.tool === "camera" ? [0, 1, 2] : [1, 2];
+    }
+  }
+}
+
+const toTuple = (v: Vector3): Vec3Tuple => [v.x, v.y, v.z];
@@ -2,3 +2,207 @@ import * as THREE from 'three';
 
 export const ZeroVector3 = () => new THREE.Vector3(0,0,0);
 export const ZeroMatrix3 = () => new THREE.Matrix3(0,0,0, 0,0,0, 0,0,0);
+export const IdentityMatrix3 = () => new THREE.Matrix3(1,0,0, 0,1,0, 0,0,1);
+
+// Scratch storage (row-major) for the Jacobi eigen decomposition, so that it doesn't allocate
+const _jacobiA = new Float64Array(9);
+const _jacobiV = new Float64Array(9);
+
+/**
+ * Diagonalizes the symmetric matrix A = V * diag(eigenvalues) * V^T using cyclic Jacobi rotations.
+ * The eigenvectors are stored in the columns of outV and are sorted by descending eigenvalue.
+ */
+export const symmetricEigenDecomposition3 = (
+  A: THREE.Matrix3, outEigenvalues: THREE.Vector3, outV: THREE.Matrix3
+) => {
+  const e = A.elements; // Column-major
+  const a = _jacobiA;
+  const v = _jacobiV;
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      a[r*3 + c] = e[c*3 + r];
+      v[r*3 + c] = r === c ? 1 : 0;
+    }
+  }
+
+  for (let sweep = 0; sweep < 32; sweep++) {
+    const offDiag = a[1]*a[1] + a[2]*a[2] + a[5]*a[5];
+    if (offDiag < 1e-30) { break; }
+
+    for (let p = 0; p < 2; p++) {
+      for (let q = p+1; q < 3; q++) {
+        const apq = a[p*3 + q];
+        if (Math.abs(apq) < 1e-30) { continue; }
+        const theta = (a[q*3 + q] - a[p*3 + p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        // A' = J^T * A * J where J is the Givens rotation in the (p,q) plane
+        for (let k = 0; k < 3; k++) {
+          const akp = a[k*3 + p], akq = a[k*3 + q];
+          a[k*3 + p] = c * akp - s * akq;
+          a[k*3 + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 3; k++) {
+          const apk = a[p*3 + k], aqk = a[q*3 + k];
+          a[p*3 + k] = c * apk - s * aqk;
+          a[q*3 + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 3; k++) {
+          const vkp = v[k*3 + p], vkq = v[k*3 + q];
+          v[k*3 + p] = c * vkp - s * vkq;
+          v[k*3 + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  // Sort the eigenvalues (diagonal of A) in descending order
+  let i0 = 0, i1 = 1, i2 = 2, tmp = 0;
+  if (a[i1*4] > a[i0*4]) { tmp = i0; i0 = i1; i1 = tmp; }
+  if (a[i2*4] > a[i1*4]) { tmp = i1; i1 = i2; i2 = tmp; }
+  if (a[i1*4] > a[i0*4]) { tmp = i0; i0 = i1; i1 = tmp; }
+
+  outEigenvalues.set(a[i0*4], a[i1*4], a[i2*4]);
+  outV.set(
+    v[i0], v[i1], v[i2],
+    v[3 + i0], v[3 + i1], v[3 + i2],
+    v[6 + i0], v[6 + i1], v[6 + i2]
+  );
+};
+
+const _AtA = new THREE.Matrix3();
+const _eig = new THREE.Vector3();
+const _v0 = new THREE.Vector3();
+const _v1 = new THREE.Vector3();
+const _v2 = new THREE.Vector3();
+const _u0 = new THREE.Vector3();
+const _u1 = new THREE.Vector3();
+const _u2 = new THREE.Vector3();
+
+/**
+ * Computes the rotation-variant singular value decomposition A = U * diag(sigma) * V^T, where
+ * both U and V are proper rotations (determinant of +1). If det(A) < 0 then the smallest
+ * singular value is negative. This is the form of the SVD used by most MPM constitutive models,
+ * see section 5.3 of https://www.math.ucla.edu/~cffjiang/research/mpmcourse/mpmcourse.pdf
+ */
+export const svd3 = (A: THREE.Matrix3, outU: THREE.Matrix3, outSigma: THREE.Vector3, outV: THREE.Matrix3) => {
+  const EPSILON = 1e-12;
+
+  _AtA.copy(A).transpose().multiply(A);
+  symmetricEigenDecomposition3(_AtA, _eig, outV);
+  if (outV.determinant() < 0) {
+    // Flip the eigenvector with the smallest eigenvalue so that V is a rotation
+    const ve = outV.elements;
+    ve[6] = -ve[6]; ve[7] = -ve[7]; ve[8] = -ve[8];
+  }
+  outV.extractBasis(_v0, _v1, _v2);
+
+  // U = A * V * Sigma^-1, with care taken for (near) zero singular values
+  _u0.copy(_v0).applyMatrix3(A);
+  const sigma0 = _u0.length();
+  if (sigma0 < EPSILON) {
+    outU.identity();
+    outSigma.set(0, 0, 0);
+    return;
+  }
+  _u0.divideScalar(sigma0);
+
+  _u1.copy(_v1).applyMatrix3(A);
+  _u1.addScaledVector(_u0, -_u1.dot(_u0));
+  let sigma1 = _u1.length();
+  if (sigma1 < EPSILON) {
+    // Pick any unit vector orthogonal to u0
+    _u1.set(1, 0, 0);
+    if (Math.abs(_u0.x) > 0.9) { _u1.set(0, 1, 0); }
+    _u1.addScaledVector(_u0, -_u1.dot(_u0)).normalize();
+    sigma1 = 0;
+  }
+  else {
+    _u1.divideScalar(sigma1);
+  }
+
+  _u2.crossVectors(_u0, _u1);
+  const sigma2 = _v2.applyMatrix3(A).dot(_u2);
+
+  outU.set(
+    _u0.x, _u1.x, _u2.x,
+    _u0.y, _u1.y, _u2.y,
+    _u0.z, _u1.z, _u2.z
+  );
+  outSigma.set(sigma0, sigma1, sigma2);
+};
+
+const _svdU = new THREE.Matrix3();
+const _svdV = new THREE.Matrix3();
+const _svdSigma = new THREE.Vector3();
+
+/**
+ * Computes the rotation R of the polar decomposition F = R * S.
+ * @returns outR
+ */
+export const polarRotation3 = (F: THREE.Matrix3, outR: THREE.Matrix3) => {
+  svd3(F, _svdU, _svdSigma, _svdV);
+  return outR.copy(_svdU).multiply(_svdV.transpose());
+};
+
+/**
+ * Seeded pseudo-random number generator (mulberry32), so that randomized setups are reproducible.
+ * @returns A function that returns uniformly distributed numbers in [0, 1).
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Gradient of the noise lattice corner with the given hash, dotted with the offset from the corner:
+// one of the 12 edge directions of a cube (and 4 repeated to make 16)
+const noiseGradient = (hash: number, x: number, y: number, z: number): number => {
+  const h = hash & 15;
+  const u = h < 8 ? x : y;
+  const v = h < 4 ? y : (h === 12 || h === 14 ? x : z);
+  return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+};
+
+const noiseFade = (t: number): number => t * t * t * (t * (t * 6 - 15) + 10);
+const lerp = (t: number, a: number, b: number): number => a + t * (b - a);
+
+/**
+ * Seeded 3D gradient noise (Perlin's improved noise), smooth with features about a unit apart.
+ * @returns A function of the position that returns values within about [-1, 1], 0 on integer coordinates.
+ */
+export const createNoise3 = (seed: number): ((x: number, y: number, z: number) => number) => {
+  const random = createRandom(seed);
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 256; i++) {
+    perm[i] = i;
+  }
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const t = perm[i]; perm[i] = perm[j]; perm[j] = t;
+  }
+  perm.copyWithin(256, 0, 256);
+
+  return (x: number, y: number, z: number): number => {
+    const fx = Math.floor(x), fy = Math.floor(y), fz = Math.floor(z);
+    const X = fx & 255, Y = fy & 255, Z = fz & 255;
+    x -= fx; y -= fy; z -= fz;
+    const u = noiseFade(x), v = noiseFade(y), w = noiseFade(z);
+    const A = perm[X] + Y, AA = perm[A] + Z, AB = perm[A + 1] + Z;
+    const B = perm[X + 1] + Y, BA = perm[B] + Z, BB = perm[B + 1] + Z;
+    return lerp(w,
+      lerp(v,
+        lerp(u, noiseGradient(perm[AA], x, y, z), noiseGradient(perm[BA], x - 1, y, z)),
+        lerp(u, noiseGradient(perm[AB], x, y - 1, z), noiseGradient(perm[BB], x - 1, y - 1, z))),
+      lerp(v,
+        lerp(u, noiseGradient(perm[AA + 1], x, y, z - 1), noiseGradient(perm[BA + 1], x - 1, y, z - 1)),
+        lerp(u, noiseGradient(perm[AB + 1], x, y - 1, z - 1), noiseGradient(perm[BB + 1], x - 1, y - 1, z - 1))));
+  };
+};
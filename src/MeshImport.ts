@@ -0,0 +1,68 @@
+import { Engine, Scene, SceneLoader, Vector3, VertexBuffer } from "@babylonjs/core";
+import type { SceneDescription, MeshShapeDescription } from "./scene/SceneDescription";
+
+/**
+ * Loads the meshes that the bodies of a scene reference by url (glTF/GLB files, or any other
+ * format with a registered Babylon loader) and inlines their triangles, since the simulation
+ * worker can't load them itself.
+ * @param baseUrl The url that relative mesh urls are relative to, e.g. the url of the scene file.
+ * @returns A copy of the scene where every mesh shape is given by its positions.
+ */
+export const resolveSceneMeshes = async (
+  scene: SceneDescription, engine: Engine, baseUrl: string = window.location.href
+): Promise<SceneDescription> => {
+  const bodies = await Promise.all((scene.bodies ?? []).map(async (body) => {
+    const shape = body.shape;
+    if (shape.type !== "mesh" || shape.positions || !shape.url) {
+      return body;
+    }
+    const url = new URL(shape.url, baseUrl).href;
+    const resolved: MeshShapeDescription = { ...shape, ...await loadMeshTriangles(url, engine) };
+    return { ...body, shape: resolved };
+  }));
+  return { ...scene, bodies };
+};
+
+/**
+ * @returns True if some body of the scene has a mesh that is only given by its url.
+ */
+export const hasUnresolvedMeshes = (scene: SceneDescription): boolean => {
+  return (scene.bodies ?? []).some((body) => body.shape.type === "mesh" && !body.shape.positions);
+};
+
+/**
+ * Loads all the meshes of a file and merges them into a single list of triangles, in world space.
+ */
+const loadMeshTriangles = async (url: string, engine: Engine): Promise<{ positions: number[], indices: number[] }> => {
+  // The file is loaded into a scene of its own that is thrown away once the triangles are extracted
+  const scene = new Scene(engine);
+  try {
+    const split = url.lastIndexOf("/") + 1;
+    const result = await SceneLoader.ImportMeshAsync("", url.slice(0, split), url.slice(split), scene);
+    const positions: number[] = [];
+    const indices: number[] = [];
+    const vertex = new Vector3();
+    for (const mesh of result.meshes) {
+      const local = mesh.getVerticesData(VertexBuffer.PositionKind);
+      if (!local) { continue; }
+      const world = mesh.computeWorldMatrix(true);
+      const first = positions.length / 3;
+      for (let i = 0; i < local.length; i += 3) {
+        Vector3.TransformCoordinatesFromFloatsToRef(local[i], local[i + 1], local[i + 2], world, vertex);
+        positions.push(vertex.x, vertex.y, vertex.z);
+      }
+      const meshIndices = mesh.getIndices();
+      const triangleVertexCount = meshIndices ? meshIndices.length : local.length / 3;
+      for (let i = 0; i < triangleVertexCount; i++) {
+        indices.push(first + (meshIndices ? meshIndices[i] : i));
+      }
+    }
+    if (indices.length === 0) {
+      throw new Error(`${url} has no triangles`);
+    }
+    return { positions, indices };
+  }
+  finally {
+    scene.dispose();
+  }
+};
@@ -0,0 +1,199 @@
+import type { MaterialDescriptor } from "./mpm/Materials";
+import type { SceneDescription, BodyDescription } from "./scene/SceneDescription";
+import type {
+  SimulationCommand, SimulationConfig, SimulationEvent, SimulationParameters, BrushDescription, VisualizationOptions,
+  SurfaceMesh, Vec3Tuple
+} from "./worker/SimulationProtocol";
+
+export interface SimulationFrame {
+  frame: number;
+  time: number;
+  count: number;
+  positions: Float32Array;
+  active: Uint8Array;
+  values: Float32Array | null;    // See VisualizationOptions
+  gridNodes: Float32Array | null;
+  surface: SurfaceMesh | null;
+  substeps: number;
+  stepTime: number;
+  receivedAt: number; // performance.now() when the frame arrived
+}
+
+export interface SimulationInfo {
+  is2D: boolean;
+  cellSize: number;
+  boundsMin: Vec3Tuple;
+  boundsMax: Vec3Tuple;
+  parameters: SimulationParameters; // As loaded with the simulation, see setParameters for changing them
+}
+
+/**
+ * Main thread side of the off-thread simulation. The worker owns the MPMSystem and posts back
+ * particle positions after every frame; the host keeps the last two frames so that rendering can
+ * interpolate between them regardless of how fast the simulation runs.
+ */
+export class SimulationHost {
+  worker: Worker;
+  info: SimulationInfo | null = null;
+  prevFrame: SimulationFrame | null = null;
+  currFrame: SimulationFrame | null = null;
+  running: boolean = false; // Whether the simulation was last played rather than paused
+
+  onReady: ((info: SimulationInfo) => void) | null = null;
+  onFrame: ((frame: SimulationFrame) => void) | null = null;
+  onSnapshot: ((buffer: ArrayBuffer) => void) | null = null;
+  onError: ((message: string) => void) | null = (message) => console.error(`Simulation error: ${message}`);
+
+  constructor() {
+    this.worker = new Worker(new URL("./worker/SimulationWorker.ts", import.meta.url));
+    this.worker.onmessage = (ev: MessageEvent<SimulationEvent>) => this._handleEvent(ev.data);
+  }
+
+  init(config: SimulationConfig) {
+    this._send({ type: "init", config });
+  }
+  loadScene(scene: SceneDescription) {
+    this._send({ type: "loadScene", scene });
+  }
+  // The snapshot is delivered to onSnapshot
+  saveSnapshot() {
+    this._send({ type: "saveSnapshot" });
+  }
+  loadSnapshot(buffer: ArrayBuffer) {
+    this._send({ type: "loadSnapshot", buffer }, [buffer]);
+  }
+  // Restarts the simulation as it was initialized or loaded, with the current parameters
+  reset() {
+    this._send({ type: "reset" });
+  }
+  addParticles(min: Vec3Tuple, max: Vec3Tuple, size: number, mass: number, material: MaterialDescriptor) {
+    this._send({ type: "addParticles", min, max, size, mass, material });
+  }
+  addBody(body: BodyDescription) {
+    this._send({ type: "addBody", body });
+  }
+  erase(center: Vec3Tuple, radius: number) {
+    this._send({ type: "erase", center, radius });
+  }
+  // The brush stays in effect until it's replaced or cleared with null
+  setBrush(brush: BrushDescription | null) {
+    this._send({ type: "setBrush", brush });
+  }
+  setParameters(parameters: Partial<SimulationParameters>) {
+    if (this.info) {
+      Object.assign(this.info.parameters, parameters);
+    }
+    this._send({ type: "setParameters", parameters });
+  }
+  // Selects the extra data sent with each frame
+  setVisualization(options: VisualizationOptions) {
+    this._send({ type: "setVisualization", options });
+  }
+  play() {
+    this.running = true;
+    this._send({ type: "play" });
+  }
+  pause() {
+    this.running = false;
+    this._send({ type: "pause" });
+  }
+  step(frames = 1) { this._send({ type: "step", frames }); }
+
+  terminate() {
+    this.worker.terminate();
+  }
+
+  get particleCount(): number {
+    return this.currFrame?.count ?? 0;
+  }
+
+  /**
+   * @returns The interpolation factor between the previous and current frames for the given
+   * time. Rendering is one frame behind the simulation: the current frame is reached after
+   * the same amount of time that passed between the previous two frames arriving.
+   */
+  interpolationAlpha(now: number = performance.now()): number {
+    if (this.prevFrame == null || this.currFrame == null) { return 1; }
+    const frameInterval = this.currFrame.receivedAt - this.prevFrame.receivedAt;
+    if (frameInterval <= 0) { return 1; }
+    return Math.min(1, Math.max(0, (now - this.currFrame.receivedAt) / frameInterval));
+  }
+
+  /**
+   * Writes the interpolated position of each active particle to the given callback.
+   */
+  forEachInterpolatedPosition(alpha: number, callback: (i: number, x: number, y: number, z: number) => void) {
+    const curr = this.currFrame;
+    if (curr == null) { return; }
+    const prev = this.prevFrame;
+    const currPos = curr.positions;
+    // Particles that didn't exist (or were inactive) in the previous frame are just placed at their
+    // current position. Slots are never reused in the frame they're freed (see MPMSystem.advance),
+    // so a particle active in both frames is the same particle.
+    const numInterpolated = prev == null ? 0 : Math.min(prev.count, curr.count);
+    const prevPos = prev?.positions;
+    const prevActive = prev?.active;
+    for (let i = 0; i < curr.count; i++) {
+      if (!curr.active[i]) { continue; }
+      const j = 3*i;
+      if (i < numInterpolated && prevPos && prevActive![i]) {
+        callback(
+          i,
+          prevPos[j]     + alpha * (currPos[j]     - prevPos[j]),
+          prevPos[j + 1] + alpha * (currPos[j + 1] - prevPos[j + 1]),
+          prevPos[j + 2] + alpha * (currPos[j + 2] - prevPos[j + 2])
+        );
+      }
+      else {
+        callback(i, currPos[j], currPos[j + 1], currPos[j + 2]);
+      }
+    }
+  }
+
+  _send(cmd: SimulationCommand, transfer: Transferable[] = []) {
+    this.worker.postMessage(cmd, transfer);
+  }
+
+  // The active flags and values of the frame share the buffer of its positions
+  _returnBuffer(frame: SimulationFrame) {
+    const buffer = frame.positions.buffer as ArrayBuffer;
+    this._send({ type: "returnBuffer", buffer }, [buffer]);
+  }
+
+  _handleEvent(event: SimulationEvent) {
+    switch (event.type) {
+      case "ready":
+        // Frames of the previous simulation (which arrive before this event) are dropped
+        this.prevFrame = null;
+        this.currFrame = null;
+        this.info = {
+          is2D: event.is2D, cellSize: event.cellSize, boundsMin: event.boundsMin, boundsMax: event.boundsMax,
+          parameters: event.parameters
+        };
+        this.onReady?.(this.info);
+        break;
+      case "frame": {
+        // The oldest frame is no longer needed, hand its buffer back to the worker for reuse
+        if (this.prevFrame != null) {
+          this._returnBuffer(this.prevFrame);
+        }
+        this.prevFrame = this.currFrame;
+        this.currFrame = {
+          frame: event.frame, time: event.time, count: event.count,
+          positions: event.positions, active: event.active, values: event.values, gridNodes: event.gridNodes, surface: event.surface,
+          substeps: event.substeps, stepTime: event.stepTime, receivedAt: performance.now()
+        };
+        this.onFrame?.(this.currFrame);
+        break;
+      }
+      case "snapshot":
+        this.onSnapshot?.(event.buffer);
+        break;
+      case "error":
+        this.onError?.(event.message);
+        break;
+      default:
+        break;
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import {
+  Scene, Color3, Color4, Mesh, LinesMesh, VertexData, StandardMaterial, SolidParticleSystem
+} from "@babylonjs/core";
+
+import type { SimulationHost, SimulationFrame } from "./SimulationHost";
+import { PARTICLE_FIELDS } from "./mpm/ParticleFields";
+import { GRID_NODE_STRIDE, ParticleField, VisualizationOptions } from "./worker/SimulationProtocol";
+
+// Control points of the colormap of continuous fields (an approximation of viridis), evenly spaced in [0, 1]
+const COLORMAP: readonly Color3[] = [
+  new Color3(0.267, 0.005, 0.329),
+  new Color3(0.230, 0.322, 0.546),
+  new Color3(0.128, 0.567, 0.551),
+  new Color3(0.369, 0.789, 0.383),
+  new Color3(0.993, 0.906, 0.144),
+];
+// Colors of the materials, repeated if there are more materials
+const MATERIAL_COLORS: readonly Color3[] = [
+  new Color3(0.30, 0.60, 1.00),
+  new Color3(1.00, 0.55, 0.20),
+  new Color3(0.45, 0.85, 0.40),
+  new Color3(0.90, 0.35, 0.45),
+  new Color3(0.75, 0.55, 0.95),
+  new Color3(0.95, 0.85, 0.35),
+];
+
+const GRID_MARKER_SIZE = 0.15;     // Size of the cross at each grid node, in cells
+const GRID_VELOCITY_SCALE = 0.05;  // Length of the velocity lines per unit of speed, i.e. a time
+const SURFACE_COLOR = new Color3(0.25, 0.6, 1.0);
+
+/**
+ * Renders the visualization data that the simulation sends with each frame (see VisualizationOptions):
+ * particles colored by a field, an overlay of the grid nodes' mass (color of the cross at each node)
+ * and velocity (line from the node), and the surface reconstructed from the particles.
+ */
+export class VisualizationRenderer {
+  scene: Scene;
+  simulation: SimulationHost;
+  colorField: ParticleField | null = null;
+  showGrid: boolean = false;
+  showSurface: boolean = false;
+  showParticles: boolean = true;
+  valueRange: [number, number] = [0, 0]; // Range of the color field mapped to the colormap
+  onChange: (() => void) | null = null; // Called when the options or the range of the color field change
+
+  _gridLines: LinesMesh | null = null;
+  _surfaceMesh: Mesh | null = null;
+  _surfaceIs2D: boolean = false;
+  _surfaceMaterial: StandardMaterial;
+  _renderedFrame: SimulationFrame | null = null;
+  _color: Color4 = new Color4();
+
+  constructor(scene: Scene, simulation: SimulationHost) {
+    this.scene = scene;
+    this.simulation = simulation;
+    this._surfaceMaterial = new StandardMaterial("surfaceMaterial", scene);
+    this._surfaceMaterial.diffuseColor = SURFACE_COLOR;
+    this._surfaceMaterial.emissiveColor = SURFACE_COLOR.scale(0.3);
+    this._surfaceMaterial.backFaceCulling = false;
+    this._surfaceMaterial.alpha = 0.8;
+  }
+
+  get options(): VisualizationOptions {
+    return { colorField: this.colorField, grid: this.showGrid, surface: this.showSurface };
+  }
+
+  /**
+   * Keys: C cycles the field that colors the particles, G toggles the grid overlay,
+   * F the surface and P the particles.
+   * @returns Whether the key was handled.
+   */
+  handleKey(ev: KeyboardEvent): boolean {
+    switch (ev.key) {
+      case "c": {
+        // null (plain particles), then each of the fields
+        const index = this.colorField == null ? 0 : PARTICLE_FIELDS.indexOf(this.colorField) + 1;
+        this.colorField = index < PARTICLE_FIELDS.length ? PARTICLE_FIELDS[index] : null;
+        break;
+      }
+      case "g":
+        this.showGrid = !this.showGrid;
+        break;
+      case "f":
+        this.showSurface = !this.showSurface;
+        break;
+      case "p":
+        this.showParticles = !this.showParticles;
+        break;
+      default:
+        return false;
+    }
+    this.simulation.setVisualization(this.options);
+    this.onChange?.();
+    return true;
+  }
+
+  /**
+   * Colors the particles by the field (white without one) and updates the overlays when a new frame
+   * has arrived, called once per rendered frame before the particle system is updated.
+   */
+  update(particleSystem: SolidParticleSystem, is2D: boolean) {
+    particleSystem.mesh.isVisible = this.showParticles;
+    const frame = this.simulation.currFrame;
+    if (frame == null) { return; }
+
+    const values = this.colorField ? frame.values : null;
+    if (frame !== this._renderedFrame) {
+      this._renderedFrame = frame;
+      this._updateGrid(this.showGrid ? frame.gridNodes : null);
+      this._updateSurface(this.showSurface ? frame : null, is2D);
+      if (values) {
+        this._updateValueRange(values, frame.active, frame.count);
+        this.onChange?.();
+      }
+    }
+
+    const particles = particleSystem.particles;
+    for (let i = 0; i < frame.count; i++) {
+      const color = particles[i].color ?? (particles[i].color = new Color4());
+      if (values) {
+        this.fieldColor(values[i], color);
+      }
+      else {
+        color.set(1, 1, 1, 1);
+      }
+    }
+  }
+
+  /**
+   * @returns The color of a value of the current field in the given Color4.
+   */
+  fieldColor(value: number, out: Color4): Color4 {
+    if (this.colorField === "material") {
+      const color = MATERIAL_COLORS[Math.round(value) % MATERIAL_COLORS.length];
+      return out.set(color.r, color.g, color.b, 1);
+    }
+    const [min, max] = this.valueRange;
+    const t = max > min ? Math.min(1, Math.max(0, (value - min) / (max - min))) : 0;
+    return colormap(t, out);
+  }
+
+  // The pressure can be negative (tension) and the temperature spans its own range, the damage
+  // always spans at least [0, 1] so that slight damage doesn't look like cracks, the other fields
+  // are mapped from 0 up
+  _updateValueRange(values: Float32Array, active: Uint8Array, count: number) {
+    let min = this.colorField === "temperature" ? Infinity : 0;
+    let max = this.colorField === "temperature" ? -Infinity : this.colorField === "damage" ? 1 : 0;
+    for (let i = 0; i < count; i++) {
+      if (!active[i]) { continue; }
+      min = Math.min(min, values[i]);
+      max = Math.max(max, values[i]);
+    }
+    this.valueRange = min <= max ? [min, max] : [0, 0];
+  }
+
+  _updateGrid(nodes: Float32Array | null) {
+    this._gridLines?.dispose();
+    this._gridLines = null;
+    if (nodes == null || nodes.length === 0) { return; }
+
+    const numNodes = nodes.length / GRID_NODE_STRIDE;
+    let maxMass = 0;
+    for (let n = 0; n < numNodes; n++) {
+      maxMass = Math.max(maxMass, nodes[GRID_NODE_STRIDE * n + 3]);
+    }
+    const marker = GRID_MARKER_SIZE * (this.simulation.info?.cellSize ?? 0);
+
+    // Each node has 3 lines: a cross in the xy-plane and the velocity
+    const positions = new Float32Array(6 * 3 * numNodes);
+    const colors = new Float32Array(6 * 4 * numNodes);
+    const indices = new Uint32Array(6 * numNodes);
+    const color = this._color;
+    for (let n = 0; n < numNodes; n++) {
+      const o = GRID_NODE_STRIDE * n;
+      const x = nodes[o], y = nodes[o + 1], z = nodes[o + 2];
+      const endpoints = [
+        x - marker, y, z, x + marker, y, z,
+        x, y - marker, z, x, y + marker, z,
+        x, y, z,
+        x + GRID_VELOCITY_SCALE * nodes[o + 4], y + GRID_VELOCITY_SCALE * nodes[o + 5], z + GRID_VELOCITY_SCALE * nodes[o + 6],
+      ];
+      positions.set(endpoints, 18 * n);
+      colormap(maxMass > 0 ? nodes[o + 3] / maxMass : 0, color);
+      for (let v = 0; v < 6; v++) {
+        colors.set([color.r, color.g, color.b, 1], 24 * n + 4 * v);
+        indices[6 * n + v] = 6 * n + v;
+      }
+    }
+    const lines = new LinesMesh("gridOverlay", this.scene, null, null, false, true);
+    const vertexData = new VertexData();
+    vertexData.positions = positions;
+    vertexData.colors = colors;
+    vertexData.indices = indices;
+    vertexData.applyToMesh(lines);
+    lines.isPickable = false;
+    this._gridLines = lines;
+  }
+
+  _updateSurface(frame: SimulationFrame | null, is2D: boolean) {
+    const surface = frame?.surface;
+    if (surface == null || surface.positions.length === 0) {
+      this._surfaceMesh?.setEnabled(false);
+      return;
+    }
+    // The 2D contour is drawn as lines, the 3D surface as triangles
+    if (this._surfaceMesh == null || this._surfaceIs2D !== is2D) {
+      this._surfaceMesh?.dispose();
+      if (is2D) {
+        const lines = new LinesMesh("surface", this.scene);
+        lines.color = SURFACE_COLOR;
+        this._surfaceMesh = lines;
+      }
+      else {
+        this._surfaceMesh = new Mesh("surface", this.scene);
+        this._surfaceMesh.material = this._surfaceMaterial;
+      }
+      this._surfaceMesh.isPickable = false;
+      this._surfaceIs2D = is2D;
+    }
+    const vertexData = new VertexData();
+    vertexData.positions = surface.positions;
+    if (surface.normals) {
+      vertexData.normals = surface.normals;
+    }
+    const indices = new Uint32Array(surface.positions.length / 3);
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = i;
+    }
+    vertexData.indices = indices;
+    vertexData.applyToMesh(this._surfaceMesh, true);
+    this._surfaceMesh.setEnabled(true);
+  }
+}
+
+/**
+ * @returns The color of t in [0, 1] in the colormap, in the given Color4.
+ */
+const colormap = (t: number, out: Color4): Color4 => {
+  const x = t * (COLORMAP.length - 1);
+  const i = Math.min(COLORMAP.length - 2, Math.floor(x));
+  const f = x - i;
+  const a = COLORMAP[i], b = COLORMAP[i + 1];
+  return out.set(a.r + f * (b.r - a.r), a.g + f * (b.g - a.g), a.b + f * (b.b - a.b), 1);
+};
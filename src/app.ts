@@ -7,26 +7,47 @@ import {
 } from "@babylonjs/core";
 import * as THREE from 'three';
 
-import { MPMSystem } from "./mpm/MPMSystem";
+import { SimulationHost, SimulationInfo } from "./SimulationHost";
+import { resolveSceneMeshes, hasUnresolvedMeshes } from "./MeshImport";
+import { InteractionTools, TOOLS } from "./InteractionTools";
+import { VisualizationRenderer } from "./Visualization";
+import { ControlPanel } from "./ControlPanel";
+import type { KernelType } from "./mpm/Kernels";
+import type { SceneDescription } from "./scene/SceneDescription";
+import { parseScene, validateScene } from "./scene/SceneLoader";
+import { DAM_BREAK_2D, DAM_BREAK_3D } from "./scene/DefaultScenes";
+
+const SNAPSHOT_EXTENSION = ".mpms";
+// The particle system is rebuilt with room to spare whenever the particles outgrow it, so that
+// emitters adding a few particles every frame don't cause a rebuild every frame
+const MIN_PARTICLE_CAPACITY = 1024;
+const PARTICLE_CAPACITY_GROWTH = 1.5;
 
 class App {
 
   canvas: HTMLCanvasElement;
   engine: Engine;
   scene: Scene;
-  camera: ArcRotateCamera;
+  camera!: ArcRotateCamera; // Created once the simulation is ready
 
   // Camera variables
   aspectRatio: number;
   zoomTarget: Vector3;
 
-  mpm: MPMSystem;
-  particleSystem: SolidParticleSystem;
+  // The simulation runs in a worker, the app only renders the positions it sends back
+  simulation: SimulationHost;
+  tools: InteractionTools;
+  visualization: VisualizationRenderer;
+  controlPanel: ControlPanel;
+  is2D: boolean = true;
+  particleSystem: SolidParticleSystem | null = null;
+  particleCapacity: number = 0; // Number of particles in the particle system, unused ones are hidden
+  errorOverlay: HTMLPreElement;
+  statusBar: HTMLDivElement;
 
   constructor() {
 
     this.zoomTarget = Vector3.Zero();
-    this.mpm = new MPMSystem();
 
     // create the canvas html element and attach it to the webpage
     this.canvas = document.getElementById("renderCanvas") as HTMLCanvasElement;
@@ -37,53 +58,102 @@ class App {
     this.canvas.style.height = "100%";
     document.body.appendChild(this.canvas);
 
+    // Scene loading errors are shown on top of the canvas
+    this.errorOverlay = document.createElement("pre");
+    Object.assign(this.errorOverlay.style, {
+      position: "absolute", top: "0", left: "0", margin: "8px", padding: "8px", display: "none",
+      color: "#ff8080", background: "rgba(0, 0, 0, 0.8)", font: "13px monospace", whiteSpace: "pre-wrap",
+    });
+    this.errorOverlay.addEventListener("click", () => this.showError(null));
+    document.body.appendChild(this.errorOverlay);
+
     // initialize babylon scene and engine
     this.engine = new Engine(this.canvas, true);
     this.scene = new Scene(this.engine);
 
-    this.camera = new ArcRotateCamera("Camera", 0, 0, 0, Vector3.Zero(), this.scene);
-    this.camera.setPosition(new Vector3(0, 0, -5));
-    this.camera.orthoBottom = -8;
-    this.camera.orthoTop = 8;
     this.aspectRatio = this.canvas.width / this.canvas.height;
-    this.camera.orthoRight = this.camera.orthoTop * this.aspectRatio;
-    this.camera.orthoLeft = this.camera.orthoBottom * this.aspectRatio;
-    this.updateCameraSensitivity();
 
-    this.camera.lowerRadiusLimit = this.camera.radius;
-    this.camera.upperRadiusLimit = this.camera.radius;
-    this.camera.attachControl(true, false, 0);
-    this.camera.mode = Camera.ORTHOGRAPHIC_CAMERA;
+    const light1 = new HemisphericLight("light1", new Vector3(1, 1, 0), this.scene);
 
-    // Fix zooming in/out using the mouse wheel so it isn't too weak when
-    // zoomed out, and too strong when zoomed in.
-    this.camera.wheelDeltaPercentage = 0.05;
+    this.simulation = new SimulationHost();
+    this.simulation.onReady = (info) => this.onSimulationReady(info);
+    this.simulation.onError = (message) => this.showError(`Simulation error: ${message}`);
+    this.simulation.onSnapshot = (buffer) => this.downloadSnapshot(buffer);
 
-    const light1 = new HemisphericLight("light1", new Vector3(1, 1, 0), this.scene);
+    // Mouse tools, the selected tool and its settings are shown in the status bar
+    this.tools = new InteractionTools(this.scene, this.simulation);
+    this.statusBar = document.createElement("div");
+    Object.assign(this.statusBar.style, {
+      position: "absolute", bottom: "0", left: "0", margin: "8px", padding: "4px 8px", pointerEvents: "none",
+      color: "#e0e0e0", background: "rgba(0, 0, 0, 0.6)", font: "12px monospace", whiteSpace: "pre",
+    });
+    document.body.appendChild(this.statusBar);
 
-    this.particleSystem = new SolidParticleSystem("mpmParticleSystem", this.scene);
-    this.mpm.addParticles(new THREE.Vector3(-1.6, -1.6, 0), new THREE.Vector3(1.6, 1.6, 0), 0.1, 1);
-    const particleMesh = MeshBuilder.CreateSphere("particle", { diameter: 0.1, segments: 8}, this.scene);
-    this.particleSystem.addShape(particleMesh, this.mpm.particles.length);
-    this.particleSystem.buildMesh();
-    particleMesh.dispose();
+    // Render modes, also shown in the status bar
+    this.visualization = new VisualizationRenderer(this.scene, this.simulation);
+    this.visualization.onChange = () => this.updateStatusBar();
+    this.updateStatusBar();
 
-    this.particleSystem.initParticles = () => {
-      for (let i = 0; i < this.mpm.particles.length; i++) {
-        const mpmParticle = this.mpm.particles[i];
-        const spsParticle = this.particleSystem.particles[i];
-        const pos = mpmParticle.pos;
-        spsParticle.position.set(pos.x, pos.y, pos.z);
+    // Playback, parameters and statistics, the panel also shows the spawn settings of the tools
+    this.controlPanel = new ControlPanel(this.simulation, this.tools, this.engine);
+    this.tools.onChange = () => {
+      this.updateStatusBar();
+      this.controlPanel.refresh();
+    };
+
+    // Scenes are loaded from ?scene=<url of a scene JSON file> or by dropping a file onto the page
+    // (dropped .mpms files are restored as snapshots, see the S key below),
+    // otherwise a default scene is shown (3D with ?dim=3 in the page URL, 2D by default).
+    // The interpolation kernel of any scene can be overridden with ?kernel=linear|quadratic|cubic
+    const urlParams = new URLSearchParams(window.location.search);
+    const kernel = urlParams.get("kernel") as KernelType | null;
+    const sceneUrl = urlParams.get("scene");
+    const loadScene = (scene: SceneDescription, baseUrl?: string) => {
+      if (kernel) {
+        scene = { ...scene, solver: { ...scene.solver, kernel } };
       }
+      this.loadScene(scene, baseUrl);
     };
-    this.particleSystem.initParticles();
-    this.particleSystem.computeParticleRotation = false;
-    this.particleSystem.computeParticleColor = false;
-    this.particleSystem.computeParticleTexture = false;
-    this.particleSystem.setParticles();
+    if (sceneUrl) {
+      fetch(sceneUrl)
+        .then((response) => {
+          if (!response.ok) { throw new Error(`${response.status} ${response.statusText}`); }
+          return response.text();
+        })
+        .then((text) => this.tryLoad(() => loadScene(parseScene(text), new URL(sceneUrl, window.location.href).href), sceneUrl))
+        .catch((e) => this.showError(`Couldn't fetch the scene ${sceneUrl}: ${e instanceof Error ? e.message : e}`));
+    }
+    else {
+      const scene = urlParams.get("dim") === "3" ? DAM_BREAK_3D : DAM_BREAK_2D;
+      this.tryLoad(() => loadScene(scene), scene.name ?? "the default scene");
+    }
+    this.simulation.play();
+
+    window.addEventListener("dragover", (ev) => ev.preventDefault());
+    window.addEventListener("drop", (ev) => {
+      ev.preventDefault();
+      const file = ev.dataTransfer?.files[0];
+      if (file == null) { return; }
+      if (file.name.endsWith(SNAPSHOT_EXTENSION)) {
+        file.arrayBuffer().then((buffer) => this.simulation.loadSnapshot(buffer));
+        return;
+      }
+      file.text().then((text) => this.tryLoad(() => loadScene(parseScene(text)), file.name));
+    });
 
-    // hide/show the Inspector
+    // hide/show the Inspector, S saves a snapshot of the simulation, see InteractionTools.handleKey for the tool keys,
+    // VisualizationRenderer.handleKey for the render modes and ControlPanel.handleKey for playback
     window.addEventListener("keydown", (ev) => {
+      if (ev.target instanceof HTMLInputElement || ev.target instanceof HTMLSelectElement) {
+        return; // Typing into the control panel
+      }
+      if (this.tools.handleKey(ev) || this.visualization.handleKey(ev) || this.controlPanel.handleKey(ev)) {
+        ev.preventDefault(); // e.g. space would also press the focused button
+        return;
+      }
+      if (ev.key === 's') {
+        this.simulation.saveSnapshot();
+      }
       // Shift+Ctrl+Alt+I
       if (ev.key === 'i') {
         if (this.scene.debugLayer.isVisible()) {
@@ -96,12 +166,14 @@ class App {
     });
 
     window.addEventListener("resize", () => this.handle_resize());
-    this.handle_resize();
 
     const _this = this;
     this.scene.onPointerObservable.add((kbInfo) => {
       switch (kbInfo.type) {
         case PointerEventTypes.POINTERWHEEL:
+          if (!_this.is2D || !_this.camera) {
+            break; // The orbit camera handles zooming itself
+          }
           const event = kbInfo.event as WheelEvent;
           // NOTE: Negative values of deltaY will be a swipe up (scroll up)
           const delta = -(Math.max(-1, Math.min(1, (-event.detail || event.deltaY)))) * 0.2;
@@ -110,6 +182,9 @@ class App {
           break;
 
         case PointerEventTypes.POINTERMOVE:
+          if (!_this.camera) {
+            break;
+          }
           _this.zoomTarget = Vector3.Unproject(
             new Vector3(_this.scene.pointerX, _this.scene.pointerY, 0),
             _this.engine.getRenderWidth(),
@@ -126,27 +201,168 @@ class App {
 
     });
 
-    // run the main render loop
+    // run the main render loop, particles are interpolated between the last two simulation frames
     this.engine.runRenderLoop(() => {
-      const dt = 0.01;//this.engine.getDeltaTime() / 1000.0;
-      this.mpm.step(dt);
-      for (let i = 0; i < this.mpm.particles.length; i++) {
-        const mpmParticle = this.mpm.particles[i];
-        const spsParticle = this.particleSystem.particles[i];
-        const pos = mpmParticle.pos;
-        spsParticle.position.set(pos.x, pos.y, pos.z);
-        this.particleSystem.updateParticle(spsParticle);
+      if (!this.camera) {
+        return; // Waiting for the simulation to be ready
+      }
+      const count = this.simulation.particleCount;
+      if (this.particleSystem == null || count > this.particleCapacity) {
+        this.rebuildParticleSystem(Math.max(MIN_PARTICLE_CAPACITY, Math.ceil(PARTICLE_CAPACITY_GROWTH * count)));
       }
-      this.particleSystem.setParticles();
+      // Only the active particles are shown
+      const particles = this.particleSystem!.particles;
+      for (const particle of particles) {
+        particle.isVisible = false;
+      }
+      this.simulation.forEachInterpolatedPosition(this.simulation.interpolationAlpha(), (i, x, y, z) => {
+        particles[i].position.set(x, y, z);
+        particles[i].isVisible = true;
+      });
+      this.visualization.update(this.particleSystem!, this.is2D);
+      this.particleSystem!.setParticles();
+      this.tools.update();
+      this.controlPanel.update();
       this.scene.render();
     });
 
   }
 
+  onSimulationReady(info: SimulationInfo) {
+    // Each loaded scene gets a new camera, since it may switch between 2D and 3D
+    this.camera?.dispose();
+    this.is2D = info.is2D;
+    this.camera = info.is2D ? this.createOrthographicCamera() : this.createOrbitCamera(info);
+    this.tools.setCamera(this.camera, info.is2D);
+    this.controlPanel.refresh(); // The parameters are those of the loaded simulation
+    this.handle_resize();
+  }
+
+  updateStatusBar() {
+    const { tool, radius, spawnMaterial } = this.tools;
+    const toolKeys = TOOLS.map((t, i) => `${i + 1} ${t === tool ? `[${t}]` : t}`).join("  ");
+    let settings = "";
+    if (tool !== "camera") {
+      settings = `   radius ${radius.toFixed(2)} ([ ])`;
+    }
+    if (tool === "push") {
+      settings += "   shift: pull";
+    }
+    if (tool === "spawn") {
+      settings += `   material ${spawnMaterial.name} (M)`;
+    }
+    const { colorField, valueRange, showGrid, showSurface, showParticles } = this.visualization;
+    const onOff = (on: boolean) => on ? "on" : "off";
+    let color = colorField ?? "none";
+    if (colorField != null && colorField !== "material") {
+      color += ` ${valueRange[0].toPrecision(3)} - ${valueRange[1].toPrecision(3)}`;
+    }
+    const modes = `C color: ${color}   G grid: ${onOff(showGrid)}   F surface: ${onOff(showSurface)}   P particles: ${onOff(showParticles)}`;
+    this.statusBar.textContent = toolKeys + settings + "\n" + modes;
+  }
+
+  /**
+   * @param baseUrl The url that the urls of meshes in the scene are relative to, defaults to the page's.
+   */
+  loadScene(scene: SceneDescription, baseUrl?: string) {
+    // Validated here as well as in the worker so that errors are reported before the current scene is replaced
+    validateScene(scene);
+    this.showError(null);
+    if (!hasUnresolvedMeshes(scene)) {
+      this.simulation.loadScene(scene);
+      return;
+    }
+    resolveSceneMeshes(scene, this.engine, baseUrl)
+      .then((resolved) => this.simulation.loadScene(resolved))
+      .catch((e) => this.showError(`Couldn't load the meshes of ${scene.name ?? "the scene"}\n${e instanceof Error ? e.message : e}`));
+  }
+
+  /**
+   * Runs the given scene loading function, showing any error it throws.
+   */
+  tryLoad(load: () => void, source: string) {
+    try {
+      load();
+    }
+    catch (e) {
+      this.showError(`Couldn't load ${source}\n${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  downloadSnapshot(buffer: ArrayBuffer) {
+    const time = this.simulation.currFrame?.time ?? 0;
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(new Blob([buffer], { type: "application/octet-stream" }));
+    link.href = url;
+    link.download = `snapshot-${time.toFixed(3)}s${SNAPSHOT_EXTENSION}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0); // Once the download has started
+  }
+
+  // Shows the given error message over the canvas (click to dismiss), or hides it if null
+  showError(message: string | null) {
+    if (message != null) {
+      console.error(message);
+    }
+    this.errorOverlay.textContent = message ?? "";
+    this.errorOverlay.style.display = message != null ? "block" : "none";
+  }
+
+  rebuildParticleSystem(capacity: number) {
+    this.particleSystem?.dispose();
+    this.particleSystem = new SolidParticleSystem("mpmParticleSystem", this.scene);
+    const particleMesh = MeshBuilder.CreateSphere("particle", { diameter: 0.1, segments: 8}, this.scene);
+    this.particleSystem.addShape(particleMesh, capacity);
+    this.particleSystem.buildMesh();
+    particleMesh.dispose();
+    this.particleSystem.computeParticleRotation = false;
+    this.particleSystem.computeParticleColor = true; // See VisualizationRenderer.update
+    this.particleSystem.computeParticleTexture = false;
+    this.particleSystem.isAlwaysVisible = true;
+    this.particleCapacity = capacity;
+  }
+
+  createOrthographicCamera(): ArcRotateCamera {
+    const camera = new ArcRotateCamera("Camera", 0, 0, 0, Vector3.Zero(), this.scene);
+    camera.setPosition(new Vector3(0, 0, -5));
+    camera.orthoBottom = -8;
+    camera.orthoTop = 8;
+    camera.orthoRight = camera.orthoTop * this.aspectRatio;
+    camera.orthoLeft = camera.orthoBottom * this.aspectRatio;
+
+    camera.lowerRadiusLimit = camera.radius;
+    camera.upperRadiusLimit = camera.radius;
+    camera.attachControl(true, false, 0);
+    camera.mode = Camera.ORTHOGRAPHIC_CAMERA;
+
+    // Fix zooming in/out using the mouse wheel so it isn't too weak when
+    // zoomed out, and too strong when zoomed in.
+    camera.wheelDeltaPercentage = 0.05;
+    this.camera = camera;
+    this.updateCameraSensitivity();
+    return camera;
+  }
+
+  createOrbitCamera(info: SimulationInfo): ArcRotateCamera {
+    const bounds = new THREE.Box3(new THREE.Vector3(...info.boundsMin), new THREE.Vector3(...info.boundsMax));
+    const center = bounds.getCenter(new THREE.Vector3());
+    const radius = bounds.getSize(new THREE.Vector3()).length();
+    const camera = new ArcRotateCamera(
+      "Camera", -Math.PI / 2, Math.PI / 3, radius, new Vector3(center.x, center.y, center.z), this.scene
+    );
+    camera.mode = Camera.PERSPECTIVE_CAMERA;
+    camera.minZ = 0.01;
+    camera.lowerRadiusLimit = 0.5;
+    camera.upperRadiusLimit = 4 * radius;
+    camera.wheelDeltaPercentage = 0.05;
+    camera.attachControl(true);
+    return camera;
+  }
+
   handle_resize() {
     this.engine.resize();
     const canvasRect = this.engine.getRenderingCanvasClientRect();
-    if (canvasRect != null) {
+    if (canvasRect != null && this.is2D && this.camera) {
       this.aspectRatio = canvasRect.width / canvasRect.height;
       this.camera.orthoRight = (this.camera.orthoTop || 1) * this.aspectRatio;
       this.camera.orthoLeft  = (this.camera.orthoBottom || -1) * this.aspectRatio;
@@ -0,0 +1,119 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { createRandom } from '../MathUtils';
+import { ParticleSet } from "../mpm/Particles";
+import { FixedCorotatedMaterial, FluidMaterial } from "../mpm/Materials";
+import { exportCSV, exportPLY, exportVTK } from "./ParticleExport";
+
+// The attributes of a particle as every format holds them
+interface ExportedParticle {
+  pos: number[];
+  vel: number[];
+  mass: number;
+  J: number;
+  material: number;
+}
+
+// Particles of two materials with random attributes, one of them inactive
+const createParticles = (): ParticleSet => {
+  const random = createRandom(7);
+  const particles = new ParticleSet();
+  const materials = [new FluidMaterial(), new FixedCorotatedMaterial(1000, 0.3)];
+  for (let i = 0; i < 10; i++) {
+    const pos = new THREE.Vector3(random(), random(), random()).multiplyScalar(4).subScalar(2);
+    const vel = new THREE.Vector3(random(), random(), random()).multiplyScalar(10).subScalar(5);
+    const index = particles.add(0.5 + random(), 0.01, pos, vel, materials[i % 3 === 0 ? 1 : 0]);
+    particles.J[index] = 0.5 + random();
+  }
+  particles.deactivate(4);
+  return particles;
+};
+
+/**
+ * @returns The active particles in order, optionally rounded to single precision like the PLY file.
+ */
+const expectedParticles = (particles: ParticleSet, round = (x: number) => x): ExportedParticle[] => {
+  const expected: ExportedParticle[] = [];
+  const materials: unknown[] = [];
+  for (let i = 0; i < particles.count; i++) {
+    if (!particles.active[i]) { continue; }
+    if (materials.indexOf(particles.material[i]) < 0) {
+      materials.push(particles.material[i]);
+    }
+    expected.push({
+      pos: Array.from(particles.pos.subarray(3*i, 3*i + 3), round),
+      vel: Array.from(particles.vel.subarray(3*i, 3*i + 3), round),
+      mass: round(particles.mass[i]),
+      J: round(particles.J[i]),
+      material: materials.indexOf(particles.material[i]),
+    });
+  }
+  return expected;
+};
+
+const readPLY = (buffer: ArrayBuffer): ExportedParticle[] => {
+  const bytes = new Uint8Array(buffer);
+  const text = new TextDecoder().decode(bytes);
+  const headerEnd = text.indexOf("end_header\n") + "end_header\n".length;
+  const header = text.slice(0, headerEnd).split("\n");
+  assert.equal(header[1], "format binary_little_endian 1.0");
+  const count = Number(header.find((line) => line.startsWith("element vertex"))?.split(" ")[2]);
+  const view = new DataView(buffer, headerEnd);
+  const particles: ExportedParticle[] = [];
+  for (let k = 0; k < count; k++) {
+    const float = (n: number) => view.getFloat32(36 * k + 4 * n, true);
+    particles.push({
+      pos: [float(0), float(1), float(2)], vel: [float(3), float(4), float(5)], mass: float(6), J: float(7),
+      material: view.getInt32(36 * k + 32, true),
+    });
+  }
+  assert.equal(view.byteLength, 36 * count);
+  return particles;
+};
+
+const readCSV = (text: string): ExportedParticle[] => {
+  const [header, ...rows] = text.trimEnd().split("\n");
+  assert.equal(header, "x,y,z,vx,vy,vz,mass,J,material");
+  return rows.map((row) => {
+    const v = row.split(",").map(Number);
+    return { pos: v.slice(0, 3), vel: v.slice(3, 6), mass: v[6], J: v[7], material: v[8] };
+  });
+};
+
+const readVTK = (text: string): ExportedParticle[] => {
+  const lines = text.trimEnd().split("\n");
+  // The values of each section follow its header line
+  const section = (header: string, length: number): number[][] => {
+    const start = lines.findIndex((line) => line.startsWith(header)) + 1;
+    assert.ok(start > 0, `Missing ${header}`);
+    return lines.slice(start, start + length).map((line) => line.split(" ").map(Number));
+  };
+  const count = Number(lines.find((line) => line.startsWith("POINTS"))?.split(" ")[1]);
+  const pos = section("POINTS", count);
+  const vertices = section("VERTICES", count);
+  vertices.forEach((cell, k) => assert.deepEqual(cell, [1, k]));
+  const vel = section("VECTORS velocity", count);
+  // The scalars are preceded by their lookup table line
+  const mass = section("SCALARS mass", count + 1).slice(1);
+  const J = section("SCALARS J", count + 1).slice(1);
+  const material = section("SCALARS material", count + 1).slice(1);
+  return pos.map((p, k) => ({ pos: p, vel: vel[k], mass: mass[k][0], J: J[k][0], material: material[k][0] }));
+};
+
+describe("ParticleExport", () => {
+  test("PLY files hold the active particles in single precision", () => {
+    const particles = createParticles();
+    assert.deepEqual(readPLY(exportPLY(particles)), expectedParticles(particles, Math.fround));
+  });
+
+  test("CSV files hold the active particles exactly", () => {
+    const particles = createParticles();
+    assert.deepEqual(readCSV(exportCSV(particles)), expectedParticles(particles));
+  });
+
+  test("VTK files hold the active particles exactly", () => {
+    const particles = createParticles();
+    assert.deepEqual(readVTK(exportVTK(particles)), expectedParticles(particles));
+  });
+});
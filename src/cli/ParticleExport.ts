@@ -0,0 +1,148 @@
+import { ParticleSet } from "../mpm/Particles";
+import { Material } from "../mpm/Materials";
+
+// Writers for the per-frame particle data of the command line runner. Every format holds the same
+// per-particle attributes: position, velocity, mass, volume ratio J and the material (as an index
+// into the distinct materials of the particle set, in order of first appearance).
+// Only active particles are written.
+
+export type ExportFormat = "ply" | "csv" | "vtk";
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ["ply", "csv", "vtk"];
+
+/**
+ * @returns The indices of the active particles and the material index of each of them.
+ */
+const collectParticles = (particles: ParticleSet): { indices: number[], materialIds: number[] } => {
+  const materials: Material[] = [];
+  const indices: number[] = [];
+  const materialIds: number[] = [];
+  for (let i = 0; i < particles.count; i++) {
+    if (!particles.active[i]) { continue; }
+    let id = materials.indexOf(particles.material[i]);
+    if (id < 0) {
+      id = materials.length;
+      materials.push(particles.material[i]);
+    }
+    indices.push(i);
+    materialIds.push(id);
+  }
+  return { indices, materialIds };
+};
+
+/**
+ * Binary (little endian) PLY point cloud, readable by Blender, Houdini, MeshLab, ParaView, etc.
+ */
+export const exportPLY = (particles: ParticleSet): ArrayBuffer => {
+  const { indices, materialIds } = collectParticles(particles);
+  const header = [
+    "ply",
+    "format binary_little_endian 1.0",
+    "comment MPM particles",
+    `element vertex ${indices.length}`,
+    "property float x",
+    "property float y",
+    "property float z",
+    "property float vx",
+    "property float vy",
+    "property float vz",
+    "property float mass",
+    "property float J",
+    "property int material",
+    "end_header",
+    "",
+  ].join("\n");
+
+  const VERTEX_BYTES = 9 * 4;
+  const headerBytes = new TextEncoder().encode(header);
+  const buffer = new ArrayBuffer(headerBytes.length + indices.length * VERTEX_BYTES);
+  new Uint8Array(buffer).set(headerBytes);
+  const view = new DataView(buffer, headerBytes.length);
+  const { pos, vel, mass, J } = particles;
+  for (let k = 0; k < indices.length; k++) {
+    const i = indices[k];
+    const offset = k * VERTEX_BYTES;
+    view.setFloat32(offset, pos[3*i], true);
+    view.setFloat32(offset + 4, pos[3*i + 1], true);
+    view.setFloat32(offset + 8, pos[3*i + 2], true);
+    view.setFloat32(offset + 12, vel[3*i], true);
+    view.setFloat32(offset + 16, vel[3*i + 1], true);
+    view.setFloat32(offset + 20, vel[3*i + 2], true);
+    view.setFloat32(offset + 24, mass[i], true);
+    view.setFloat32(offset + 28, J[i], true);
+    view.setInt32(offset + 32, materialIds[k], true);
+  }
+  return buffer;
+};
+
+/**
+ * CSV table with a header row and one particle per line.
+ */
+export const exportCSV = (particles: ParticleSet): string => {
+  const { indices, materialIds } = collectParticles(particles);
+  const { pos, vel, mass, J } = particles;
+  const lines = ["x,y,z,vx,vy,vz,mass,J,material"];
+  for (let k = 0; k < indices.length; k++) {
+    const i = indices[k];
+    lines.push([
+      pos[3*i], pos[3*i + 1], pos[3*i + 2], vel[3*i], vel[3*i + 1], vel[3*i + 2], mass[i], J[i], materialIds[k]
+    ].join(","));
+  }
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * ASCII legacy VTK poly data with one vertex cell per particle and the other attributes as point data.
+ */
+export const exportVTK = (particles: ParticleSet): string => {
+  const { indices, materialIds } = collectParticles(particles);
+  const { pos, vel, mass, J } = particles;
+  const n = indices.length;
+  const lines = [
+    "# vtk DataFile Version 3.0",
+    "MPM particles",
+    "ASCII",
+    "DATASET POLYDATA",
+    `POINTS ${n} double`,
+  ];
+  for (const i of indices) {
+    lines.push(`${pos[3*i]} ${pos[3*i + 1]} ${pos[3*i + 2]}`);
+  }
+  lines.push(`VERTICES ${n} ${2 * n}`);
+  for (let k = 0; k < n; k++) {
+    lines.push(`1 ${k}`);
+  }
+  lines.push(`POINT_DATA ${n}`, "VECTORS velocity double");
+  for (const i of indices) {
+    lines.push(`${vel[3*i]} ${vel[3*i + 1]} ${vel[3*i + 2]}`);
+  }
+  lines.push("SCALARS mass double 1", "LOOKUP_TABLE default");
+  for (const i of indices) {
+    lines.push(`${mass[i]}`);
+  }
+  lines.push("SCALARS J double 1", "LOOKUP_TABLE default");
+  for (const i of indices) {
+    lines.push(`${J[i]}`);
+  }
+  lines.push("SCALARS material int 1", "LOOKUP_TABLE default");
+  for (const id of materialIds) {
+    lines.push(`${id}`);
+  }
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * @returns The file contents for the particles in the given format.
+ */
+export const exportParticles = (particles: ParticleSet, format: ExportFormat): ArrayBuffer | string => {
+  switch (format) {
+    case "ply":
+      return exportPLY(particles);
+    case "csv":
+      return exportCSV(particles);
+    case "vtk":
+      return exportVTK(particles);
+    default:
+      throw new Error(`Unknown export format: ${format}`);
+  }
+};
@@ -0,0 +1,302 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import * as THREE from 'three';
+import { MPMSystem } from "../mpm/MPMSystem";
+import { KernelType } from "../mpm/Kernels";
+import { snapshotFromBinary, snapshotToBinary } from "../mpm/Snapshot";
+import { createDiagnostics } from "../mpm/Diagnostics";
+import { parseScene, buildScene, SceneError } from "../scene/SceneLoader";
+import { DEFAULT_FRAME_DT } from "../worker/SimulationProtocol";
+import { EXPORT_FORMATS, ExportFormat, exportParticles } from "./ParticleExport";
+
+// Headless runner: loads a scene (or a binary snapshot), simulates a number of frames and writes
+// the particles of every frame to disk.
+// Usage: npm run simulate -- <scene.json | snapshot.mpms> [options]
+
+const USAGE = `Usage: npm run simulate -- <scene.json | snapshot.mpms> [options]
+
+Options:
+  -n, --frames <count>      Number of frames to simulate (default: 120)
+  -o, --out <dir>           Output directory (default: ./output)
+  -f, --format <list>       Comma separated output formats: ${EXPORT_FORMATS.join(", ")} (default: ply)
+      --every <n>           Only write every n-th frame (default: 1)
+      --frame-dt <seconds>  Simulated time per frame (default: the scene's solver.frameDt or the snapshot's, or 1/60)
+      --kernel <type>       Override the scene's interpolation kernel: linear, quadratic or cubic
+      --snapshot <file>     Save a binary snapshot of the final state, it can be resumed from later
+      --diagnostics <file>  Write the mass, momenta and energies after every step as CSV
+  -q, --quiet               Only print the summary
+  -h, --help                Show this message
+`;
+
+interface RunOptions {
+  input: string;
+  frames: number;
+  outDir: string;
+  formats: ExportFormat[];
+  every: number;
+  frameDt?: number;
+  kernel?: KernelType;
+  snapshot?: string;
+  diagnostics?: string;
+  quiet: boolean;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const parseInteger = (name: string, value: string | undefined, fallback: number, min: number): number => {
+  if (value === undefined) { return fallback; }
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    throw new UsageError(`--${name} must be an integer >= ${min}, got "${value}"`);
+  }
+  return n;
+};
+
+/**
+ * @returns The run options, or undefined if only the usage was requested.
+ * @throws UsageError for invalid arguments.
+ */
+const parseOptions = (args: string[]): RunOptions | undefined => {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(args);
+  }
+  catch (e) {
+    throw new UsageError(e instanceof Error ? e.message : String(e));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) { return undefined; }
+  if (positionals.length !== 1) {
+    throw new UsageError("Expected exactly one scene or snapshot file");
+  }
+
+  const formats = (values.format ?? "ply").split(",").map((f) => f.trim().toLowerCase()) as ExportFormat[];
+  for (const format of formats) {
+    if (EXPORT_FORMATS.indexOf(format) < 0) {
+      throw new UsageError(`Unknown format "${format}", expected one of: ${EXPORT_FORMATS.join(", ")}`);
+    }
+  }
+
+  let frameDt: number | undefined;
+  if (values["frame-dt"] !== undefined) {
+    frameDt = Number(values["frame-dt"]);
+    if (!(frameDt > 0)) {
+      throw new UsageError(`--frame-dt must be a positive number, got "${values["frame-dt"]}"`);
+    }
+  }
+
+  const kernel = values.kernel as KernelType | undefined;
+  if (kernel !== undefined && ["linear", "quadratic", "cubic"].indexOf(kernel) < 0) {
+    throw new UsageError(`Unknown kernel "${kernel}", expected linear, quadratic or cubic`);
+  }
+
+  return {
+    input: positionals[0],
+    frames: parseInteger("frames", values.frames, 120, 0),
+    outDir: values.out ?? "output",
+    formats,
+    every: parseInteger("every", values.every, 1, 1),
+    frameDt,
+    kernel,
+    snapshot: values.snapshot,
+    diagnostics: values.diagnostics,
+    quiet: values.quiet ?? false,
+  };
+};
+
+const parseCommandLine = (args: string[]) => parseArgs({
+  args,
+  allowPositionals: true,
+  options: {
+    frames: { type: "string", short: "n" },
+    out: { type: "string", short: "o" },
+    format: { type: "string", short: "f" },
+    every: { type: "string" },
+    "frame-dt": { type: "string" },
+    kernel: { type: "string" },
+    snapshot: { type: "string" },
+    diagnostics: { type: "string" },
+    quiet: { type: "boolean", short: "q" },
+    help: { type: "boolean", short: "h" },
+  },
+});
+
+/**
+ * Loads the simulation from a scene (JSON) or a binary snapshot, based on the file's contents.
+ * @returns The simulation, the frame time the input asks for, if any, and the frame it starts at
+ * (that of a snapshot, 0 for a scene).
+ */
+const loadSimulation = (file: string, kernel?: KernelType): { mpm: MPMSystem, frameDt?: number, frame: number } => {
+  const data = fs.readFileSync(file);
+  if (data.length >= 4 && data.toString("latin1", 0, 4) === "MPMS") {
+    if (kernel) {
+      throw new UsageError("--kernel can't be used when resuming from a snapshot");
+    }
+    const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+    const { mpm, playback } = snapshotFromBinary(buffer);
+    return { mpm, frameDt: playback.frameDt, frame: playback.frame };
+  }
+  const scene = parseScene(data.toString("utf8"));
+  if (kernel) {
+    scene.solver = { ...scene.solver, kernel };
+  }
+  return { mpm: buildScene(scene), frameDt: scene.solver?.frameDt, frame: 0 };
+};
+
+const DIAGNOSTICS_HEADER =
+  "step,time,dt,particles,mass,momentum_x,momentum_y,momentum_z," +
+  "angular_momentum_x,angular_momentum_y,angular_momentum_z,kinetic_energy,elastic_energy,max_velocity,thermal_energy";
+
+const formatDuration = (ms: number): string => {
+  if (ms < 1000) { return `${ms.toFixed(0)} ms`; }
+  const s = ms / 1000;
+  return s < 60 ? `${s.toFixed(1)} s` : `${Math.floor(s / 60)} min ${(s % 60).toFixed(0)} s`;
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) { return `${bytes} B`; }
+  if (bytes < 1024 * 1024) { return `${(bytes / 1024).toFixed(1)} KiB`; }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MiB`;
+};
+
+const run = (options: RunOptions) => {
+  const { mpm, frameDt: inputFrameDt, frame: firstFrame } = loadSimulation(options.input, options.kernel);
+  const frameDt = options.frameDt ?? inputFrameDt ?? DEFAULT_FRAME_DT;
+  // The files are numbered by the absolute frame, so a resumed run continues the numbering of the
+  // run that saved the snapshot
+  const lastFrame = firstFrame + options.frames;
+  const digits = Math.max(4, String(lastFrame).length);
+  const progressInPlace = process.stdout.isTTY && !options.quiet;
+  fs.mkdirSync(options.outDir, { recursive: true });
+
+  console.log(
+    `${options.input}: ${mpm.particles.countActive()} particles, ${mpm.is2D ? "2D" : "3D"} ` +
+    `${mpm.isDomainOpen ? "open" : "closed"} domain of ` +
+    `${mpm.domain.getSize(new THREE.Vector3()).divideScalar(mpm.grid.cellSize).round().toArray().slice(0, mpm.is2D ? 2 : 3).join("x")} ` +
+    `cells, ${mpm.grid.kernel.type} kernel, ` +
+    `${options.frames} frames of ${(1000 * frameDt).toFixed(2)} ms -> ${options.outDir} (${options.formats.join(", ")})`
+  );
+
+  let filesWritten = 0;
+  let bytesWritten = 0;
+  let writeMs = 0;
+  const writeFrame = (frame: number) => {
+    const start = performance.now();
+    const name = `frame_${String(frame).padStart(digits, "0")}`;
+    for (const format of options.formats) {
+      const contents = exportParticles(mpm.particles, format);
+      const data = typeof contents === "string" ? contents : new Uint8Array(contents);
+      fs.writeFileSync(path.join(options.outDir, `${name}.${format}`), data);
+      filesWritten++;
+      bytesWritten += typeof contents === "string" ? Buffer.byteLength(contents) : contents.byteLength;
+    }
+    writeMs += performance.now() - start;
+  };
+
+  // The first frame is the initial state
+  writeFrame(firstFrame);
+
+  const diagnosticsRows: string[] = [];
+  if (options.diagnostics) {
+    const d = createDiagnostics();
+    diagnosticsRows.push(DIAGNOSTICS_HEADER);
+    mpm.onStep = (dt) => {
+      mpm.computeDiagnostics(d);
+      diagnosticsRows.push([
+        mpm.stepCount, mpm.time, dt, d.particleCount, d.totalMass,
+        ...d.linearMomentum.toArray(), ...d.angularMomentum.toArray(),
+        d.kineticEnergy, d.elasticEnergy, d.maxVelocity, d.thermalEnergy,
+      ].join(","));
+    };
+  }
+
+  let simulateMs = 0;
+  let totalSubsteps = 0;
+  let cappedFrames = 0; // Frames that hit maxSubsteps and simulated less than frameDt
+  for (let frame = 1; frame <= options.frames; frame++) {
+    const start = performance.now();
+    const simulated = mpm.advance(frameDt);
+    const frameMs = performance.now() - start;
+    simulateMs += frameMs;
+    totalSubsteps += mpm.lastSubsteps;
+    if (simulated < frameDt * (1 - 1e-6)) { cappedFrames++; }
+
+    if (frame % options.every === 0 || frame === options.frames) {
+      writeFrame(firstFrame + frame);
+    }
+
+    if (!options.quiet) {
+      const eta = simulateMs / frame * (options.frames - frame);
+      const line =
+        `frame ${String(frame).padStart(digits)}/${options.frames}  t=${mpm.time.toFixed(3)} s  ` +
+        `${String(mpm.lastSubsteps).padStart(3)} substeps  ${frameMs.toFixed(1).padStart(7)} ms  ETA ${formatDuration(eta)}`;
+      if (progressInPlace) {
+        process.stdout.write(`\r${line}\x1b[K`);
+      }
+      else {
+        console.log(line);
+      }
+    }
+  }
+  if (progressInPlace) {
+    process.stdout.write("\n");
+  }
+
+  if (options.snapshot) {
+    fs.mkdirSync(path.dirname(options.snapshot), { recursive: true });
+    fs.writeFileSync(options.snapshot, new Uint8Array(snapshotToBinary(mpm, { frame: lastFrame, frameDt })));
+    console.log(`Saved snapshot at t=${mpm.time.toFixed(3)} s to ${options.snapshot}`);
+  }
+
+  if (options.diagnostics) {
+    fs.mkdirSync(path.dirname(options.diagnostics), { recursive: true });
+    fs.writeFileSync(options.diagnostics, diagnosticsRows.join("\n") + "\n");
+    console.log(`Wrote the diagnostics of ${diagnosticsRows.length - 1} steps to ${options.diagnostics}`);
+  }
+
+  const frames = Math.max(1, options.frames);
+  console.log(
+    `Simulated ${options.frames} frames (${mpm.stepCount} steps total, t=${mpm.time.toFixed(3)} s) in ${formatDuration(simulateMs)}: ` +
+    `${(simulateMs / frames).toFixed(1)} ms/frame, ${(totalSubsteps / frames).toFixed(1)} substeps/frame`
+  );
+  console.log(`Wrote ${filesWritten} files (${formatBytes(bytesWritten)}) in ${formatDuration(writeMs)}`);
+  if (cappedFrames > 0) {
+    console.warn(
+      `Warning: ${cappedFrames} frames reached the substep cap (${mpm.timeStepOptions.maxSubsteps}) ` +
+      `and simulated less than the frame time`
+    );
+  }
+};
+
+const main = () => {
+  let options: RunOptions | undefined;
+  try {
+    options = parseOptions(process.argv.slice(2));
+    if (!options) {
+      console.log(USAGE);
+      return;
+    }
+    run(options);
+  }
+  catch (e) {
+    if (e instanceof UsageError) {
+      console.error(`${e.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    }
+    else if (e instanceof SceneError || (e instanceof Error && (e as NodeJS.ErrnoException).code)) {
+      console.error(e.message);
+      process.exitCode = 1;
+    }
+    else {
+      throw e;
+    }
+  }
+};
+
+main();
@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+
+export enum BrushMode {
+  Push, // Radial acceleration away from the center (towards it for a negative strength)
+  Drag, // Pulls the velocity of the material towards the brush's velocity
+}
+
+const _offset = new THREE.Vector3();
+
+/**
+ * Interactive forcing of the grid nodes within a radius of a point, e.g. under the mouse cursor.
+ * Its effect falls off smoothly from the center to the edge of the brush.
+ */
+export class GridBrush {
+  mode: BrushMode;
+  position: THREE.Vector3;
+  velocity: THREE.Vector3; // Velocity of the brush itself, used by the drag mode
+  radius: number;
+  // Push: acceleration at the center of the brush. Drag: rate (per second) at which the
+  // material's velocity approaches the brush's velocity at the center of the brush.
+  strength: number;
+
+  constructor(
+    mode: BrushMode, position: THREE.Vector3, radius: number, strength: number,
+    velocity: THREE.Vector3 = new THREE.Vector3()
+  ) {
+    console.assert(radius > 0, "Radius must be greater than 0");
+    this.mode = mode;
+    this.position = position;
+    this.velocity = velocity;
+    this.radius = radius;
+    this.strength = strength;
+  }
+
+  /**
+   * Applies the brush to the velocity of a grid node over a time step. In 2D the distance to
+   * the brush is measured in the xy-plane.
+   */
+  apply(nodePos: THREE.Vector3, nodeVel: THREE.Vector3, dt: number, is2D: boolean) {
+    _offset.subVectors(nodePos, this.position);
+    if (is2D) {
+      _offset.z = 0;
+    }
+    const distance = _offset.length();
+    if (distance >= this.radius) { return; }
+    const falloff = (1 - distance / this.radius) * (1 - distance / this.radius);
+
+    switch (this.mode) {
+      case BrushMode.Push:
+        if (distance > 0) {
+          nodeVel.addScaledVector(_offset, dt * this.strength * falloff / distance);
+        }
+        break;
+      case BrushMode.Drag: {
+        const blend = Math.min(1, dt * this.strength * falloff);
+        nodeVel.lerp(this.velocity, blend);
+        if (is2D) {
+          nodeVel.z = 0;
+        }
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import * as THREE from 'three';
+
+export enum BoundaryType {
+  Sticky,   // The material takes on the velocity of the collider
+  Slip,     // The normal velocity is removed, the material slides along the collider
+  Separate, // Like slip, but the material is free to move away from the collider
+}
+
+const _localPos = new THREE.Vector3();
+const _invRotation = new THREE.Quaternion();
+const _samplePos = new THREE.Vector3();
+const _normal = new THREE.Vector3();
+const _colliderVel = new THREE.Vector3();
+const _relVel = new THREE.Vector3();
+
+/**
+ * Base class for all colliders. A collider is described by a signed distance function (negative
+ * inside) in its own local frame, which is positioned and oriented in the world by its position
+ * and rotation. Kinematic colliders have a linear and/or angular velocity and are moved by update().
+ */
+export abstract class Collider {
+  position: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  linearVelocity: THREE.Vector3 = new THREE.Vector3();
+  angularVelocity: THREE.Vector3 = new THREE.Vector3(); // Axis * radians per second
+  boundary: BoundaryType;
+  friction: number; // Coulomb friction coefficient, only used for slip and separate boundaries
+
+  constructor(
+    position = new THREE.Vector3(), rotation = new THREE.Quaternion(),
+    boundary = BoundaryType.Sticky, friction = 0.0
+  ) {
+    console.assert(friction >= 0, "Friction must be non-negative");
+    this.position = position;
+    this.rotation = rotation;
+    this.boundary = boundary;
+    this.friction = friction;
+  }
+
+  get isKinematic(): boolean {
+    return this.linearVelocity.lengthSq() > 0 || this.angularVelocity.lengthSq() > 0;
+  }
+
+  /**
+   * @returns The signed distance to the collider surface for a position in the local frame of the collider.
+   */
+  abstract localSignedDistance(localPos: THREE.Vector3): number;
+
+  signedDistance(pos: THREE.Vector3): number {
+    _invRotation.copy(this.rotation).invert();
+    _localPos.copy(pos).sub(this.position).applyQuaternion(_invRotation);
+    return this.localSignedDistance(_localPos);
+  }
+
+  /**
+   * Computes the outward surface normal at the given world position from the gradient
+   * of the signed distance function (central differences).
+   * @returns The given output vector.
+   */
+  normal(pos: THREE.Vector3, out: THREE.Vector3): THREE.Vector3 {
+    const EPSILON = 1e-4;
+    for (let i = 0; i < 3; i++) {
+      _samplePos.copy(pos).setComponent(i, pos.getComponent(i) + EPSILON);
+      const dPlus = this.signedDistance(_samplePos);
+      _samplePos.setComponent(i, pos.getComponent(i) - EPSILON);
+      out.setComponent(i, dPlus - this.signedDistance(_samplePos));
+    }
+    if (out.lengthSq() === 0) { return out.set(0, 1, 0); }
+    return out.normalize();
+  }
+
+  /**
+   * @returns The given output vector set to the velocity of the collider surface at the given world position.
+   */
+  velocityAt(pos: THREE.Vector3, out: THREE.Vector3): THREE.Vector3 {
+    out.copy(pos).sub(this.position);
+    return out.crossVectors(this.angularVelocity, out).add(this.linearVelocity);
+  }
+
+  /**
+   * Applies this collider's boundary condition to a grid node velocity (in place) if the
+   * node at the given position is inside the collider.
+   * See section 8 of "A material point method for snow simulation" (Stomakhin et al. 2013).
+   * @returns true if the velocity was modified.
+   */
+  collide(pos: THREE.Vector3, vel: THREE.Vector3): boolean {
+    if (this.signedDistance(pos) > 0) {
+      return false;
+    }
+
+    this.velocityAt(pos, _colliderVel);
+    if (this.boundary === BoundaryType.Sticky) {
+      vel.copy(_colliderVel);
+      return true;
+    }
+
+    this.normal(pos, _normal);
+    _relVel.copy(vel).sub(_colliderVel);
+    const vn = _relVel.dot(_normal);
+    if (this.boundary === BoundaryType.Separate && vn >= 0) {
+      return false; // Moving away from the collider
+    }
+
+    // Remove the normal component and apply Coulomb friction to the tangential component
+    _relVel.addScaledVector(_normal, -vn);
+    const vtLength = _relVel.length();
+    const frictionLoss = this.friction * Math.abs(vn);
+    if (vtLength <= frictionLoss) {
+      _relVel.setScalar(0);
+    }
+    else {
+      _relVel.multiplyScalar(1 - frictionLoss / vtLength);
+    }
+
+    vel.copy(_relVel).add(_colliderVel);
+    return true;
+  }
+
+  /**
+   * Moves a kinematic collider forward in time by its linear and angular velocities.
+   */
+  update(dt: number) {
+    this.position.addScaledVector(this.linearVelocity, dt);
+    const angle = this.angularVelocity.length() * dt;
+    if (angle > 0) {
+      const axis = this.angularVelocity.clone().normalize();
+      this.rotation.premultiply(new THREE.Quaternion().setFromAxisAngle(axis, angle)).normalize();
+    }
+  }
+}
+
+/**
+ * Half-space collider, everything on the opposite side of the normal is solid.
+ */
+export class PlaneCollider extends Collider {
+  planeNormal: THREE.Vector3; // In the local frame
+
+  constructor(
+    point: THREE.Vector3, normal: THREE.Vector3,
+    boundary = BoundaryType.Sticky, friction = 0.0
+  ) {
+    super(point, new THREE.Quaternion(), boundary, friction);
+    this.planeNormal = normal.clone().normalize();
+  }
+
+  localSignedDistance(localPos: THREE.Vector3): number {
+    return localPos.dot(this.planeNormal);
+  }
+}
+
+export class SphereCollider extends Collider {
+  radius: number;
+
+  constructor(
+    center: THREE.Vector3, radius: number,
+    boundary = BoundaryType.Sticky, friction = 0.0
+  ) {
+    super(center, new THREE.Quaternion(), boundary, friction);
+    console.assert(radius > 0, "Radius must be greater than 0");
+    this.radius = radius;
+  }
+
+  localSignedDistance(localPos: THREE.Vector3): number {
+    return localPos.length() - this.radius;
+  }
+}
+
+const _q = new THREE.Vector3();
+const _zero = new THREE.Vector3();
+
+export class BoxCollider extends Collider {
+  halfExtents: THREE.Vector3;
+
+  constructor(
+    center: THREE.Vector3, halfExtents: THREE.Vector3, rotation = new THREE.Quaternion(),
+    boundary = BoundaryType.Sticky, friction = 0.0
+  ) {
+    super(center, rotation, boundary, friction);
+    console.assert(halfExtents.x > 0 && halfExtents.y > 0 && halfExtents.z > 0, "Invalid box half extents");
+    this.halfExtents = halfExtents;
+  }
+
+  localSignedDistance(localPos: THREE.Vector3): number {
+    _q.set(Math.abs(localPos.x), Math.abs(localPos.y), Math.abs(localPos.z)).sub(this.halfExtents);
+    const inside = Math.min(Math.max(_q.x, _q.y, _q.z), 0);
+    return _q.max(_zero).length() + inside;
+  }
+}
+
+const _ab = new THREE.Vector3();
+const _ap = new THREE.Vector3();
+
+/**
+ * Capsule (a segment from start to end in the local frame, swept by a radius).
+ */
+export class CapsuleCollider extends Collider {
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+  radius: number;
+
+  constructor(
+    start: THREE.Vector3, end: THREE.Vector3, radius: number,
+    boundary = BoundaryType.Sticky, friction = 0.0
+  ) {
+    // The capsule is positioned at its center so that it rotates about it
+    const center = start.clone().add(end).multiplyScalar(0.5);
+    super(center, new THREE.Quaternion(), boundary, friction);
+    console.assert(radius > 0, "Radius must be greater than 0");
+    this.start = start.clone().sub(center);
+    this.end = end.clone().sub(center);
+    this.radius = radius;
+  }
+
+  localSignedDistance(localPos: THREE.Vector3): number {
+    _ab.subVectors(this.end, this.start);
+    _ap.subVectors(localPos, this.start);
+    const abLenSq = _ab.lengthSq();
+    const t = abLenSq > 0 ? THREE.MathUtils.clamp(_ap.dot(_ab) / abLenSq, 0, 1) : 0;
+    return _ap.addScaledVector(_ab, -t).length() - this.radius;
+  }
+}
+
+/**
+ * Simple polygon in the local xy plane, extruded along z by halfDepth (infinitely by default).
+ * The vertices are relative to the collider position and may be given in either winding order.
+ */
+export class PolygonCollider extends Collider {
+  vertices: THREE.Vector2[];
+  halfDepth: number;
+
+  constructor(
+    position: THREE.Vector3, vertices: THREE.Vector2[], halfDepth = Infinity,
+    boundary = BoundaryType.Sticky, friction = 0.0
+  ) {
+    super(position, new THREE.Quaternion(), boundary, friction);
+    console.assert(vertices.length >= 3, "A polygon needs at least 3 vertices");
+    console.assert(halfDepth > 0, "Half depth must be greater than 0");
+    this.vertices = vertices;
+    this.halfDepth = halfDepth;
+  }
+
+  // See https://iquilezles.org/articles/distfunctions2d/
+  localSignedDistance(localPos: THREE.Vector3): number {
+    const v = this.vertices;
+    const px = localPos.x, py = localPos.y;
+    let distSq = Infinity;
+    let sign = 1;
+    for (let i = 0, j = v.length - 1; i < v.length; j = i, i++) {
+      const ex = v[j].x - v[i].x, ey = v[j].y - v[i].y;
+      const wx = px - v[i].x, wy = py - v[i].y;
+      const t = THREE.MathUtils.clamp((wx * ex + wy * ey) / (ex * ex + ey * ey), 0, 1);
+      const bx = wx - ex * t, by = wy - ey * t;
+      distSq = Math.min(distSq, bx * bx + by * by);
+
+      // Winding number test for whether the point is inside
+      const c0 = py >= v[i].y, c1 = py < v[j].y, c2 = ex * wy > ey * wx;
+      if ((c0 && c1 && c2) || (!c0 && !c1 && !c2)) { sign = -sign; }
+    }
+    const d2D = sign * Math.sqrt(distSq);
+    if (!isFinite(this.halfDepth)) {
+      return d2D;
+    }
+
+    const dz = Math.abs(localPos.z) - this.halfDepth;
+    return Math.min(Math.max(d2D, dz), 0) + Math.hypot(Math.max(d2D, 0), Math.max(dz, 0));
+  }
+}
@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import { Grid } from "./Grid";
+import { Particle, ParticleSet } from "./Particles";
+
+/**
+ * Global physical quantities of a simulation, to monitor its conservation properties and stability.
+ * Momenta are about the world origin.
+ */
+export interface Diagnostics {
+  particleCount: number; // Number of active particles, 0 for the grid
+  totalMass: number;
+  linearMomentum: THREE.Vector3;
+  angularMomentum: THREE.Vector3;
+  kineticEnergy: number;
+  elasticEnergy: number; // Potential energy stored in the particles' deformation, 0 for the grid
+  maxVelocity: number;   // Largest speed of a particle (or grid node)
+  thermalEnergy: number; // Heat content, sum of m * c * T
+}
+
+export const createDiagnostics = (): Diagnostics => ({
+  particleCount: 0,
+  totalMass: 0,
+  linearMomentum: new THREE.Vector3(),
+  angularMomentum: new THREE.Vector3(),
+  kineticEnergy: 0,
+  elasticEnergy: 0,
+  maxVelocity: 0,
+  thermalEnergy: 0,
+});
+
+const _particle = new Particle();
+
+/**
+ * Sums the quantities of the active particles. The angular momentum includes the affine (APIC)
+ * part m * epsilon : B^T, which is what makes it match the grid's after the particle-to-grid
+ * transfer (see section 5.3 of the APIC paper, Jiang et al. 2015).
+ * @returns out
+ */
+export const computeParticleDiagnostics = (particles: ParticleSet, out: Diagnostics = createDiagnostics()): Diagnostics => {
+  const { pos, vel, B, mass, heatCapacity, temperature } = particles;
+  let count = 0, totalMass = 0, kinetic = 0, elastic = 0, thermal = 0, maxSpeedSq = 0;
+  let px = 0, py = 0, pz = 0, lx = 0, ly = 0, lz = 0;
+  for (let i = 0; i < particles.count; i++) {
+    if (!particles.active[i]) { continue; }
+    const m = mass[i];
+    const x = pos[3*i], y = pos[3*i + 1], z = pos[3*i + 2];
+    const vx = vel[3*i], vy = vel[3*i + 1], vz = vel[3*i + 2];
+    const speedSq = vx * vx + vy * vy + vz * vz;
+    count++;
+    totalMass += m;
+    px += m * vx; py += m * vy; pz += m * vz;
+    // x * m v + m * (B_zy - B_yz, B_xz - B_zx, B_yx - B_xy), B being column-major
+    const b = 9*i;
+    lx += m * (y * vz - z * vy + B[b + 5] - B[b + 7]);
+    ly += m * (z * vx - x * vz + B[b + 6] - B[b + 2]);
+    lz += m * (x * vy - y * vx + B[b + 1] - B[b + 3]);
+    kinetic += 0.5 * m * speedSq;
+    maxSpeedSq = Math.max(maxSpeedSq, speedSq);
+    thermal += m * heatCapacity[i] * temperature[i];
+
+    const p = particles.getMaterialState(i, _particle);
+    elastic += p.volume0 * p.material.strainEnergyDensity(p);
+  }
+  out.particleCount = count;
+  out.totalMass = totalMass;
+  out.linearMomentum.set(px, py, pz);
+  out.angularMomentum.set(lx, ly, lz);
+  out.kineticEnergy = kinetic;
+  out.elasticEnergy = elastic;
+  out.maxVelocity = Math.sqrt(maxSpeedSq);
+  out.thermalEnergy = thermal;
+  return out;
+};
+
+/**
+ * Sums the quantities of the grid nodes, from the mass, momentum and heat transferred from the
+ * particles (Grid.mass, Grid.mv and Grid.temperature, and the second field of the nodes along
+ * cracks in Grid.mass2 and Grid.mv2), i.e. as they are right after the particle-to-grid transfer.
+ * @returns out
+ */
+export const computeGridDiagnostics = (grid: Grid, out: Diagnostics = createDiagnostics()): Diagnostics => {
+  const { temperature } = grid;
+  const fields = [[grid.mass, grid.mv], [grid.mass2, grid.mv2]];
+  const h = grid.cellSize;
+  const origin = grid.leftBottomBackPos;
+  const cell = new THREE.Vector3();
+  let totalMass = 0, kinetic = 0, thermal = 0, maxSpeedSq = 0;
+  let px = 0, py = 0, pz = 0, lx = 0, ly = 0, lz = 0;
+  for (let n = 0; n < grid.numCells; n++) {
+    if (grid.mass[n] <= 0 && grid.mass2[n] <= 0) { continue; }
+    grid.cellIndexOf(n, cell);
+    const x = origin.x + (cell.x + 0.5) * h;
+    const y = origin.y + (cell.y + 0.5) * h;
+    // NOTE: In 2D the nodes are at the grid's z, like the particles
+    const z = grid.is2D ? origin.z : origin.z + (cell.z + 0.5) * h;
+    for (const [mass, mv] of fields) {
+      const m = mass[n];
+      if (m <= 0) { continue; }
+      const mvx = mv[3*n], mvy = mv[3*n + 1], mvz = mv[3*n + 2];
+      const momentumSq = mvx * mvx + mvy * mvy + mvz * mvz;
+      totalMass += m;
+      px += mvx; py += mvy; pz += mvz;
+      lx += y * mvz - z * mvy;
+      ly += z * mvx - x * mvz;
+      lz += x * mvy - y * mvx;
+      kinetic += 0.5 * momentumSq / m;
+      maxSpeedSq = Math.max(maxSpeedSq, momentumSq / (m * m));
+    }
+    // Still the heat content m * c * T before the grid update divides it by the heat capacity
+    thermal += temperature[n];
+  }
+  out.particleCount = 0;
+  out.totalMass = totalMass;
+  out.linearMomentum.set(px, py, pz);
+  out.angularMomentum.set(lx, ly, lz);
+  out.kineticEnergy = kinetic;
+  out.elasticEnergy = 0;
+  out.maxVelocity = Math.sqrt(maxSpeedSq);
+  out.thermalEnergy = thermal;
+  return out;
+};
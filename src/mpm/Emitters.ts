@@ -0,0 +1,158 @@
+import * as THREE from 'three';
+import { createRandom } from '../MathUtils';
+import { Material } from "./Materials";
+import { ParticleSet, ThermalProperties, DEFAULT_MATERIAL, DEFAULT_THERMAL_PROPERTIES } from "./Particles";
+import { Shape } from "./Shapes";
+import { ParticleSpacingOptions, particleSpacing, validateParticleSpacing } from "./Sampling";
+
+// Number of random points tried for the position of each emitted particle before giving up on it
+const MAX_EMIT_ATTEMPTS = 32;
+
+const _pos = new THREE.Vector3();
+const _vel = new THREE.Vector3();
+const _region = new THREE.Box3();
+
+// The spacing or number of particles per cell sets the volume of each particle
+export interface EmitterOptions extends ParticleSpacingOptions {
+  rate: number;     // Volume (area in 2D) of material emitted per second
+  density: number;  // Mass per unit volume of the emitted material
+  material?: Material;
+  velocity?: THREE.Vector3;
+  seed?: number;
+  // Thermal state of the emitted particles, see DEFAULT_THERMAL_PROPERTIES for the defaults
+  temperature?: number;
+  heatCapacity?: number;
+  conductivity?: number;
+}
+
+/**
+ * Continuous source of material, e.g. a faucet: particles appear at random positions within the
+ * shape at a constant rate, with the emitter's velocity.
+ */
+export class ParticleEmitter {
+  shape: Shape;
+  rate: number;
+  density: number;
+  material: Material;
+  velocity: THREE.Vector3;
+  thermal: ThermalProperties;
+  readonly spacing?: number;
+  readonly particlesPerCell?: number;
+  seed: number;
+  enabled: boolean = true;
+
+  // The positions of the n-th particle are drawn from a generator seeded with seed and n, so the
+  // emitter's state is fully captured by these two numbers (see Snapshot.ts)
+  emitted: number = 0;      // Number of particles emitted so far
+  pendingVolume: number = 0; // Volume due but not emitted yet, less than the volume of a particle
+
+  constructor(shape: Shape, options: EmitterOptions) {
+    console.assert(options.rate >= 0, "Rate must not be negative");
+    console.assert(options.density > 0, "Density must be greater than 0");
+    this.shape = shape;
+    this.rate = options.rate;
+    this.density = options.density;
+    this.material = options.material ?? DEFAULT_MATERIAL;
+    this.velocity = options.velocity?.clone() ?? new THREE.Vector3();
+    this.thermal = {
+      temperature: options.temperature ?? DEFAULT_THERMAL_PROPERTIES.temperature,
+      heatCapacity: options.heatCapacity ?? DEFAULT_THERMAL_PROPERTIES.heatCapacity,
+      conductivity: options.conductivity ?? DEFAULT_THERMAL_PROPERTIES.conductivity,
+    };
+    validateParticleSpacing(options);
+    this.spacing = options.spacing;
+    this.particlesPerCell = options.particlesPerCell;
+    this.seed = options.seed ?? 1;
+  }
+
+  /**
+   * @returns The volume of each emitted particle, for the given grid cell size.
+   */
+  particleVolume(cellSize: number, is2D: boolean): number {
+    const spacing = particleSpacing(this, cellSize, is2D);
+    return is2D ? spacing * spacing : spacing * spacing * spacing;
+  }
+
+  /**
+   * Emits the particles due over a time step, within the region (the simulation domain).
+   * In 2D the particles are emitted in the plane that slices the shape (see Shape.sliceZ).
+   * @returns The number of particles emitted.
+   */
+  emit(particles: ParticleSet, dt: number, cellSize: number, is2D: boolean, region: THREE.Box3): number {
+    if (!this.enabled || this.rate <= 0) { return 0; }
+    const volume = this.particleVolume(cellSize, is2D);
+    this.pendingVolume += this.rate * dt;
+    const count = Math.floor(this.pendingVolume / volume);
+    if (count === 0) { return 0; }
+    this.pendingVolume -= count * volume;
+
+    const sliceZ = this.shape.sliceZ(region.min.z);
+    const bounds = _region.copy(region);
+    if (is2D) {
+      bounds.min.z = bounds.max.z = sliceZ;
+    }
+    bounds.intersect(this.shape.bounds);
+    _vel.copy(this.velocity);
+    if (is2D) {
+      _vel.z = 0;
+    }
+
+    let added = 0;
+    for (let n = 0; n < count; n++) {
+      // Each particle has a generator of its own, see emitted
+      const random = createRandom((this.seed + Math.imul(this.emitted++, 0x9e3779b9)) >>> 0);
+      if (bounds.isEmpty()) { continue; }
+      for (let attempt = 0; attempt < MAX_EMIT_ATTEMPTS; attempt++) {
+        _pos.set(
+          bounds.min.x + random() * (bounds.max.x - bounds.min.x),
+          bounds.min.y + random() * (bounds.max.y - bounds.min.y),
+          is2D ? sliceZ : bounds.min.z + random() * (bounds.max.z - bounds.min.z)
+        );
+        if (this.shape.contains(_pos)) {
+          particles.add(this.density * volume, volume, _pos, _vel, this.material, this.thermal);
+          added++;
+          break;
+        }
+      }
+    }
+    return added;
+  }
+}
+
+/**
+ * Drain: the particles that enter the shape are removed from the simulation.
+ */
+export class ParticleSink {
+  shape: Shape;
+  enabled: boolean = true;
+  removed: number = 0; // Number of particles removed so far
+
+  constructor(shape: Shape) {
+    this.shape = shape;
+  }
+
+  /**
+   * Deactivates the active particles within the shape. In 2D the particles are tested in the
+   * plane that slices the shape (see Shape.sliceZ).
+   * @returns The number of particles removed.
+   */
+  drain(particles: ParticleSet, is2D: boolean): number {
+    if (!this.enabled) { return 0; }
+    const bounds = this.shape.bounds;
+    const sliceZ = this.shape.sliceZ(0);
+    let removed = 0;
+    for (let i = 0; i < particles.count; i++) {
+      if (!particles.active[i]) { continue; }
+      particles.getPosition(i, _pos);
+      if (is2D) {
+        _pos.z = sliceZ;
+      }
+      if (bounds.containsPoint(_pos) && this.shape.contains(_pos)) {
+        particles.deactivate(i);
+        removed++;
+      }
+    }
+    this.removed += removed;
+    return removed;
+  }
+}
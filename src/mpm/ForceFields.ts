@@ -0,0 +1,201 @@
+import * as THREE from 'three';
+import { createNoise3 } from '../MathUtils';
+import { Shape } from "./Shapes";
+
+export enum Falloff {
+  None,          // Full strength everywhere
+  Linear,        // From full strength at the field's position down to 0 at its radius
+  Smooth,        // Like linear, but easing in and out, (1 - (d / radius)^2)^2
+  InverseSquare, // Full strength within the radius and (radius / d)^2 beyond, like gravity
+}
+
+const _regionPos = new THREE.Vector3();
+const _offset = new THREE.Vector3();
+const _radial = new THREE.Vector3();
+const _tangent = new THREE.Vector3();
+const _air = new THREE.Vector3();
+
+/**
+ * @returns The fraction of the field's strength at a distance from its position, in units of its radius.
+ */
+const falloffScale = (falloff: Falloff, d: number): number => {
+  switch (falloff) {
+    case Falloff.None:
+      return 1;
+    case Falloff.Linear:
+      return Math.max(0, 1 - d);
+    case Falloff.Smooth:
+      return d < 1 ? (1 - d * d) * (1 - d * d) : 0;
+    case Falloff.InverseSquare:
+      return d > 1 ? 1 / (d * d) : 1;
+  }
+};
+
+/**
+ * Base class for the external forces on the material (and the rigid bodies), as accelerations of
+ * the grid nodes. A field acts within its region if it has one, and its strength falls off with
+ * the distance from its position, which is also the center of the point-like fields. In 2D the
+ * distances are measured in the xy-plane and the fields don't accelerate anything along z.
+ */
+export abstract class ForceField {
+  position: THREE.Vector3;
+  region: Shape | null = null; // Everywhere if null
+  falloff: Falloff = Falloff.None;
+  radius: number = 1; // Length scale of the falloff
+  enabled: boolean = true;
+
+  constructor(position = new THREE.Vector3()) {
+    this.position = position;
+  }
+
+  /**
+   * Applies the field to a velocity (e.g. of a grid node) over a time step at the given time.
+   * In 2D the position is tested against the region in the plane that slices it (see Shape.sliceZ).
+   */
+  apply(pos: THREE.Vector3, vel: THREE.Vector3, dt: number, time: number, is2D: boolean) {
+    if (!this.enabled) { return; }
+    if (this.region) {
+      _regionPos.copy(pos);
+      if (is2D) {
+        _regionPos.z = this.region.sliceZ(pos.z);
+      }
+      if (!this.region.bounds.containsPoint(_regionPos) || !this.region.contains(_regionPos)) { return; }
+    }
+    _offset.subVectors(pos, this.position);
+    if (is2D) {
+      _offset.z = 0;
+    }
+    const scale = falloffScale(this.falloff, _offset.length() / this.radius);
+    if (scale <= 0) { return; }
+    this.applyField(pos, _offset, vel, dt * scale, time);
+    if (is2D) {
+      vel.z = 0;
+    }
+  }
+
+  /**
+   * Applies the field at full strength over a time step, scaled down by the falloff.
+   * @param offset From the field's position to pos, in the xy-plane in 2D.
+   */
+  abstract applyField(pos: THREE.Vector3, offset: THREE.Vector3, vel: THREE.Vector3, dt: number, time: number): void;
+}
+
+/**
+ * Uniform acceleration in any direction, e.g. a zone of reversed gravity (on top of MPMSystem.gravity).
+ */
+export class GravityField extends ForceField {
+  acceleration: THREE.Vector3;
+
+  constructor(acceleration: THREE.Vector3) {
+    super();
+    this.acceleration = acceleration;
+  }
+
+  applyField(_pos: THREE.Vector3, _offset: THREE.Vector3, vel: THREE.Vector3, dt: number) {
+    vel.addScaledVector(this.acceleration, dt);
+  }
+}
+
+/**
+ * Accelerates the material towards its position, or away from it (a repeller) with a negative strength.
+ */
+export class AttractorField extends ForceField {
+  strength: number; // Acceleration at full strength
+
+  constructor(position: THREE.Vector3, strength: number) {
+    super(position);
+    this.strength = strength;
+  }
+
+  applyField(_pos: THREE.Vector3, offset: THREE.Vector3, vel: THREE.Vector3, dt: number) {
+    const distance = offset.length();
+    if (distance > 0) {
+      vel.addScaledVector(offset, -dt * this.strength / distance);
+    }
+  }
+}
+
+/**
+ * Swirls the material around the axis through its position, counterclockwise about the axis for
+ * a positive strength, and optionally pulls it in towards the axis.
+ */
+export class VortexField extends ForceField {
+  axis: THREE.Vector3; // Unit vector, z in 2D
+  strength: number;    // Tangential acceleration at full strength
+  pull: number;        // Acceleration towards the axis at full strength, away from it if negative
+
+  constructor(position: THREE.Vector3, axis: THREE.Vector3, strength: number, pull = 0) {
+    super(position);
+    console.assert(Math.abs(axis.length() - 1) < 1e-6, "Axis must be a unit vector");
+    this.axis = axis;
+    this.strength = strength;
+    this.pull = pull;
+  }
+
+  applyField(_pos: THREE.Vector3, offset: THREE.Vector3, vel: THREE.Vector3, dt: number) {
+    // Offset from the axis
+    _radial.copy(offset).addScaledVector(this.axis, -offset.dot(this.axis));
+    const distance = _radial.length();
+    if (distance === 0) { return; }
+    _tangent.crossVectors(this.axis, _radial);
+    vel.addScaledVector(_tangent, dt * this.strength / distance);
+    vel.addScaledVector(_radial, -dt * this.pull / distance);
+  }
+}
+
+export interface WindOptions {
+  drag?: number;            // Rate (per second) at which the material takes on the air's velocity
+  turbulence?: number;      // Amplitude of the air's velocity fluctuations
+  turbulenceScale?: number; // Size of the gusts and eddies
+  seed?: number;
+}
+
+/**
+ * Moving air that drags the material along: the velocity of the material relaxes exponentially
+ * towards the air's (so it's stable at any drag), which is the wind's mean velocity plus a
+ * turbulent fluctuation from smooth noise. The gusts are carried along by the wind and evolve
+ * over the time it takes the fluctuations to cross one of them.
+ */
+export class WindField extends ForceField {
+  velocity: THREE.Vector3;
+  drag: number;
+  turbulence: number;
+  turbulenceScale: number;
+  readonly seed: number;
+  _noise: (x: number, y: number, z: number) => number;
+
+  constructor(velocity: THREE.Vector3, options: WindOptions = {}) {
+    super();
+    this.velocity = velocity;
+    this.drag = options.drag ?? 1;
+    this.turbulence = options.turbulence ?? 0;
+    this.turbulenceScale = options.turbulenceScale ?? 1;
+    this.seed = options.seed ?? 1;
+    console.assert(this.drag >= 0, "Drag must not be negative");
+    console.assert(this.turbulenceScale > 0, "Turbulence scale must be greater than 0");
+    this._noise = createNoise3(this.seed);
+  }
+
+  /**
+   * @returns The velocity of the air at a position and time in the given vector.
+   */
+  airVelocity(pos: THREE.Vector3, time: number, out: THREE.Vector3): THREE.Vector3 {
+    out.copy(this.velocity);
+    if (this.turbulence > 0) {
+      const scale = this.turbulenceScale;
+      const x = (pos.x - this.velocity.x * time) / scale;
+      const y = (pos.y - this.velocity.y * time) / scale;
+      const z = (pos.z - this.velocity.z * time) / scale + time * this.turbulence / scale;
+      // Uncorrelated components from far apart regions of the noise
+      out.x += this.turbulence * this._noise(x, y, z);
+      out.y += this.turbulence * this._noise(x + 31.7, y - 47.3, z + 11.9);
+      out.z += this.turbulence * this._noise(x - 23.1, y + 17.5, z - 39.3);
+    }
+    return out;
+  }
+
+  applyField(pos: THREE.Vector3, _offset: THREE.Vector3, vel: THREE.Vector3, dt: number, time: number) {
+    this.airVelocity(pos, time, _air);
+    vel.lerp(_air, 1 - Math.exp(-this.drag * dt));
+  }
+}
@@ -0,0 +1,154 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { createRandom } from '../MathUtils';
+import { Grid } from "./Grid";
+import { KernelType, createKernel } from "./Kernels";
+
+const KERNELS: KernelType[] = ["linear", "quadratic", "cubic"];
+
+const createGrid = (kernel: KernelType, is2D: boolean): Grid =>
+  new Grid(0.1, new THREE.Vector3(-0.8, -0.8, is2D ? 0 : -0.8), is2D, createKernel(kernel));
+
+// Random positions in the first 16 cells of the grid along each axis (some of them at negative
+// cell indices), plus positions on the nodes and cell boundaries
+const samplePositions = (grid: Grid): THREE.Vector3[] => {
+  const random = createRandom(42);
+  const origin = grid.leftBottomBackPos;
+  const h = grid.cellSize;
+  const z = (t: number) => grid.is2D ? origin.z : origin.z + t;
+  const positions = [
+    new THREE.Vector3(origin.x + 8 * h, origin.y + 8 * h, z(8 * h)),
+    new THREE.Vector3(origin.x + 7.5 * h, origin.y + 6.5 * h, z(5.5 * h)),
+  ];
+  for (let i = 0; i < 50; i++) {
+    positions.push(new THREE.Vector3(
+      origin.x + (16 * random() - 2) * h, origin.y + (16 * random() - 2) * h, z((16 * random() - 2) * h)
+    ));
+  }
+  return positions;
+};
+
+describe("Grid", () => {
+  for (const kernel of KERNELS) {
+    for (const is2D of [true, false]) {
+      const label = `${kernel} kernel, ${is2D ? "2D" : "3D"}`;
+
+      test(`getWeight sums to one over the stencil (${label})`, () => {
+        const grid = createGrid(kernel, is2D);
+        const delta = new THREE.Vector3();
+        for (const pos of samplePositions(grid)) {
+          let sum = 0;
+          // One node more than the stencil reaches on each side
+          for (let dz = is2D ? 0 : -2; dz <= (is2D ? 0 : 2); dz++) {
+            for (let dy = -2; dy <= 2; dy++) {
+              for (let dx = -2; dx <= 2; dx++) {
+                sum += grid.getWeight(pos, delta.set(dx, dy, dz));
+              }
+            }
+          }
+          assert.ok(Math.abs(sum - 1) < 1e-12, `Weights at ${pos.toArray()} sum to ${sum}`);
+        }
+      });
+
+      test(`computeStencilWeights matches getWeight and its gradients sum to zero (${label})`, () => {
+        const grid = createGrid(kernel, is2D);
+        const S = grid.stencilSize;
+        const base = new Int32Array(3);
+        const w = new Float64Array(3 * S);
+        const dw = new Float64Array(3 * S);
+        const node = new THREE.Vector3();
+        const delta = new THREE.Vector3();
+        for (const pos of samplePositions(grid)) {
+          grid.computeStencilWeights(pos.x, pos.y, pos.z, base, 0, w, dw, 0);
+          const cell = grid.cellPositionToIndex(pos);
+          let sum = 0;
+          const gradSum = new THREE.Vector3();
+          for (let k = 0; k < (is2D ? 1 : S); k++) {
+            for (let j = 0; j < S; j++) {
+              for (let i = 0; i < S; i++) {
+                const weight = w[i] * w[S + j] * w[2*S + k];
+                sum += weight;
+                gradSum.x += dw[i] * w[S + j] * w[2*S + k];
+                gradSum.y += w[i] * dw[S + j] * w[2*S + k];
+                gradSum.z += w[i] * w[S + j] * dw[2*S + k];
+                node.set(base[0] + i, base[1] + j, base[2] + k);
+                const expected = grid.getWeight(pos, delta.subVectors(node, cell));
+                assert.ok(Math.abs(weight - expected) < 1e-12, `Weight of node ${node.toArray()} is ${weight}, expected ${expected}`);
+              }
+            }
+          }
+          assert.ok(Math.abs(sum - 1) < 1e-12, `Weights at ${pos.toArray()} sum to ${sum}`);
+          assert.ok(gradSum.length() < 1e-9, `Weight gradients at ${pos.toArray()} sum to ${gradSum.toArray()}`);
+        }
+      });
+    }
+  }
+
+  test("activated blocks keep their data as the grid grows and are found by cell index", () => {
+    const grid = createGrid("quadratic", false);
+    const S = grid.stencilSize;
+    const random = createRandom(5);
+    const base = new Int32Array(3);
+    const cells = new Int32Array(S * S * S);
+    const expected = new Map<string, number>();
+    // Far more blocks than the initial capacity, at positive and negative cell indices
+    for (let n = 0; n < 500; n++) {
+      for (let a = 0; a < 3; a++) {
+        base[a] = Math.floor(200 * random()) - 100;
+      }
+      grid.activateStencil(base, 0, cells, 0);
+      for (let i = 0; i < S; i++) {
+        for (let j = 0; j < S; j++) {
+          for (let k = 0; k < S; k++) {
+            const c = cells[(i * S + j) * S + k];
+            grid.mass[c] += 1;
+            const key = [base[0] + i, base[1] + j, base[2] + k].join();
+            expected.set(key, (expected.get(key) ?? 0) + 1);
+          }
+        }
+      }
+    }
+    assert.ok(grid.numBlocks > 64, `Only ${grid.numBlocks} blocks`);
+
+    const cell = new THREE.Vector3();
+    let total = 0;
+    for (let n = 0; n < grid.numCells; n++) {
+      grid.cellIndexOf(n, cell);
+      assert.equal(grid.findCell(cell.x, cell.y, cell.z), n);
+      assert.equal(grid.mass[n], expected.get(cell.toArray().join()) ?? 0, `Mass of cell ${cell.toArray()}`);
+      total += grid.mass[n];
+    }
+    assert.equal(total, 500 * S * S * S);
+    assert.equal(grid.findCell(1000, 0, 0), -1);
+
+    grid.resetCells();
+    assert.equal(grid.numCells, 0);
+    assert.equal(grid.getCellMass(new THREE.Vector3(0, 0, 0)), 0);
+  });
+
+  test("the stencil's second moment is the APIC D matrix (quadratic and cubic kernels)", () => {
+    for (const kernel of ["quadratic", "cubic"] as KernelType[]) {
+      const grid = createGrid(kernel, false);
+      const S = grid.stencilSize;
+      const base = new Int32Array(3);
+      const w = new Float64Array(3 * S);
+      const dw = new Float64Array(3 * S);
+      const D = grid.getD().elements;
+      for (const pos of samplePositions(grid)) {
+        grid.computeStencilWeights(pos.x, pos.y, pos.z, base, 0, w, dw, 0);
+        // Per axis: sum of w * d^2 = D_aa, and the sum of w * d vanishes
+        for (let a = 0; a < 3; a++) {
+          let first = 0, second = 0;
+          for (let k = 0; k < S; k++) {
+            const d = grid.leftBottomBackPos.getComponent(a) + (base[a] + k + 0.5) * grid.cellSize - pos.getComponent(a);
+            first += w[a*S + k] * d;
+            second += w[a*S + k] * d * d;
+          }
+          assert.ok(Math.abs(first) < 1e-12, `First moment along axis ${a} is ${first}`);
+          assert.ok(Math.abs(second - D[4*a]) < 1e-12, `Second moment along axis ${a} is ${second}, expected ${D[4*a]}`);
+        }
+      }
+    }
+  });
+});
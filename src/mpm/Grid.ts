@@ -1,51 +1,87 @@
-
 import * as THREE from 'three';
 import { ZeroVector3 } from '../MathUtils';
+import { Kernel, QuadraticKernel } from "./Kernels";
 
-export class Cell {
-  mass: number = 0;
-  mv: THREE.Vector3 = ZeroVector3();
-  vel: THREE.Vector3 = ZeroVector3();
-  force: THREE.Vector3 = ZeroVector3();
+// Cells are allocated in blocks of BLOCK_SIZE^3 cells (BLOCK_SIZE^2 in 2D). A block must be at
+// least as large as the kernel stencils, so that a stencil overlaps at most 2 blocks per axis.
+export const BLOCK_SHIFT = 2;
+export const BLOCK_SIZE = 1 << BLOCK_SHIFT;
+export const BLOCK_MASK = BLOCK_SIZE - 1;
+const INITIAL_BLOCK_CAPACITY = 64;
 
-  constructor() {
-  }
+// Cell indices are stored as 32-bit integers, this keeps them (and their stencils) from overflowing
+export const MAX_CELL_INDEX = 1 << 30;
 
-  clear() {
-    this.mass = 0;
-    this.mv = ZeroVector3();
-    this.vel = ZeroVector3();
-    this.force = ZeroVector3();
-  }
-  reset() {
-    this.mass = 0;
-    this.mv.setScalar(0.0);
-    this.vel.setScalar(0.0);
-    this.force.setScalar(0.0);
-  }
-}
+const _stencilBlocks = new Int32Array(8);
 
+/**
+ * Sparse block grid: the nodes (at the cell centers) are only stored where material is. The grid is
+ * unbounded, cell (i, j, k) is at leftBottomBackPos + (i, j, k) * cellSize for any (possibly
+ * negative) indices within +-MAX_CELL_INDEX. Blocks are activated during the particle to grid
+ * transfer of each step (see activateBlock) and all of them are released by resetCells.
+ * The per-cell data of block b is stored contiguously from index b * cellsPerBlock, the cell at
+ * local coordinates (x, y, z) within the block being at x + y * BLOCK_SIZE + z * BLOCK_SIZE^2.
+ */
 export class Grid {
-  size: THREE.Vector3; // Number of cells per side of the grid
   cellSize: number; // Size of each cell
-  leftBottomBackPos: THREE.Vector3; // Left-bottom-back position of the grid
-  data: Array<Cell> = [];
+  leftBottomBackPos: THREE.Vector3; // Left-bottom-back corner of cell (0, 0, 0), the z of the nodes in 2D
+  kernel: Kernel; // Interpolation kernel between particles and grid nodes
+  is2D: boolean;
+  numBlocks: number = 0; // Number of active blocks
+  blockCapacity: number = 0;
 
-  constructor(size: THREE.Vector3, cellSize: number, leftBottomBackPos: THREE.Vector3) {
+  // Coordinates (cell index / BLOCK_SIZE) of each active block, 3 per block
+  blockCoords: Int32Array = new Int32Array(0);
+  // Per-cell physics quantities, vectors are stored as 3 consecutive values
+  mass: Float64Array = new Float64Array(0);
+  mv: Float64Array = new Float64Array(0);    // Momentum
+  vel: Float64Array = new Float64Array(0);
+  force: Float64Array = new Float64Array(0);
+  // Heat transfer: the particles add up their heat capacity (mass * specific heat), their thermal
+  // energy (in temperature), their conductivity times volume and the heat they conduct into each
+  // cell (in heatFlow). The grid update then turns these into the temperature at the start of the
+  // step and its change over the step.
+  heatCapacity: Float64Array = new Float64Array(0);
+  temperature: Float64Array = new Float64Array(0);
+  conductance: Float64Array = new Float64Array(0);
+  heatFlow: Float64Array = new Float64Array(0);
+  // Fracture: damage is the mass-weighted mean damage of the particles around each node, damageGrad
+  // the damage gradient of largest norm among them and separable whether a crack runs by the node.
+  // The particles at a separable node on the far side of the crack from that gradient transfer to
+  // a second velocity field (mass2, mv2, vel2 and force2) instead, see MPMSystem._partitionFields.
+  damage: Float64Array = new Float64Array(0);
+  damageGrad: Float64Array = new Float64Array(0);
+  separable: Uint8Array = new Uint8Array(0);
+  mass2: Float64Array = new Float64Array(0);
+  mv2: Float64Array = new Float64Array(0);
+  vel2: Float64Array = new Float64Array(0);
+  force2: Float64Array = new Float64Array(0);
+
+  // Open addressing hash table from block coordinates to the index of the block, -1 in empty slots.
+  // It has at least twice as many slots as the block capacity, a power of 2.
+  _table: Int32Array = new Int32Array(0);
+
+  constructor(
+    cellSize: number, leftBottomBackPos: THREE.Vector3, is2D: boolean,
+    kernel: Kernel = new QuadraticKernel()
+  ) {
     console.assert(cellSize > 0, "Cell size must be greater than 0");
-    this.size = size;
+    console.assert(kernel.stencilSize <= BLOCK_SIZE, "Kernel stencil is larger than a block");
     this.cellSize = cellSize;
     this.leftBottomBackPos = leftBottomBackPos;
-    this._initData();
+    this.kernel = kernel;
+    this.is2D = is2D;
+    this._reserveBlocks(INITIAL_BLOCK_CAPACITY);
   }
 
-  get is2D() : boolean {
-    return this.size.z === 1;
+  get cellsPerBlock(): number {
+    return this.is2D ? BLOCK_SIZE * BLOCK_SIZE : BLOCK_SIZE * BLOCK_SIZE * BLOCK_SIZE;
   }
-
-  gridDimensions(): THREE.Vector3 {
-    return this.cellDimensions().multiply(this.size);
+  // Number of cells in the active blocks
+  get numCells(): number {
+    return this.numBlocks * this.cellsPerBlock;
   }
+
   cellDimensions() : THREE.Vector3 { // H
     return new THREE.Vector3(this.cellSize, this.cellSize, this.is2D ? 1.0 : this.cellSize);
   }
@@ -59,131 +95,311 @@ export class Grid {
     const cellDims = this.cellDimensions();
     return cellDims.x * cellDims.y * cellDims.z;
   }
-  getBounds() {
-    return new THREE.Box3(this.leftBottomBackPos.clone(), this.gridDimensions().add(this.leftBottomBackPos));
+
+  /**
+   * @returns A new Box3 around the active blocks, empty if there are none.
+   */
+  getBounds(): THREE.Box3 {
+    const bounds = new THREE.Box3();
+    const corner = new THREE.Vector3();
+    const blockSize = BLOCK_SIZE * this.cellSize;
+    for (let b = 0; b < this.numBlocks; b++) {
+      corner.fromArray(this.blockCoords, 3*b).multiplyScalar(blockSize).add(this.leftBottomBackPos);
+      bounds.expandByPoint(corner);
+      bounds.expandByPoint(corner.addScalar(blockSize));
+    }
+    if (this.is2D && !bounds.isEmpty()) {
+      bounds.min.z = bounds.max.z = this.leftBottomBackPos.z;
+    }
+    return bounds;
   }
 
-  _initData() {
-    const dataLength = this.size.x * this.size.y * this.size.z;
-    console.assert(dataLength > 0, "Grid size must be greater than 0");
-    this.data = new Array(dataLength);
-    for (let i = 0; i < dataLength; i++) {
-      this.data[i] = new Cell();
+  _reserveBlocks(capacity: number) {
+    if (capacity <= this.blockCapacity) { return; }
+    const cells = capacity * this.cellsPerBlock;
+    const grow = <T extends Uint8Array | Float64Array>(ctor: new (n: number) => T, buffer: T, stride: number): T => {
+      const newBuffer = new ctor(stride * cells);
+      newBuffer.set(buffer.subarray(0, stride * this.numCells));
+      return newBuffer;
+    };
+    this.mass = grow(Float64Array, this.mass, 1);
+    this.mv = grow(Float64Array, this.mv, 3);
+    this.vel = grow(Float64Array, this.vel, 3);
+    this.force = grow(Float64Array, this.force, 3);
+    this.heatCapacity = grow(Float64Array, this.heatCapacity, 1);
+    this.temperature = grow(Float64Array, this.temperature, 1);
+    this.conductance = grow(Float64Array, this.conductance, 1);
+    this.heatFlow = grow(Float64Array, this.heatFlow, 1);
+    this.damage = grow(Float64Array, this.damage, 1);
+    this.damageGrad = grow(Float64Array, this.damageGrad, 3);
+    this.separable = grow(Uint8Array, this.separable, 1);
+    this.mass2 = grow(Float64Array, this.mass2, 1);
+    this.mv2 = grow(Float64Array, this.mv2, 3);
+    this.vel2 = grow(Float64Array, this.vel2, 3);
+    this.force2 = grow(Float64Array, this.force2, 3);
+    const blockCoords = new Int32Array(3 * capacity);
+    blockCoords.set(this.blockCoords.subarray(0, 3 * this.numBlocks));
+    this.blockCoords = blockCoords;
+    this.blockCapacity = capacity;
+
+    let tableSize = 1;
+    while (tableSize < 2 * capacity) {
+      tableSize *= 2;
+    }
+    this._table = new Int32Array(tableSize).fill(-1);
+    for (let b = 0; b < this.numBlocks; b++) {
+      this._table[this._findSlot(blockCoords[3*b], blockCoords[3*b + 1], blockCoords[3*b + 2])] = b;
     }
   }
-  _toFlatIndex(xIdx: number, yIdx: number, zIdx: number): number { // ToIndex
-    return xIdx + yIdx * this.size.x + zIdx * this.size.x * this.size.y;
+
+  /**
+   * @returns The slot of the hash table that holds the block at the given block coordinates, or
+   * the empty slot where it would be inserted.
+   */
+  _findSlot(bx: number, by: number, bz: number): number {
+    const table = this._table;
+    const coords = this.blockCoords;
+    const mask = table.length - 1;
+    let slot = (Math.imul(bx, 73856093) ^ Math.imul(by, 19349663) ^ Math.imul(bz, 83492791)) & mask;
+    for (;;) {
+      const b = table[slot];
+      if (b < 0 || (coords[3*b] === bx && coords[3*b + 1] === by && coords[3*b + 2] === bz)) {
+        return slot;
+      }
+      slot = (slot + 1) & mask;
+    }
   }
 
+  /**
+   * Releases all the blocks, the next step activates those it needs again.
+   */
   resetCells() {
-    for (let i = 0; i < this.data.length; i++) {
-      this.data[i].reset();
+    this.numBlocks = 0;
+    this._table.fill(-1);
+  }
+
+  /**
+   * Activates the block at the given block coordinates (cell index >> BLOCK_SHIFT) with all of
+   * its quantities zeroed, if it isn't active already.
+   * NOTE: The cell arrays are reallocated when the capacity grows, don't hold on to them across calls.
+   * @returns The index of the first cell of the block.
+   */
+  activateBlock(bx: number, by: number, bz: number): number {
+    let slot = this._findSlot(bx, by, bz);
+    let b = this._table[slot];
+    if (b < 0) {
+      if (this.numBlocks === this.blockCapacity) {
+        this._reserveBlocks(2 * this.blockCapacity);
+        slot = this._findSlot(bx, by, bz);
+      }
+      b = this.numBlocks++;
+      this._table[slot] = b;
+      this.blockCoords[3*b] = bx;
+      this.blockCoords[3*b + 1] = by;
+      this.blockCoords[3*b + 2] = bz;
+      const n = this.cellsPerBlock;
+      this.mass.fill(0, b * n, (b + 1) * n);
+      this.mv.fill(0, 3 * b * n, 3 * (b + 1) * n);
+      this.vel.fill(0, 3 * b * n, 3 * (b + 1) * n);
+      this.force.fill(0, 3 * b * n, 3 * (b + 1) * n);
+      this.heatCapacity.fill(0, b * n, (b + 1) * n);
+      this.temperature.fill(0, b * n, (b + 1) * n);
+      this.conductance.fill(0, b * n, (b + 1) * n);
+      this.heatFlow.fill(0, b * n, (b + 1) * n);
+      this.damage.fill(0, b * n, (b + 1) * n);
+      this.damageGrad.fill(0, 3 * b * n, 3 * (b + 1) * n);
+      this.separable.fill(0, b * n, (b + 1) * n);
+      this.mass2.fill(0, b * n, (b + 1) * n);
+      this.mv2.fill(0, 3 * b * n, 3 * (b + 1) * n);
+      this.vel2.fill(0, 3 * b * n, 3 * (b + 1) * n);
+      this.force2.fill(0, 3 * b * n, 3 * (b + 1) * n);
     }
+    return b * this.cellsPerBlock;
   }
 
-  getCell(idx: THREE.Vector3): Cell {
-    const flatIdx = this._toFlatIndex(idx.x, idx.y, idx.z);
-    console.assert(flatIdx >= 0 && flatIdx < this.data.length, "Invalid cell index");
-    return this.data[flatIdx];
+  /**
+   * Activates the blocks overlapped by a stencil of S^3 nodes (S^2 in 2D, S being the stencil size),
+   * at most 2 along each axis, and stores the index of the data of each node: the node at offset
+   * (i, j, k) from the cell index base[baseOffset..baseOffset + 2] of the first node is stored at
+   * cells[offset + (i * S + j) * numZ + k], numZ being 1 in 2D and S in 3D.
+   */
+  activateStencil(base: Int32Array, baseOffset: number, cells: Int32Array, offset: number) {
+    const S = this.kernel.stencilSize;
+    const numZ = this.is2D ? 1 : S;
+    const bx = base[baseOffset], by = base[baseOffset + 1], bz = base[baseOffset + 2];
+    const bx0 = bx >> BLOCK_SHIFT, by0 = by >> BLOCK_SHIFT, bz0 = bz >> BLOCK_SHIFT;
+    const lastX = ((bx + S - 1) >> BLOCK_SHIFT) - bx0;
+    const lastY = ((by + S - 1) >> BLOCK_SHIFT) - by0;
+    const lastZ = ((bz + numZ - 1) >> BLOCK_SHIFT) - bz0;
+    // First cell of the block at offset (x, y, z) (each 0 or 1) from the first node's block, at x + 2y + 4z
+    const blocks = _stencilBlocks;
+    for (let z = 0; z <= lastZ; z++) {
+      for (let y = 0; y <= lastY; y++) {
+        for (let x = 0; x <= lastX; x++) {
+          blocks[x + 2*y + 4*z] = this.activateBlock(bx0 + x, by0 + y, bz0 + z);
+        }
+      }
+    }
+
+    let c = offset;
+    for (let i = 0; i < S; i++) {
+      const cx = bx + i;
+      const blockX = (cx >> BLOCK_SHIFT) - bx0, localX = cx & BLOCK_MASK;
+      for (let j = 0; j < S; j++) {
+        const cy = by + j;
+        const blockY = blockX + 2 * ((cy >> BLOCK_SHIFT) - by0), localY = localX + ((cy & BLOCK_MASK) << BLOCK_SHIFT);
+        for (let k = 0; k < numZ; k++) {
+          const cz = bz + k;
+          cells[c++] = blocks[blockY + 4 * ((cz >> BLOCK_SHIFT) - bz0)] + localY + ((cz & BLOCK_MASK) << (2 * BLOCK_SHIFT));
+        }
+      }
+    }
   }
 
-  isValidCellIndex(xIdx: number, yIdx: number, zIdx: number): boolean { // InGrid
-    const flatIdx = this._toFlatIndex(xIdx, yIdx, zIdx);
-    return flatIdx >= 0 && flatIdx < this.data.length;
+  /**
+   * @returns The index of the cell's data, or -1 if it isn't in an active block.
+   */
+  findCell(xIdx: number, yIdx: number, zIdx: number): number {
+    const b = this._table[this._findSlot(xIdx >> BLOCK_SHIFT, yIdx >> BLOCK_SHIFT, zIdx >> BLOCK_SHIFT)];
+    if (b < 0) { return -1; }
+    return b * this.cellsPerBlock + (xIdx & BLOCK_MASK) + ((yIdx & BLOCK_MASK) << BLOCK_SHIFT) +
+      ((zIdx & BLOCK_MASK) << (2 * BLOCK_SHIFT));
+  }
+
+  /**
+   * @returns The cell index (i, j, k) of the cell whose data is at index n, in the given Vector3.
+   */
+  cellIndexOf(n: number, out: THREE.Vector3): THREE.Vector3 {
+    const b = Math.floor(n / this.cellsPerBlock);
+    const local = n - b * this.cellsPerBlock;
+    return out.set(
+      (this.blockCoords[3*b] << BLOCK_SHIFT) + (local & BLOCK_MASK),
+      (this.blockCoords[3*b + 1] << BLOCK_SHIFT) + ((local >> BLOCK_SHIFT) & BLOCK_MASK),
+      (this.blockCoords[3*b + 2] << BLOCK_SHIFT) + (local >> (2 * BLOCK_SHIFT))
+    );
+  }
+
+  getCellMass(idx: THREE.Vector3): number {
+    const n = this.findCell(idx.x, idx.y, idx.z);
+    return n < 0 ? 0 : this.mass[n];
+  }
+  getCellVelocity(idx: THREE.Vector3, out: THREE.Vector3): THREE.Vector3 {
+    const n = this.findCell(idx.x, idx.y, idx.z);
+    return n < 0 ? out.set(0, 0, 0) : out.fromArray(this.vel, 3*n);
+  }
+
+  /**
+   * @returns Whether the given position is within the range of cell indices the grid can store.
+   */
+  isAddressable(pos: THREE.Vector3): boolean {
+    const limit = MAX_CELL_INDEX * this.cellSize;
+    const o = this.leftBottomBackPos;
+    return Math.abs(pos.x - o.x) < limit && Math.abs(pos.y - o.y) < limit && (this.is2D || Math.abs(pos.z - o.z) < limit);
   }
   /**
    * @returns A new Vector3 with the position of the center of the cell at the given index
    */
   cellIndexToPosition(xIdx: number, yIdx: number, zIdx: number): THREE.Vector3 { // IndexToCellPos
     const v = new THREE.Vector3(xIdx, yIdx, zIdx).addScalar(0.5).multiplyScalar(this.cellSize);
-    return v.add(this.leftBottomBackPos);
+    v.add(this.leftBottomBackPos);
+    if (this.is2D) {
+      v.z = this.leftBottomBackPos.z;
+    }
+    return v;
   }
   /**
-   * @returns A new Vector3 with the index of the cell that contains the given position
+   * @returns A new Vector3 with the index of the cell that contains the given position (0 along z in 2D)
    */
   cellPositionToIndex(pos: THREE.Vector3): THREE.Vector3 { // ToIndex
-    return pos.clone().sub(this.leftBottomBackPos).divide(this.cellDimensions()).floor();
+    const idx = pos.clone().sub(this.leftBottomBackPos).divide(this.cellDimensions()).floor();
+    if (this.is2D) {
+      idx.z = 0;
+    }
+    return idx;
+  }
+
+  get stencilSize(): number {
+    return this.kernel.stencilSize;
+  }
+
+  /**
+   * Computes the per-axis kernel weights (and their spatial derivatives) of the
+   * S^3 grid nodes around the given position without allocating anything, S being the stencil size.
+   * For axis a in [0,2] and stencil offset k in [0,S) the weight is stored at
+   * w[offset + a*S + k] and the cell index of the node is base[baseOffset + a] + k.
+   * In 2D only k = 0 is used along z, with a weight of 1 and a derivative of 0.
+   */
+  computeStencilWeights(
+    x: number, y: number, z: number,
+    base: Int32Array, baseOffset: number, w: Float64Array, dw: Float64Array, offset: number
+  ) {
+    const invH = 1.0 / this.cellSize;
+    const origin = this.leftBottomBackPos;
+    const numAxes = this.is2D ? 2 : 3;
+    const kernel = this.kernel;
+    const S = kernel.stencilSize;
+    for (let a = 0; a < numAxes; a++) {
+      const fx = ((a === 0 ? x : a === 1 ? y : z) - origin.getComponent(a)) * invH;
+      const first = kernel.stencilBase(fx);
+      base[baseOffset + a] = first;
+      for (let k = 0; k < S; k++) {
+        // Distance from the node (cell center) to the position, in units of cells
+        const dis = fx - (first + k + 0.5);
+        w[offset + a*S + k] = kernel.weight(dis);
+        dw[offset + a*S + k] = kernel.weightDerivative(dis) * invH;
+      }
+    }
+    if (numAxes === 2) {
+      base[baseOffset + 2] = 0;
+      for (let k = 0; k < S; k++) {
+        w[offset + 2*S + k] = k === 0 ? 1 : 0;
+        dw[offset + 2*S + k] = 0;
+      }
+    }
   }
 
   getWeight(pos: THREE.Vector3, delta: THREE.Vector3): number {
     const gridIndex = this.cellPositionToIndex(pos);
     gridIndex.add(delta);
-    if (!this.isValidCellIndex(gridIndex.x, gridIndex.y, gridIndex.z)) {
+    if (this.is2D && gridIndex.z !== 0) {
       return 0;
     }
     const gridPos = this.cellIndexToPosition(gridIndex.x, gridIndex.y, gridIndex.z);
     const dis = pos.clone().sub(gridPos).divide(this.getH());
 
     // NOTE: If the grid is 2D then we don't consider the z component in the weighting
-    const w = this.getNQuadratic(dis.x) * this.getNQuadratic(dis.y) *
-              (this.is2D ? 1.0 : this.getNQuadratic(dis.z));
+    const kernel = this.kernel;
+    const w = kernel.weight(dis.x) * kernel.weight(dis.y) *
+              (this.is2D ? 1.0 : kernel.weight(dis.z));
     return w;
   }
 
   getWeightGradient(pos: THREE.Vector3, delta: THREE.Vector3): THREE.Vector3 {
     const gridIndex = this.cellPositionToIndex(pos);
     gridIndex.add(delta);
-    if (!this.isValidCellIndex(gridIndex.x, gridIndex.y, gridIndex.z)) {
+    if (this.is2D && gridIndex.z !== 0) {
       return ZeroVector3();
     }
     const gridPos = this.cellIndexToPosition(gridIndex.x, gridIndex.y, gridIndex.z);
     const invH = this.getInvH();
     const dis = pos.clone().sub(gridPos).multiply(invH);
 
-    const wx = this.getNQuadratic(dis.x);
-    const wy = this.getNQuadratic(dis.y);
-    const wz = this.is2D ? 1.0 : this.getNQuadratic(dis.z);
-    const wdx = this.getNQuadraticDerivative(dis.x);
-    const wdy = this.getNQuadraticDerivative(dis.y);
-
-    // TODO: Check if we should set this to zero instead of 1 for the 2D case
-    const wdz = this.is2D ? 1.0 : this.getNQuadraticDerivative(dis.z);
+    const kernel = this.kernel;
+    const wx = kernel.weight(dis.x);
+    const wy = kernel.weight(dis.y);
+    const wz = this.is2D ? 1.0 : kernel.weight(dis.z);
+    const wdx = kernel.weightDerivative(dis.x);
+    const wdy = kernel.weightDerivative(dis.y);
+    // NOTE: In 2D the weight is constant along z, so its derivative is zero
+    const wdz = this.is2D ? 0.0 : kernel.weightDerivative(dis.z);
 
     return invH.multiply(new THREE.Vector3(wdx * wy * wz, wx * wdy * wz, wx * wy * wdz));
   }
 
   /**
-   * @returns A new Matrix3 with the MPM D matrix. This represents an
-   * affine preserving matrix for transferring motion from particles to the grid.
-   * See page 42 of https://www.math.ucla.edu/~cffjiang/research/mpmcourse/mpmcourse.pdf
+   * @returns A new Matrix3 with the APIC D matrix of the grid's kernel.
    */
-  getDQuadratic(): THREE.Matrix3 {
-    const H = this.getH();
-    const v = H.multiply(H).multiplyScalar(0.25);
-    const m = new THREE.Matrix3(
-      v.x, 0, 0,
-      0, v.y, 0,
-      0, 0, v.z
-    );
-    return m;
+  getD(): THREE.Matrix3 {
+    return this.kernel.getD(this.getH());
   }
-
-  getNQuadratic(x: number): number {
-    x = Math.abs(x);
-    if (x < 0.5) { return 0.75 - x * x; }
-    if (x < 1.5) { return 0.5 * (1.5 - x) * (1.5 - x); }
-    return 0;
-  }
-
-  getNQuadraticDerivative(x: number): number {
-    x = Math.abs(x);
-    if (x < 0.5) { return -2 * x; }
-    if (x < 1.5) { return x > 0 ? x - 1.5 : -(x - 1.5); }
-    return 0;
-  }
-
-  /*
-  getNCubic(x: number): number {
-    x = Math.abs(x);
-    if (x < 1.0) { return 2.0 / 3.0 - x * x + 0.5 * x * x * x; }
-    if (x < 2.0) { return 1.0 / 6.0 * Math.pow(2 - x, 3); }
-    return 0;
-  }
-  getNCubicDerivative(x: number): number {
-    x = Math.abs(x);
-    if (x < 1.0) { return -2 * x + 1.5 * x * x; }
-    if (x < 2.0) { return x > 0 ? -0.5 * Math.pow(2 - x, 2) : 0.5 * Math.pow(2 + x, 2); }
-    return 0;
-  }
-  */
-}
\ No newline at end of file
+}
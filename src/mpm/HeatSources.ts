@@ -0,0 +1,38 @@
+import * as THREE from 'three';
+import { Shape } from "./Shapes";
+
+const _pos = new THREE.Vector3();
+
+/**
+ * Region that brings the material within its shape to a temperature, e.g. a hot plate, a burner or
+ * (with a low temperature) a cooling bath. Heat flows in or out of the grid nodes within the shape
+ * so that their temperature relaxes exponentially towards the source's, which is stable at any rate.
+ */
+export class HeatSource {
+  shape: Shape;
+  temperature: number;
+  rate: number; // Inverse of the relaxation time, i.e. how fast the material takes on the temperature
+  enabled: boolean = true;
+
+  constructor(shape: Shape, temperature: number, rate = 10) {
+    console.assert(rate >= 0, "Rate must not be negative");
+    this.shape = shape;
+    this.temperature = temperature;
+    this.rate = rate;
+  }
+
+  /**
+   * In 2D the position is tested in the plane that slices the shape (see Shape.sliceZ).
+   * @returns The temperature change over a time step of a grid node at the given position and
+   * temperature, 0 outside of the shape.
+   */
+  temperatureChange(pos: THREE.Vector3, temperature: number, dt: number, is2D: boolean): number {
+    if (!this.enabled) { return 0; }
+    _pos.copy(pos);
+    if (is2D) {
+      _pos.z = this.shape.sliceZ(pos.z);
+    }
+    if (!this.shape.bounds.containsPoint(_pos) || !this.shape.contains(_pos)) { return 0; }
+    return (this.temperature - temperature) * (1 - Math.exp(-this.rate * dt));
+  }
+}
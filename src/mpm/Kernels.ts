@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+
+export type KernelType = "linear" | "quadratic" | "cubic";
+
+/**
+ * B-spline interpolation kernel used for the particle <-> grid transfers. The weight of a grid node
+ * is the product of a 1D function of the distance (in units of cells) between the position and the
+ * node along each axis, and is non-zero on stencilSize nodes per axis.
+ */
+export abstract class Kernel {
+  abstract readonly type: KernelType;
+  // Number of grid nodes along each axis that a particle interacts with
+  abstract readonly stencilSize: number;
+  // The APIC D matrix (sum of w_ip (x_i - x_p)(x_i - x_p)^T) is inertiaScale * h^2 * I
+  abstract readonly inertiaScale: number;
+  // Grid nodes with less mass than this fraction of the average particle mass don't receive internal forces
+  readonly minForceMassFraction: number = 0;
+
+  /**
+   * @returns The 1D weight for a node at the given distance (in cells) from the position.
+   */
+  abstract weight(x: number): number;
+  /**
+   * @returns The derivative of weight() with respect to the distance.
+   */
+  abstract weightDerivative(x: number): number;
+
+  // Whether the affine velocity has to be taken from the weight gradients rather than B * D^-1
+  get affineFromGradient(): boolean {
+    return false;
+  }
+
+  /**
+   * @param x Position along an axis in units of cells, relative to the grid origin
+   * @returns The index of the first cell (node) of the stencil along that axis
+   */
+  stencilBase(x: number): number {
+    // Nodes are at cell centers, the stencil is centered on the position
+    return Math.floor(x + 0.5 - 0.5 * this.stencilSize);
+  }
+
+  /**
+   * @returns A new Matrix3 with the MPM D matrix. This represents an
+   * affine preserving matrix for transferring motion from particles to the grid.
+   * See page 42 of https://www.math.ucla.edu/~cffjiang/research/mpmcourse/mpmcourse.pdf
+   */
+  getD(cellDimensions: THREE.Vector3): THREE.Matrix3 {
+    const v = cellDimensions.clone().multiply(cellDimensions).multiplyScalar(this.inertiaScale);
+    return new THREE.Matrix3(
+      v.x, 0, 0,
+      0, v.y, 0,
+      0, 0, v.z
+    );
+  }
+}
+
+/**
+ * Multilinear (tent) kernel, the cheapest but its gradient is discontinuous across cells.
+ */
+export class LinearKernel extends Kernel {
+  readonly type = "linear";
+  readonly stencilSize = 2;
+  // NOTE: For the linear kernel D depends on the position within the cell and is singular at the
+  // nodes, this is its average. It is only used to store B, see affineFromGradient.
+  readonly inertiaScale = 1.0 / 6.0;
+  // NOTE: The weight gradient doesn't vanish along with the weight at the edge of the support, so a
+  // particle that barely reaches an otherwise empty node would give it a huge acceleration
+  // (the cell-crossing instability)
+  readonly minForceMassFraction = 0.1;
+
+  weight(x: number): number {
+    x = Math.abs(x);
+    return x < 1.0 ? 1.0 - x : 0;
+  }
+
+  // NOTE: The stencil always has one node at a distance in [0, 1) and one in [-1, 0), so
+  // the kink at 0 and the end points are assigned consistently with that
+  weightDerivative(x: number): number {
+    if (x >= 1.0 || x < -1.0) { return 0; }
+    return x >= 0 ? -1.0 : 1.0;
+  }
+
+  // For multilinear weights w_ip * D^-1 * (x_i - x_p) = grad(w_ip), so the affine velocity
+  // is exactly the velocity gradient (see section 5.3 of the APIC paper, Jiang et al. 2015)
+  get affineFromGradient(): boolean {
+    return true;
+  }
+}
+
+export class QuadraticKernel extends Kernel {
+  readonly type = "quadratic";
+  readonly stencilSize = 3;
+  readonly inertiaScale = 0.25;
+
+  weight(x: number): number {
+    x = Math.abs(x);
+    if (x < 0.5) { return 0.75 - x * x; }
+    if (x < 1.5) { return 0.5 * (1.5 - x) * (1.5 - x); }
+    return 0;
+  }
+
+  weightDerivative(x: number): number {
+    const absX = Math.abs(x);
+    if (absX < 0.5) { return -2 * x; }
+    if (absX < 1.5) { return x > 0 ? absX - 1.5 : -(absX - 1.5); }
+    return 0;
+  }
+}
+
+export class CubicKernel extends Kernel {
+  readonly type = "cubic";
+  readonly stencilSize = 4;
+  readonly inertiaScale = 1.0 / 3.0;
+
+  weight(x: number): number {
+    x = Math.abs(x);
+    if (x < 1.0) { return 2.0 / 3.0 - x * x + 0.5 * x * x * x; }
+    if (x < 2.0) { return 1.0 / 6.0 * (2 - x) * (2 - x) * (2 - x); }
+    return 0;
+  }
+
+  weightDerivative(x: number): number {
+    const absX = Math.abs(x);
+    if (absX < 1.0) { return -2 * x + 1.5 * x * absX; }
+    if (absX < 2.0) { return (x > 0 ? -0.5 : 0.5) * (2 - absX) * (2 - absX); }
+    return 0;
+  }
+}
+
+/**
+ * @returns A new kernel of the given type.
+ */
+export const createKernel = (type: KernelType): Kernel => {
+  switch (type) {
+    case "linear":
+      return new LinearKernel();
+    case "quadratic":
+      return new QuadraticKernel();
+    case "cubic":
+      return new CubicKernel();
+    default:
+      throw new Error(`Unknown kernel type: ${type}`);
+  }
+};
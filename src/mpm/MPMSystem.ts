@@ -1,42 +1,281 @@
 import * as THREE from 'three';
-import { ZeroVector3, ZeroMatrix3 } from '../MathUtils';
-import { Grid } from "./Grid";
+import { Grid, BLOCK_SHIFT, BLOCK_MASK } from "./Grid";
+import { Kernel, QuadraticKernel } from "./Kernels";
+import { Material } from "./Materials";
+import { Particle, ParticleSet, ThermalProperties, DEFAULT_MATERIAL, DEFAULT_THERMAL_PROPERTIES } from "./Particles";
+import { Collider, PlaneCollider, BoundaryType } from "./Colliders";
+import { RigidBody } from "./RigidBodies";
+import { Shape } from "./Shapes";
+import { GridBrush } from "./Brush";
+import { ParticleEmitter, ParticleSink } from "./Emitters";
+import { HeatSource } from "./HeatSources";
+import { ForceField } from "./ForceFields";
+import { ParticleSpacingOptions, SamplingPattern, particleSpacing, sampleShape } from "./Sampling";
+import { Diagnostics, computeParticleDiagnostics, createDiagnostics } from "./Diagnostics";
 
-const GRID_SIZE = 64;
-const HALF_GRID_SIZE = GRID_SIZE / 2;
-const GRAVITY = new THREE.Vector3(0, -9.8, 0);
+export { Particle, ParticleSet };
 
-class Particle {
+const DEFAULT_GRID_SIZE = 64;
+const DEFAULT_CELL_SIZE = 0.1;
+export const DEFAULT_GRAVITY = new THREE.Vector3(0, -9.8, 0);
+// Number of cells between the edge of a grid given by gridSize and its domain walls, kept so that
+// scenes given by gridSize keep the same walls. Also the default offset of the grid origin from a
+// given domain, and how far past the walls a particle is clamped.
+const DOMAIN_WALL_PADDING = 2;
+// Damage beyond which a particle counts as broken, the material may separate at the nodes around it
+const SEPARATION_DAMAGE = 0.95;
+// Coulomb friction between the two sides of a crack that are pressed together
+const CRACK_FRICTION = 0.5;
 
-  active: boolean;
-  mass: number;
-  pos: THREE.Vector3;
-  vel: THREE.Vector3;
-  B: THREE.Matrix3; // TODO: 3x3 matrix
+const _clampBounds = new THREE.Box3();
+const _padding = new THREE.Vector3();
+const _bodyAcceleration = new THREE.Vector3();
+const _bodyVel = new THREE.Vector3();
+const _cellVel2 = new THREE.Vector3();
+const _crackNormal = new THREE.Vector3();
+const _relVel = new THREE.Vector3();
+const _centerVel = new THREE.Vector3();
 
-  constructor(active = true, mass = 0.0, pos = ZeroVector3(), vel = ZeroVector3()) {
-    this.active = active;
-    this.mass = mass;
-    this.pos = pos;
-    this.vel = vel;
-    this.B = ZeroMatrix3();
-  }
+export interface MPMSystemOptions {
+  cellSize?: number;
+  // Number of cells along each axis of the grid, a z size of 1 makes the simulation 2D
+  gridSize?: THREE.Vector3;
+  // Left-bottom-back corner of the grid, defaults to centering the grid on the origin (in x and y).
+  // The domain is the grid minus a padding of a couple of cells.
+  origin?: THREE.Vector3;
+  // Alternative to gridSize: the world-space box that the material is confined to.
+  // A box with no extent in z makes the simulation 2D. The origin, if given, only anchors the cells
+  // of the grid (the left-bottom-back corner of cell (0, 0, 0)) and the z of the 2D plane.
+  domain?: THREE.Box3;
+  // Interpolation kernel of the particle <-> grid transfers, quadratic B-splines by default
+  kernel?: Kernel;
+  gravity?: THREE.Vector3;
+}
+
+export interface ShapeFillOptions extends ParticleSpacingOptions {
+  pattern?: SamplingPattern; // Lattice by default, see sampleShape
+  seed?: number;
+  density: number; // Mass per unit volume (per unit area in 2D) of the material
+  material?: Material;
+  velocity?: THREE.Vector3;
+  angularVelocity?: THREE.Vector3; // Axis * radians per second, about the body's center of mass
+  // Thermal state of the particles, see DEFAULT_THERMAL_PROPERTIES for the defaults
+  temperature?: number;
+  heatCapacity?: number;
+  conductivity?: number;
 }
 
+export interface TimeStepOptions {
+  // Fraction of a cell that material (or a stress wave) may travel in a single substep, it also
+  // scales the limit of heat conduction (see computeTimeStep)
+  cflNumber: number;
+  // Bounds of the substep size, set both to the same value for fixed time stepping
+  minDt: number;
+  maxDt: number;
+  // Maximum number of substeps per call to advance(), if reached the frame simulates less time
+  maxSubsteps: number;
+}
+
+export const DEFAULT_TIME_STEP_OPTIONS: TimeStepOptions = {
+  cflNumber: 0.5,
+  minDt: 1e-5,
+  maxDt: 1e-2,
+  maxSubsteps: 64,
+};
+
 export class MPMSystem {
   grid: Grid;
-  particles: Array<Particle> = [];
+  // Box where the bodies, emitters and sinks are placed. Unless the domain boundary is open, the
+  // domain walls confine the material to it.
+  domain: THREE.Box3;
+  particles: ParticleSet = new ParticleSet();
+  colliders: Array<Collider> = [];
+  rigidBodies: Array<RigidBody> = [];
+  domainWalls: Array<PlaneCollider> = [];
+  emitters: Array<ParticleEmitter> = [];
+  sinks: Array<ParticleSink> = [];
+  heatSources: Array<HeatSource> = [];
+  gravity: THREE.Vector3; // Everywhere, the other external forces are force fields
+  forceFields: Array<ForceField> = [];
+  brush: GridBrush | null = null; // Interactive forcing, e.g. from the mouse
+  timeStepOptions: TimeStepOptions = { ...DEFAULT_TIME_STEP_OPTIONS };
+  lastSubsteps: number = 0; // Number of substeps taken by the last call to advance()
+  stepCount: number = 0; // Total number of steps taken
+  time: number = 0;      // Total simulated time
+  // Called at the end of every step, e.g. to record the diagnostics of each step
+  onStep: ((dt: number) => void) | null = null;
 
-  constructor(cellSize: number = 0.1) {
-    this.grid = new Grid(
-      new THREE.Vector3(GRID_SIZE,GRID_SIZE,1),
-      cellSize,
-      new THREE.Vector3(-HALF_GRID_SIZE, -HALF_GRID_SIZE, 0).multiplyScalar(cellSize)
-    );
+  // Per-particle interpolation data computed once per step in _particleToGrid and reused in
+  // _gridToParticle: the first cell index of each particle's stencil along each axis, and the
+  // per-axis kernel weights and weight derivatives (see Grid.computeStencilWeights)
+  _stencilBase: Int32Array = new Int32Array(0);
+  _stencilCells: Int32Array = new Int32Array(0); // See _activateGridBlocks
+  _weights: Float64Array = new Float64Array(0);
+  _dweights: Float64Array = new Float64Array(0);
+  _damageGrad: Float64Array = new Float64Array(0); // Per particle, see _partitionFields
+
+  // Scratch objects so that the transfer kernels don't allocate
+  _particle: Particle = new Particle();
+  _stress: THREE.Matrix3 = new THREE.Matrix3();
+  _cellPos: THREE.Vector3 = new THREE.Vector3();
+  _cellVel: THREE.Vector3 = new THREE.Vector3();
+  _minForceMass: number = 0; // See Kernel.minForceMassFraction
+  // Whether the temperatures can change in this step, when they can't the transfers skip the heat
+  _heatTransfer: boolean = false;
+  // Whether any particle is broken, when none is the transfers skip partitioning the material into fields
+  _fracture: boolean = false;
+
+  constructor(options: MPMSystemOptions = {}) {
+    const cellSize = options.cellSize ?? DEFAULT_CELL_SIZE;
+    console.assert(!(options.domain && options.gridSize), "Specify either a domain or a grid size, not both");
+
+    // The lattice of the grid is laid out as if it were a dense grid padded around the domain, so that
+    // scenes simulate the same either way
+    let origin: THREE.Vector3;
+    let is2D: boolean;
+    if (options.domain) {
+      const domainSize = options.domain.getSize(new THREE.Vector3());
+      console.assert(domainSize.x > 0 && domainSize.y > 0 && domainSize.z >= 0, "Invalid domain");
+      is2D = domainSize.z === 0;
+      this.domain = options.domain.clone();
+      origin = options.origin?.clone() ?? options.domain.min.clone().addScalar(-DOMAIN_WALL_PADDING * cellSize);
+      if (is2D && !options.origin) {
+        origin.z = options.domain.min.z;
+      }
+    }
+    else {
+      const gridSize = options.gridSize?.clone() ?? new THREE.Vector3(DEFAULT_GRID_SIZE, DEFAULT_GRID_SIZE, 1);
+      origin = options.origin?.clone() ?? new THREE.Vector3(-gridSize.x / 2, -gridSize.y / 2, 0).multiplyScalar(cellSize);
+      console.assert(
+        Number.isInteger(gridSize.x) && Number.isInteger(gridSize.y) && Number.isInteger(gridSize.z),
+        "Grid size must be integral"
+      );
+      console.assert(
+        gridSize.x > 2 * DOMAIN_WALL_PADDING && gridSize.y > 2 * DOMAIN_WALL_PADDING &&
+        (gridSize.z === 1 || gridSize.z > 2 * DOMAIN_WALL_PADDING),
+        "Grid is too small"
+      );
+      is2D = gridSize.z === 1;
+      const padding = new THREE.Vector3(1, 1, is2D ? 0 : 1).multiplyScalar(DOMAIN_WALL_PADDING * cellSize);
+      const extent = gridSize.clone().multiplyScalar(cellSize);
+      if (is2D) {
+        extent.z = 0;
+      }
+      this.domain = new THREE.Box3(origin.clone().add(padding), origin.clone().add(extent).sub(padding));
+    }
+
+    this.grid = new Grid(cellSize, origin, is2D, options.kernel ?? new QuadraticKernel());
+    this.gravity = options.gravity?.clone() ?? DEFAULT_GRAVITY.clone();
+    this.setDomainBoundary(BoundaryType.Slip);
+  }
+
+  get is2D(): boolean {
+    return this.grid.is2D;
+  }
+
+  addCollider(collider: Collider) {
+    this.colliders.push(collider);
+  }
+  removeCollider(collider: Collider) {
+    const idx = this.colliders.indexOf(collider);
+    if (idx >= 0) {
+      this.colliders.splice(idx, 1);
+    }
+  }
+
+  addRigidBody(body: RigidBody) {
+    this.rigidBodies.push(body);
+  }
+  removeRigidBody(body: RigidBody) {
+    const idx = this.rigidBodies.indexOf(body);
+    if (idx >= 0) {
+      this.rigidBodies.splice(idx, 1);
+    }
+  }
+
+  addEmitter(emitter: ParticleEmitter) {
+    this.emitters.push(emitter);
+  }
+  removeEmitter(emitter: ParticleEmitter) {
+    const idx = this.emitters.indexOf(emitter);
+    if (idx >= 0) {
+      this.emitters.splice(idx, 1);
+    }
+  }
+
+  addSink(sink: ParticleSink) {
+    this.sinks.push(sink);
+  }
+  removeSink(sink: ParticleSink) {
+    const idx = this.sinks.indexOf(sink);
+    if (idx >= 0) {
+      this.sinks.splice(idx, 1);
+    }
+  }
+
+  addForceField(field: ForceField) {
+    this.forceFields.push(field);
+  }
+  removeForceField(field: ForceField) {
+    const idx = this.forceFields.indexOf(field);
+    if (idx >= 0) {
+      this.forceFields.splice(idx, 1);
+    }
+  }
+
+  addHeatSource(source: HeatSource) {
+    this.heatSources.push(source);
+  }
+  removeHeatSource(source: HeatSource) {
+    const idx = this.heatSources.indexOf(source);
+    if (idx >= 0) {
+      this.heatSources.splice(idx, 1);
+    }
+  }
+
+  /**
+   * @returns A new Box3 with the domain (with no extent in z in 2D).
+   */
+  domainBounds(): THREE.Box3 {
+    return this.domain.clone();
+  }
+
+  // Whether the domain has no walls, see setDomainBoundary
+  get isDomainOpen(): boolean {
+    return this.domainWalls.length === 0;
+  }
+
+  /**
+   * Sets the boundary condition of the walls enclosing the simulation domain. With a null boundary
+   * the domain is open: there are no walls and the material is free to leave the domain, the grid
+   * follows it wherever it goes.
+   */
+  setDomainBoundary(boundary: BoundaryType | null, friction = 0.0) {
+    const bounds = this.domain;
+    if (boundary === null) {
+      this.domainWalls = [];
+      return;
+    }
+
+    this.domainWalls = [
+      new PlaneCollider(new THREE.Vector3(bounds.min.x, 0, 0), new THREE.Vector3(1, 0, 0), boundary, friction),
+      new PlaneCollider(new THREE.Vector3(bounds.max.x, 0, 0), new THREE.Vector3(-1, 0, 0), boundary, friction),
+      new PlaneCollider(new THREE.Vector3(0, bounds.min.y, 0), new THREE.Vector3(0, 1, 0), boundary, friction),
+      new PlaneCollider(new THREE.Vector3(0, bounds.max.y, 0), new THREE.Vector3(0, -1, 0), boundary, friction),
+    ];
+    if (!this.grid.is2D) {
+      this.domainWalls.push(
+        new PlaneCollider(new THREE.Vector3(0, 0, bounds.min.z), new THREE.Vector3(0, 0, 1), boundary, friction),
+        new PlaneCollider(new THREE.Vector3(0, 0, bounds.max.z), new THREE.Vector3(0, 0, -1), boundary, friction),
+      );
+    }
   }
 
   // size is the size of each particle
-  addParticles(min: THREE.Vector3, max: THREE.Vector3, size: number, mass: number) {
+  addParticles(
+    min: THREE.Vector3, max: THREE.Vector3, size: number, mass: number,
+    material: Material = DEFAULT_MATERIAL, velocity: THREE.Vector3 = new THREE.Vector3()
+  ) {
     console.assert(min.x <= max.x && min.y <= max.y && min.z <= max.z, "Invalid bounds");
     console.assert(size > 0, "Invalid size");
     console.assert(mass > 0, "Invalid mass");
@@ -50,21 +289,166 @@ export class MPMSystem {
     if (boxDim.z == 0) {
       numParticles.z = 1;
     }
+    // Each particle initially occupies a cube (or square in 2D) of the given size
+    const volume0 = this.grid.is2D ? size * size : size * size * size;
+    this.particles.reserve(this.particles.count + numParticles.x * numParticles.y * numParticles.z);
+
+    const pos = new THREE.Vector3();
 
     for (let x = 0; x < numParticles.x; x++) {
       for (let y = 0; y < numParticles.y; y++) {
         for (let z = 0; z < numParticles.z; z++) {
-          const pos = new THREE.Vector3(
+          pos.set(
             min.x + x * size + halfSize,
             min.y + y * size + halfSize,
             min.z + z * size + halfSize
           );
-          this.particles.push(new Particle(true, mass, pos));
+          this.particles.add(mass, volume0, pos, velocity, material);
         }
       }
     }
   }
 
+  /**
+   * Fills the shape (within the domain) with particles. The particle masses are given by the
+   * density and the volume each particle represents, so they don't depend on the sampling.
+   * @returns The number of particles added.
+   */
+  addShape(shape: Shape, options: ShapeFillOptions): number {
+    const { density, material = DEFAULT_MATERIAL } = options;
+    console.assert(density > 0, "Density must be greater than 0");
+
+    const is2D = this.grid.is2D;
+    const h = this.grid.cellSize;
+    const spacing = particleSpacing(options, h, is2D);
+    const { positions, volume } = sampleShape(
+      shape, this.domainBounds(), is2D, { spacing, pattern: options.pattern, seed: options.seed }
+    );
+    const count = positions.length / 3;
+    if (count === 0) { return 0; }
+
+    const linear = options.velocity?.clone() ?? new THREE.Vector3();
+    const angular = options.angularVelocity?.clone() ?? new THREE.Vector3();
+    if (is2D) {
+      linear.z = 0;
+      angular.x = angular.y = 0;
+    }
+    const pos = new THREE.Vector3();
+    const center = new THREE.Vector3();
+    for (let i = 0; i < count; i++) {
+      center.add(pos.fromArray(positions, 3*i));
+    }
+    center.divideScalar(count); // All the particles have the same mass
+
+    // The velocity gradient of a rigid rotation is the cross product matrix of the angular
+    // velocity, starting with the matching affine momentum (B = C * D) makes the rotation exact
+    const B = new THREE.Matrix3().set(
+      0, -angular.z, angular.y,
+      angular.z, 0, -angular.x,
+      -angular.y, angular.x, 0
+    ).multiplyScalar(this.grid.kernel.inertiaScale * h * h);
+
+    const mass = density * volume;
+    const thermal: ThermalProperties = {
+      temperature: options.temperature ?? DEFAULT_THERMAL_PROPERTIES.temperature,
+      heatCapacity: options.heatCapacity ?? DEFAULT_THERMAL_PROPERTIES.heatCapacity,
+      conductivity: options.conductivity ?? DEFAULT_THERMAL_PROPERTIES.conductivity,
+    };
+    const vel = new THREE.Vector3();
+    this.particles.reserve(this.particles.count + count);
+    for (let i = 0; i < count; i++) {
+      pos.fromArray(positions, 3*i);
+      vel.crossVectors(angular, vel.subVectors(pos, center)).add(linear);
+      const index = this.particles.add(mass, volume, pos, vel, material, thermal);
+      B.toArray(this.particles.B, 9*index);
+    }
+    return count;
+  }
+
+  /**
+   * Removes (deactivates) the particles within the radius of the center (in the xy-plane in 2D).
+   * @returns The number of particles removed.
+   */
+  eraseParticles(center: THREE.Vector3, radius: number): number {
+    const particles = this.particles;
+    const pos = particles.pos;
+    const is2D = this.grid.is2D;
+    let erased = 0;
+    for (let i = 0; i < particles.count; i++) {
+      if (!particles.active[i]) { continue; }
+      const dx = pos[3*i] - center.x, dy = pos[3*i + 1] - center.y, dz = is2D ? 0 : pos[3*i + 2] - center.z;
+      if (dx * dx + dy * dy + dz * dz <= radius * radius) {
+        particles.deactivate(i);
+        erased++;
+      }
+    }
+    return erased;
+  }
+
+  /**
+   * Advances the simulation by a frame, subdividing it into substeps whose size is chosen
+   * by the CFL condition (see computeTimeStep).
+   * At the end of the frame the slots of the removed particles are recycled for the particles added
+   * later on, so a slot is never reused in the frame that it became inactive (or between frames).
+   * @returns The simulated time, which is less than frameDt if the substep cap was reached.
+   */
+  advance(frameDt: number): number {
+    const { maxSubsteps } = this.timeStepOptions;
+    let elapsed = 0;
+    let substeps = 0;
+    // NOTE: The tolerance keeps round-off from adding a vanishingly small last substep
+    while (frameDt - elapsed > 1e-9 * frameDt && substeps < maxSubsteps) {
+      const remaining = frameDt - elapsed;
+      let dt = this.computeTimeStep();
+      if (dt >= remaining) {
+        dt = remaining;
+      }
+      else if (2 * dt > remaining) {
+        dt = remaining / 2; // Split what's left evenly rather than ending with a tiny substep
+      }
+      this.step(dt);
+      elapsed += dt;
+      substeps++;
+    }
+    this.lastSubsteps = substeps;
+    this.particles.recycleInactive();
+    return elapsed;
+  }
+
+  /**
+   * CFL condition: in one step, neither particles nor stress waves may travel further than a
+   * fraction (cflNumber) of a cell, i.e. dt <= cflNumber * h / max(|v_p| + c_p).
+   * Heat conduction is explicit too, it's stable for dt <= cflNumber * h^2 / (d * max(alpha_p)),
+   * alpha_p = k_p / (rho_p * c_p) being the thermal diffusivity and d the number of dimensions.
+   * @returns The largest stable time step for the current particle state, clamped to [minDt, maxDt].
+   */
+  computeTimeStep(): number {
+    const { cflNumber, minDt, maxDt } = this.timeStepOptions;
+    const particles = this.particles;
+    const { vel, mass, volume0, J, heatCapacity, conductivity } = particles;
+    const p = this._particle;
+
+    let maxSpeed = 0;
+    let maxDiffusivity = 0;
+    for (let i = 0; i < particles.count; i++) {
+      if (!particles.active[i]) { continue; }
+      const vx = vel[3*i], vy = vel[3*i + 1], vz = vel[3*i + 2];
+      const speed = Math.sqrt(vx * vx + vy * vy + vz * vz) +
+        particles.material[i].waveSpeed(particles.getMaterialState(i, p));
+      maxSpeed = Math.max(maxSpeed, speed);
+      if (conductivity[i] > 0) {
+        maxDiffusivity = Math.max(maxDiffusivity, conductivity[i] * volume0[i] * J[i] / (mass[i] * heatCapacity[i]));
+      }
+    }
+
+    const h = this.grid.cellSize;
+    let dt = maxSpeed > 0 ? cflNumber * h / maxSpeed : maxDt;
+    if (maxDiffusivity > 0) {
+      dt = Math.min(dt, cflNumber * h * h / ((this.grid.is2D ? 2 : 3) * maxDiffusivity));
+    }
+    return Math.min(maxDt, Math.max(minDt, dt));
+  }
+
   step(dt: number) {
     if (dt <= 0) { return; }
 
@@ -72,127 +456,621 @@ export class MPMSystem {
     this._particleToGrid();
     this._updateGrid(dt);
     this._gridToParticle(dt);
+    this._updateSourcesAndSinks(dt);
+
+    for (const body of this.rigidBodies) {
+      body.integrate(dt, this.grid.is2D);
+      if (!this.isDomainOpen) {
+        body.confine(this.domain, this.grid.is2D);
+      }
+    }
+    for (const collider of this.colliders) {
+      collider.update(dt);
+    }
+    this.stepCount++;
+    this.time += dt;
+    this.onStep?.(dt);
   }
 
-  _particleToGrid() {
-    const Dinv = this.grid.getDQuadratic().invert();
-    for (const p of this.particles) {
-      const gridIdx = this.grid.cellPositionToIndex(p.pos);
-      const apic = p.B.multiply(Dinv);
-
-      // Loops over the 3x3 matrix of the grid cells surrounding the particle
-      const gzInit = this.grid.is2D ? 0 : -1;
-      const gzEnd = this.grid.is2D ? 0 : 1;
-      const delta = new THREE.Vector3();
-      const idx = new THREE.Vector3();
-      for (let gx = -1; gx <= 1; ++gx) {
-        for (let gy = -1; gy <= 1; ++gy) {
-          for (let gz = gzInit; gz <= gzEnd; ++gz) {
-            delta.set(gx, gy, gz);
-            idx.addVectors(gridIdx, delta);
-            if (!this.grid.isValidCellIndex(idx.x, idx.y, idx.z)) {
-              continue;
-            }
+  /**
+   * @returns The total mass, momenta and energies of the particles, see computeParticleDiagnostics.
+   */
+  computeDiagnostics(out: Diagnostics = createDiagnostics()): Diagnostics {
+    return computeParticleDiagnostics(this.particles, out);
+  }
 
-            const weight = this.grid.getWeight(p.pos, delta);
-            const gridPos = this.grid.cellIndexToPosition(idx.x, idx.y, idx.z);
-            const cell = this.grid.getCell(idx);
-            cell.mass += weight * p.mass;
+  // Sinks remove the particles that reached them, then emitters add the particles for the next step
+  _updateSourcesAndSinks(dt: number) {
+    for (const sink of this.sinks) {
+      sink.drain(this.particles, this.grid.is2D);
+    }
+    if (this.emitters.length > 0) {
+      const domain = this.domainBounds();
+      for (const emitter of this.emitters) {
+        emitter.emit(this.particles, dt, this.grid.cellSize, this.grid.is2D, domain);
+      }
+    }
+  }
+
+  _ensureStencilCapacity() {
+    const capacity = this.particles.capacity;
+    if (this._stencilBase.length < 3 * capacity) {
+      this._stencilBase = new Int32Array(3 * capacity);
+      this._stencilCells = new Int32Array(Math.pow(this.grid.stencilSize, 3) * capacity);
+      this._weights = new Float64Array(3 * this.grid.stencilSize * capacity);
+      this._dweights = new Float64Array(3 * this.grid.stencilSize * capacity);
+      this._damageGrad = new Float64Array(3 * capacity);
+    }
+  }
 
-            // cell.mv += weight * p.mass * (p.vel + math.mul(apic, (gridPos-p.pos)));
-            cell.mv.add(gridPos.sub(p.pos).applyMatrix3(apic).add(p.vel).multiplyScalar(weight * p.mass));
+  /**
+   * Computes the stencil weights of the active particles and activates the grid blocks their
+   * stencils overlap. The data indices of the nodes of particle i are stored from
+   * _stencilCells[S^3 * i] (see Grid.activateStencil), S being the stencil size.
+   */
+  _activateGridBlocks() {
+    const grid = this.grid;
+    const particles = this.particles;
+    const pPos = particles.pos;
+
+    this._ensureStencilCapacity();
+    const base = this._stencilBase;
+    const cells = this._stencilCells;
+    const S = grid.stencilSize;
+    for (let i = 0; i < particles.count; i++) {
+      if (!particles.active[i]) { continue; }
+      grid.computeStencilWeights(pPos[3*i], pPos[3*i + 1], pPos[3*i + 2], base, 3*i, this._weights, this._dweights, 3 * S * i);
+      grid.activateStencil(base, 3*i, cells, S * S * S * i);
+    }
+  }
+
+  /**
+   * Splits the material along cracks between two velocity fields, with the damage field gradient
+   * partitioning of "CD-MPM: Continuum damage material point methods for dynamic fracture animation"
+   * (Wolper et al. 2019), after Homel and Herbold 2017. The damage is transferred to the grid and each
+   * particle gathers its gradient, which points towards the crack, and each node keeps the gradient
+   * of largest norm among its particles. At the nodes a broken particle reaches, the particles whose
+   * gradient points the other way (i.e. those on the other side of the crack) make up the second
+   * field. The fields then move independently, except for frictional contact (see _contactFields).
+   */
+  _partitionFields() {
+    const grid = this.grid;
+    const particles = this.particles;
+    const { mass: gMass, damage: gDamage, damageGrad: gDamageGrad, separable: gSeparable } = grid;
+    const { mass: pMass, damage: pDamage } = particles;
+    const cells = this._stencilCells;
+    const weights = this._weights;
+    const dweights = this._dweights;
+    const damageGrad = this._damageGrad;
+    const S = grid.stencilSize;
+    const numZ = grid.is2D ? 1 : S;
+
+    // Mass-weighted mean damage of each node, the mass is only needed to average it and is
+    // transferred again with the momentum
+    for (let i = 0; i < particles.count; i++) {
+      if (!particles.active[i]) { continue; }
+      const wOffset = 3 * S * i;
+      const m = pMass[i], md = pMass[i] * pDamage[i];
+      let c = S * S * S * i;
+      for (let gx = 0; gx < S; gx++) {
+        for (let gy = 0; gy < S; gy++) {
+          for (let gz = 0; gz < numZ; gz++) {
+            const weight = weights[wOffset + gx] * weights[wOffset + S + gy] * weights[wOffset + 2*S + gz];
+            const cellIdx = cells[c++];
+            gMass[cellIdx] += weight * m;
+            gDamage[cellIdx] += weight * md;
           }
         }
       }
     }
-  }
+    for (let n = 0; n < grid.numCells; n++) {
+      if (gMass[n] > 0) {
+        gDamage[n] /= gMass[n];
+      }
+    }
+    gMass.fill(0, 0, grid.numCells);
 
+    for (let i = 0; i < particles.count; i++) {
+      if (!particles.active[i]) { continue; }
+      const wOffset = 3 * S * i;
+      const first = S * S * S * i;
 
-  _updateGrid(dt: number) {
-    const idx = new THREE.Vector3();
-    for (let x = 0; x < this.grid.size.x; x++) {
-      for (let y = 0; y < this.grid.size.y; y++) {
-        for (let z = 0; z < this.grid.size.z; z++) {
-          idx.set(x, y, z);
-          const cell = this.grid.getCell(idx);
-
-          if (cell.mass <= 0) {
-            cell.clear();
-            continue;
+      // grad(D_p) = sum of D_i * grad(w_ip)
+      let dx = 0, dy = 0, dz = 0;
+      let c = first;
+      for (let gx = 0; gx < S; gx++) {
+        const wx = weights[wOffset + gx], dwx = dweights[wOffset + gx];
+        for (let gy = 0; gy < S; gy++) {
+          const wy = weights[wOffset + S + gy], dwy = dweights[wOffset + S + gy];
+          for (let gz = 0; gz < numZ; gz++) {
+            const wz = weights[wOffset + 2*S + gz], dwz = dweights[wOffset + 2*S + gz];
+            const damage = gDamage[cells[c++]];
+            dx += damage * dwx * wy * wz; dy += damage * wx * dwy * wz; dz += damage * wx * wy * dwz;
           }
+        }
+      }
+      damageGrad[3*i] = dx; damageGrad[3*i + 1] = dy; damageGrad[3*i + 2] = dz;
+
+      const normSq = dx * dx + dy * dy + dz * dz;
+      const broken = pDamage[i] >= SEPARATION_DAMAGE;
+      c = first;
+      for (let gx = 0; gx < S; gx++) {
+        for (let gy = 0; gy < S; gy++) {
+          for (let gz = 0; gz < numZ; gz++) {
+            const weight = weights[wOffset + gx] * weights[wOffset + S + gy] * weights[wOffset + 2*S + gz];
+            const cellIdx = cells[c++];
+            if (weight <= 0) { continue; }
+            const gdx = gDamageGrad[3*cellIdx], gdy = gDamageGrad[3*cellIdx + 1], gdz = gDamageGrad[3*cellIdx + 2];
+            if (normSq > gdx * gdx + gdy * gdy + gdz * gdz) {
+              gDamageGrad[3*cellIdx] = dx; gDamageGrad[3*cellIdx + 1] = dy; gDamageGrad[3*cellIdx + 2] = dz;
+            }
+            if (broken) {
+              gSeparable[cellIdx] = 1;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  _particleToGrid() {
+    this._activateGridBlocks();
+    this._heatTransfer = this.heatSources.length > 0 || this.particles.conductivity.subarray(0, this.particles.count).some((k) => k > 0);
+    this._fracture = this.particles.damage.subarray(0, this.particles.count).some((d) => d >= SEPARATION_DAMAGE);
+    if (this._fracture) {
+      this._partitionFields();
+    }
+
+    const grid = this.grid;
+    const particles = this.particles;
+    const { mass: gMass, mv: gMv, force: gForce } = grid;
+    const { mass2: gMass2, mv2: gMv2, force2: gForce2, separable: gSeparable, damageGrad: gDamageGrad } = grid;
+    const { heatCapacity: gHeatCapacity, temperature: gTemperature, conductance: gConductance, heatFlow: gHeatFlow } = grid;
+    const { pos: pPos, vel: pVel, B: pB, mass: pMass, volume0: pVolume0, J: pJ } = particles;
+    const { temperature: pTemperature, heatCapacity: pHeatCapacity, conductivity: pConductivity, temperatureGrad: pTemperatureGrad } = particles;
+
+    const base = this._stencilBase;
+    const cells = this._stencilCells;
+    const weights = this._weights;
+    const dweights = this._dweights;
+
+    const is2D = grid.is2D;
+    const h = grid.cellSize;
+    const ox = grid.leftBottomBackPos.x, oy = grid.leftBottomBackPos.y, oz = grid.leftBottomBackPos.z;
+    const S = grid.stencilSize;
+    const numZ = is2D ? 1 : S;
+
+    // APIC: C = B * D^-1, where D = inertiaScale * h^2 * I for B-spline kernels
+    const Dinv = 1 / (grid.kernel.inertiaScale * h * h);
+
+    const heatTransfer = this._heatTransfer;
+    const fracture = this._fracture;
+    const damageGrad = this._damageGrad;
+    const p = this._particle;
+    const stress = this._stress.elements;
+    let totalMass = 0;
+    let numActive = 0;
+    for (let i = 0; i < particles.count; i++) {
+      if (!particles.active[i]) { continue; }
+      numActive++;
+      const px = pPos[3*i], py = pPos[3*i + 1], pz = pPos[3*i + 2];
+      const wOffset = 3 * S * i;
+
+      // Internal force contribution: f_i = -V0 * tau * grad(w_ip)
+      particles.getMaterialState(i, p);
+      p.material.kirchhoffStress(p, this._stress).multiplyScalar(-pVolume0[i]);
+
+      const m = pMass[i];
+      totalMass += m;
+      const vx = pVel[3*i], vy = pVel[3*i + 1], vz = pVel[3*i + 2];
+      const b = 9*i;
+      const c00 = pB[b]*Dinv,   c10 = pB[b+1]*Dinv, c20 = pB[b+2]*Dinv;
+      const c01 = pB[b+3]*Dinv, c11 = pB[b+4]*Dinv, c21 = pB[b+5]*Dinv;
+      const c02 = pB[b+6]*Dinv, c12 = pB[b+7]*Dinv, c22 = pB[b+8]*Dinv;
+
+      // Heat capacity m * c, thermal energy m * c * T and conductance k * V, and the heat conducted
+      // into node i, q_i = -V * k * grad(T) . grad(w_ip), V being the current volume
+      const heatCapacity = m * pHeatCapacity[i];
+      const heat = heatCapacity * pTemperature[i];
+      const kV = pConductivity[i] * pVolume0[i] * pJ[i];
+      const qx = -kV * pTemperatureGrad[3*i], qy = -kV * pTemperatureGrad[3*i + 1], qz = -kV * pTemperatureGrad[3*i + 2];
+      const ddx = damageGrad[3*i], ddy = damageGrad[3*i + 1], ddz = damageGrad[3*i + 2];
+
+      const bx = base[3*i], by = base[3*i + 1], bz = base[3*i + 2];
+      let c = S * S * S * i;
+      for (let gx = 0; gx < S; gx++) {
+        const cx = bx + gx;
+        const wx = weights[wOffset + gx], dwx = dweights[wOffset + gx];
+        const dx = (cx + 0.5) * h + ox - px;
+
+        for (let gy = 0; gy < S; gy++) {
+          const cy = by + gy;
+          const wy = weights[wOffset + S + gy], dwy = dweights[wOffset + S + gy];
+          const dy = (cy + 0.5) * h + oy - py;
 
-          cell.vel = cell.mv.clone().divideScalar(cell.mass);
-          // cell.vel += dt * (cell.force / cell.mass + EXTERNAL_FORCE);
-          cell.vel.add(cell.force.clone().divideScalar(cell.mass).add(GRAVITY).multiplyScalar(dt));
+          for (let gz = 0; gz < numZ; gz++) {
+            const cz = bz + gz;
+            const wz = weights[wOffset + 2*S + gz], dwz = dweights[wOffset + 2*S + gz];
+            // NOTE: In 2D the z offset between the particle and the node is ignored
+            const dz = is2D ? 0 : (cz + 0.5) * h + oz - pz;
 
-          // This is where we need to see if the cell is at a boundary
-          // and apply boundary conditions to the velocity.
-          // TODO: This is a hack currently, fix it.
-          if (x < 2 || x >= this.grid.size.x - 2) {
-            cell.vel.x = 0;
+            const weight = wx * wy * wz;
+            const gradX = dwx * wy * wz, gradY = wx * dwy * wz, gradZ = wx * wy * dwz;
+            const cellIdx = cells[c++];
+            const wm = weight * m;
+
+            // The particles on the other side of a crack transfer to the second field, see _partitionFields
+            const second = fracture && gSeparable[cellIdx] !== 0 &&
+              ddx * gDamageGrad[3*cellIdx] + ddy * gDamageGrad[3*cellIdx + 1] + ddz * gDamageGrad[3*cellIdx + 2] < 0;
+            const fieldMass = second ? gMass2 : gMass, fieldMv = second ? gMv2 : gMv, fieldForce = second ? gForce2 : gForce;
+
+            fieldMass[cellIdx] += wm;
+            // mv += w * m * (v + C * (x_i - x_p))
+            fieldMv[3*cellIdx]     += wm * (vx + c00*dx + c01*dy + c02*dz);
+            fieldMv[3*cellIdx + 1] += wm * (vy + c10*dx + c11*dy + c12*dz);
+            fieldMv[3*cellIdx + 2] += wm * (vz + c20*dx + c21*dy + c22*dz);
+            // force += (-V0 * tau) * grad(w_ip)
+            fieldForce[3*cellIdx]     += stress[0]*gradX + stress[3]*gradY + stress[6]*gradZ;
+            fieldForce[3*cellIdx + 1] += stress[1]*gradX + stress[4]*gradY + stress[7]*gradZ;
+            fieldForce[3*cellIdx + 2] += stress[2]*gradX + stress[5]*gradY + stress[8]*gradZ;
+
+            if (heatTransfer) {
+              gHeatCapacity[cellIdx] += weight * heatCapacity;
+              gTemperature[cellIdx] += weight * heat;
+              gConductance[cellIdx] += weight * kV;
+              gHeatFlow[cellIdx] += qx*gradX + qy*gradY + qz*gradZ;
+            }
           }
-          if (y < 2 || y >= this.grid.size.y - 2) {
-            cell.vel.y = 0;
+        }
+      }
+    }
+    this._minForceMass = numActive > 0 ? grid.kernel.minForceMassFraction * totalMass / numActive : 0;
+  }
+
+  _updateGrid(dt: number) {
+    const grid = this.grid;
+    const { mass: gMass, mv: gMv, vel: gVel, force: gForce, heatCapacity: gHeatCapacity, temperature: gTemperature, heatFlow: gHeatFlow } = grid;
+    const { mass2: gMass2, mv2: gMv2, vel2: gVel2, force2: gForce2 } = grid;
+    const cellsPerBlock = grid.cellsPerBlock;
+    const cellPos = this._cellPos;
+    const cellVel = this._cellVel;
+    const cellVel2 = _cellVel2;
+    const heatSources = this.heatSources;
+    const heatTransfer = this._heatTransfer;
+    // The velocities the rigid bodies impose depend on all the nodes they cover, so with bodies
+    // the boundary conditions are applied in a second pass
+    const bodies = this.rigidBodies;
+    for (const body of bodies) {
+      body.beginStep(dt, this._bodyAcceleration(body, dt, _bodyAcceleration));
+    }
+
+    for (let block = 0; block < grid.numBlocks; block++) {
+      for (let local = 0; local < cellsPerBlock; local++) {
+        const cellIdx = block * cellsPerBlock + local;
+        // Only the nodes along cracks have material in the second field, see _partitionFields
+        const mass = gMass[cellIdx];
+        const mass2 = gMass2[cellIdx];
+        if (mass <= 0 && mass2 <= 0) {
+          continue;
+        }
+
+        this._cellCenter(block, local, cellPos);
+
+        // The temperature at the start of the step, and its change over the step in heatFlow
+        if (heatTransfer) {
+          const heatCapacity = gHeatCapacity[cellIdx];
+          const temperature = gTemperature[cellIdx] / heatCapacity;
+          let temperatureChange = dt * gHeatFlow[cellIdx] / heatCapacity;
+          for (const source of heatSources) {
+            temperatureChange += source.temperatureChange(cellPos, temperature + temperatureChange, dt, grid.is2D);
           }
-          if (!this.grid.is2D && (z < 2 || z >= this.grid.size.z - 2)) {
-            cell.vel.z = 0;
+          gTemperature[cellIdx] = temperature;
+          gHeatFlow[cellIdx] = temperatureChange;
+        }
+
+        if (mass > 0) {
+          this._fieldVelocity(cellIdx, cellPos, mass, gMv, gForce, dt, cellVel);
+        }
+        if (mass2 > 0) {
+          this._fieldVelocity(cellIdx, cellPos, mass2, gMv2, gForce2, dt, cellVel2);
+          if (mass > 0) {
+            this._contactFields(cellIdx, mass, cellVel, mass2, cellVel2);
           }
         }
+        if (mass > 0) {
+          this._constrainNode(cellPos, cellVel, mass, dt);
+          cellVel.toArray(gVel, 3*cellIdx);
+        }
+        if (mass2 > 0) {
+          this._constrainNode(cellPos, cellVel2, mass2, dt);
+          cellVel2.toArray(gVel2, 3*cellIdx);
+        }
+      }
+    }
+    if (bodies.length === 0) { return; }
+
+    for (const body of bodies) {
+      body.predictVelocity(grid.is2D);
+    }
+    for (let block = 0; block < grid.numBlocks; block++) {
+      for (let local = 0; local < cellsPerBlock; local++) {
+        const cellIdx = block * cellsPerBlock + local;
+        const mass = gMass[cellIdx];
+        const mass2 = gMass2[cellIdx];
+        if (mass <= 0 && mass2 <= 0) {
+          continue;
+        }
+        this._cellCenter(block, local, cellPos);
+        if (mass > 0) {
+          cellVel.fromArray(gVel, 3*cellIdx);
+          this._applyBoundaryConditions(cellPos, cellVel, mass, dt);
+          cellVel.toArray(gVel, 3*cellIdx);
+        }
+        if (mass2 > 0) {
+          cellVel2.fromArray(gVel2, 3*cellIdx);
+          this._applyBoundaryConditions(cellPos, cellVel2, mass2, dt);
+          cellVel2.toArray(gVel2, 3*cellIdx);
+        }
       }
     }
   }
 
-  _gridToParticle(dt: number) {
-    const outerMulVec3 = (v1: THREE.Vector3, v2: THREE.Vector3) => {
-      return new THREE.Matrix3(
-        v1.x * v2.x, v1.x * v2.y, v1.x * v2.z,
-        v1.y * v2.x, v1.y * v2.y, v1.y * v2.z,
-        v1.z * v2.x, v1.z * v2.y, v1.z * v2.z
-      );
-    };
-    const addInPlaceMatrix3 = (m1: THREE.Matrix3, m2: THREE.Matrix3) => {
-      m1.set(
-        m1.elements[0] + m2.elements[0], m1.elements[1] + m2.elements[1], m1.elements[2] + m2.elements[2],
-        m1.elements[3] + m2.elements[3], m1.elements[4] + m2.elements[4], m1.elements[5] + m2.elements[5],
-        m1.elements[6] + m2.elements[6], m1.elements[7] + m2.elements[7], m1.elements[8] + m2.elements[8]
-      );
+  /**
+   * Computes the velocity of a field of a node at the end of the step from its momentum, the
+   * internal forces, gravity, the force fields and the brush.
+   * @returns The velocity in out.
+   */
+  _fieldVelocity(
+    cellIdx: number, cellPos: THREE.Vector3, mass: number, mv: Float64Array, force: Float64Array, dt: number,
+    out: THREE.Vector3
+  ): THREE.Vector3 {
+    const gravity = this.gravity;
+    const is2D = this.grid.is2D;
+    // vel = mv / mass + dt * (force / mass + EXTERNAL_FORCE)
+    const invMass = 1.0 / mass;
+    const forceScale = mass < this._minForceMass ? 0 : invMass;
+    out.set(
+      mv[3*cellIdx]     * invMass + dt * (force[3*cellIdx]     * forceScale + gravity.x),
+      mv[3*cellIdx + 1] * invMass + dt * (force[3*cellIdx + 1] * forceScale + gravity.y),
+      mv[3*cellIdx + 2] * invMass + dt * (force[3*cellIdx + 2] * forceScale + gravity.z)
+    );
+    for (const field of this.forceFields) {
+      field.apply(cellPos, out, dt, this.time, is2D);
     }
+    this.brush?.apply(cellPos, out, dt, is2D);
+    return out;
+  }
 
-    const gridBounds = this.grid.getBounds();
-    for (const p of this.particles) {
-      p.vel = ZeroVector3();
-      p.B = ZeroMatrix3();
-
-      const gridIdx = this.grid.cellPositionToIndex(p.pos);
-      // Loops over the 3x3 matrix of the grid cells surrounding the particle
-      const gzInit = this.grid.is2D ? 0 : -1;
-      const gzEnd = this.grid.is2D ? 0 : 1;
-      const delta = new THREE.Vector3();
-      const idx = new THREE.Vector3();
-      for (let gx = -1; gx <= 1; ++gx) {
-        for (let gy = -1; gy <= 1; ++gy) {
-          for (let gz = gzInit; gz <= gzEnd; ++gz) {
-            delta.set(gx, gy, gz);
-            idx.addVectors(gridIdx, delta);
-            if (!this.grid.isValidCellIndex(idx.x, idx.y, idx.z)) {
-              continue;
-            }
+  /**
+   * Frictional contact between the two fields of a node along a crack. The sides of the crack are
+   * free to move apart, but where they move towards each other they lose their relative normal
+   * velocity and friction slows down their sliding, which conserves the momentum of the node.
+   * The normal is the node's damage gradient, pointing from the first field towards the second.
+   */
+  _contactFields(cellIdx: number, mass: number, vel: THREE.Vector3, mass2: number, vel2: THREE.Vector3) {
+    const normal = _crackNormal.fromArray(this.grid.damageGrad, 3*cellIdx);
+    const length = normal.length();
+    if (length === 0) { return; }
+    normal.divideScalar(length);
+    const relVel = _relVel.subVectors(vel, vel2);
+    const approach = relVel.dot(normal);
+    if (approach <= 0) { return; }
+    // Coulomb friction on the tangential relative velocity
+    relVel.addScaledVector(normal, -approach);
+    const slip = relVel.length();
+    relVel.multiplyScalar(slip > 0 ? Math.max(0, 1 - CRACK_FRICTION * approach / slip) : 0);
+    const totalMass = mass + mass2;
+    const centerVel = _centerVel.copy(vel).multiplyScalar(mass).addScaledVector(vel2, mass2).divideScalar(totalMass);
+    vel.copy(centerVel).addScaledVector(relVel, mass2 / totalMass);
+    vel2.copy(centerVel).addScaledVector(relVel, -mass / totalMass);
+  }
+
+  // Without rigid bodies the boundary conditions apply right away, otherwise the bodies first
+  // gather the momentum of the node (see _updateGrid)
+  _constrainNode(cellPos: THREE.Vector3, cellVel: THREE.Vector3, mass: number, dt: number) {
+    if (this.rigidBodies.length === 0) {
+      this._applyBoundaryConditions(cellPos, cellVel, mass, dt);
+      return;
+    }
+    for (const body of this.rigidBodies) {
+      body.gatherNode(cellPos, cellVel, mass);
+    }
+  }
+
+  // The rigid bodies exchange momentum with the cell, then the static colliders and the walls
+  // apply their boundary conditions to the cell velocity
+  _applyBoundaryConditions(cellPos: THREE.Vector3, cellVel: THREE.Vector3, mass: number, dt: number) {
+    for (const body of this.rigidBodies) {
+      body.couple(cellPos, cellVel, mass, dt);
+    }
+    for (const collider of this.colliders) {
+      collider.collide(cellPos, cellVel);
+    }
+    for (const wall of this.domainWalls) {
+      wall.collide(cellPos, cellVel);
+    }
+  }
+
+  /**
+   * The force fields act on a rigid body as on the material at its center of mass.
+   * @returns The acceleration of the body from gravity and the force fields over the step, in out.
+   */
+  _bodyAcceleration(body: RigidBody, dt: number, out: THREE.Vector3): THREE.Vector3 {
+    out.copy(this.gravity);
+    if (this.forceFields.length === 0) { return out; }
+    _bodyVel.copy(body.linearVelocity);
+    for (const field of this.forceFields) {
+      field.apply(body.position, _bodyVel, dt, this.time, this.grid.is2D);
+    }
+    return out.addScaledVector(_bodyVel.sub(body.linearVelocity), 1 / dt);
+  }
+
+  /**
+   * @returns The position of the center of the cell at the given index within an active block, in out.
+   */
+  _cellCenter(block: number, local: number, out: THREE.Vector3): THREE.Vector3 {
+    const grid = this.grid;
+    const shift = BLOCK_SHIFT, mask = BLOCK_MASK;
+    const h = grid.cellSize;
+    const x = (grid.blockCoords[3*block] << shift) + (local & mask);
+    const y = (grid.blockCoords[3*block + 1] << shift) + ((local >> shift) & mask);
+    const z = (grid.blockCoords[3*block + 2] << shift) + (local >> (2 * shift));
+    // NOTE: In 2D the nodes are at the grid's z, like the particles, otherwise the normals of curved
+    // colliders would get an out-of-plane component
+    return out.set((x + 0.5) * h, (y + 0.5) * h, grid.is2D ? 0 : (z + 0.5) * h).add(grid.leftBottomBackPos);
+  }
+
+  _gridToParticle(dt: number) {
+    const grid = this.grid;
+    const particles = this.particles;
+    const { vel: gVel, heatCapacity: gHeatCapacity, temperature: gTemperature, conductance: gConductance, heatFlow: gHeatFlow } = grid;
+    const { vel2: gVel2, separable: gSeparable, damageGrad: gDamageGrad } = grid;
+    const { pos: pPos, vel: pVel, B: pB, F: pF, J: pJ, velGrad: pVelGrad } = particles;
+    const { temperature: pTemperature, temperatureGrad: pTemperatureGrad } = particles;
+
+    const base = this._stencilBase;
+    const cells = this._stencilCells;
+    const weights = this._weights;
+    const dweights = this._dweights;
+
+    const is2D = grid.is2D;
+    const h = grid.cellSize;
+    const ox = grid.leftBottomBackPos.x, oy = grid.leftBottomBackPos.y, oz = grid.leftBottomBackPos.z;
+    const S = grid.stencilSize;
+    const numZ = is2D ? 1 : S;
+    // B = velGrad * D, so that the affine velocity C = B * D^-1 is the velocity gradient
+    const affineFromGradient = grid.kernel.affineFromGradient;
+    const D = grid.kernel.inertiaScale * h * h;
+    // The walls of a closed domain keep the particles in it, this stops those that would get through
+    // them in a single step within the padding around it. The particles that leave an open domain
+    // are only removed once they get too far for the grid to store.
+    const padding = DOMAIN_WALL_PADDING * h;
+    const clampBounds = this.isDomainOpen ? null :
+      _clampBounds.copy(this.domain).expandByVector(_padding.set(padding, padding, is2D ? 0 : padding));
+    const pos = this._cellPos;
+
+    const heatTransfer = this._heatTransfer;
+    const fracture = this._fracture;
+    const damageGrad = this._damageGrad;
+    const relaxationRate = dt / (h * h);
+    const p = this._particle;
+    for (let i = 0; i < particles.count; i++) {
+      if (!particles.active[i]) { continue; }
+      const px = pPos[3*i], py = pPos[3*i + 1], pz = pPos[3*i + 2];
+      const wOffset = 3 * S * i;
+
+      let vx = 0, vy = 0, vz = 0;
+      let b00 = 0, b01 = 0, b02 = 0, b10 = 0, b11 = 0, b12 = 0, b20 = 0, b21 = 0, b22 = 0;
+      let g00 = 0, g01 = 0, g02 = 0, g10 = 0, g11 = 0, g12 = 0, g20 = 0, g21 = 0, g22 = 0;
+      let temperatureChange = 0, relaxation = 0, tx = 0, ty = 0, tz = 0;
+      const ddx = damageGrad[3*i], ddy = damageGrad[3*i + 1], ddz = damageGrad[3*i + 2];
+
+      const bx = base[3*i], by = base[3*i + 1], bz = base[3*i + 2];
+      let c = S * S * S * i;
+      for (let gx = 0; gx < S; gx++) {
+        const cx = bx + gx;
+        const wx = weights[wOffset + gx], dwx = dweights[wOffset + gx];
+        const dx = (cx + 0.5) * h + ox - px;
+
+        for (let gy = 0; gy < S; gy++) {
+          const cy = by + gy;
+          const wy = weights[wOffset + S + gy], dwy = dweights[wOffset + S + gy];
+          const dy = (cy + 0.5) * h + oy - py;
 
-            const weight = this.grid.getWeight(p.pos, delta);
-            const gridPos = this.grid.cellIndexToPosition(idx.x, idx.y, idx.z);
-            const cellVel = this.grid.getCell(idx).vel.clone();
-            p.vel.add(cellVel.multiplyScalar(weight));
+          for (let gz = 0; gz < numZ; gz++) {
+            const cz = bz + gz;
+            const wz = weights[wOffset + 2*S + gz], dwz = dweights[wOffset + 2*S + gz];
+            const dz = is2D ? 0 : (cz + 0.5) * h + oz - pz;
 
-            //p.B += w * Outer(vel, gpos - p.pos);
-            const m = outerMulVec3(cellVel, gridPos.sub(p.pos)).multiplyScalar(weight);
-            addInPlaceMatrix3(p.B, m);
+            const weight = wx * wy * wz;
+            const gradX = dwx * wy * wz, gradY = wx * dwy * wz, gradZ = wx * wy * dwz;
+            const cellIdx = cells[c++];
+            // Each particle moves with its own side of a crack, see _partitionFields
+            const second = fracture && gSeparable[cellIdx] !== 0 &&
+              ddx * gDamageGrad[3*cellIdx] + ddy * gDamageGrad[3*cellIdx + 1] + ddz * gDamageGrad[3*cellIdx + 2] < 0;
+            const fieldVel = second ? gVel2 : gVel;
+            const cvx = fieldVel[3*cellIdx], cvy = fieldVel[3*cellIdx + 1], cvz = fieldVel[3*cellIdx + 2];
+
+            vx += weight * cvx; vy += weight * cvy; vz += weight * cvz;
+
+            // B += w * Outer(vel, x_i - x_p)
+            const wvx = weight * cvx, wvy = weight * cvy, wvz = weight * cvz;
+            b00 += wvx * dx; b01 += wvx * dy; b02 += wvx * dz;
+            b10 += wvy * dx; b11 += wvy * dy; b12 += wvy * dz;
+            b20 += wvz * dx; b21 += wvz * dy; b22 += wvz * dz;
+
+            // velGrad += Outer(vel, grad(w_ip))
+            g00 += cvx * gradX; g01 += cvx * gradY; g02 += cvx * gradZ;
+            g10 += cvy * gradX; g11 += cvy * gradY; g12 += cvy * gradZ;
+            g20 += cvz * gradX; g21 += cvz * gradY; g22 += cvz * gradZ;
+
+            // The temperature change is gathered (FLIP), gathering the temperature itself would
+            // smooth it out every step. But the grid can't see the differences between the particles
+            // around the same nodes, so conduction evens these out: the particles also relax towards
+            // the node's temperature, at the rate heat diffuses across a cell. As the node's is their
+            // heat capacity weighted mean, this exchanges heat between them without creating any.
+            // Nodes out of the particle's reach may have no heat capacity, and no temperature.
+            if (heatTransfer && weight > 0) {
+              const temperature = gTemperature[cellIdx];
+              const change = gHeatFlow[cellIdx];
+              const fraction = weight * Math.min(1, relaxationRate * gConductance[cellIdx] / gHeatCapacity[cellIdx]);
+              temperatureChange += weight * change + fraction * temperature;
+              relaxation += fraction;
+              // Gradient of the temperature at the end of the step
+              const end = temperature + change;
+              tx += end * gradX; ty += end * gradY; tz += end * gradZ;
+            }
           }
         }
       }
-      p.pos.add(p.vel.clone().multiplyScalar(dt));
-      p.pos.max(gridBounds.min);
-      p.pos.min(gridBounds.max);
+
+      pVel[3*i] = vx; pVel[3*i + 1] = vy; pVel[3*i + 2] = vz;
+      if (heatTransfer) {
+        pTemperature[i] += temperatureChange - relaxation * pTemperature[i];
+        pTemperatureGrad[3*i] = tx; pTemperatureGrad[3*i + 1] = ty; pTemperatureGrad[3*i + 2] = tz;
+      }
+
+      if (affineFromGradient) {
+        b00 = g00 * D; b01 = g01 * D; b02 = g02 * D;
+        b10 = g10 * D; b11 = g11 * D; b12 = g12 * D;
+        b20 = g20 * D; b21 = g21 * D; b22 = g22 * D;
+      }
+
+      // Matrices are stored column-major
+      const m = 9*i;
+      pB[m]   = b00; pB[m+1] = b10; pB[m+2] = b20;
+      pB[m+3] = b01; pB[m+4] = b11; pB[m+5] = b21;
+      pB[m+6] = b02; pB[m+7] = b12; pB[m+8] = b22;
+      pVelGrad[m]   = g00; pVelGrad[m+1] = g10; pVelGrad[m+2] = g20;
+      pVelGrad[m+3] = g01; pVelGrad[m+4] = g11; pVelGrad[m+5] = g21;
+      pVelGrad[m+6] = g02; pVelGrad[m+7] = g12; pVelGrad[m+8] = g22;
+
+      // F = (I + dt * velGrad) * F
+      for (let col = 0; col < 3; col++) {
+        const f0 = pF[m + 3*col], f1 = pF[m + 3*col + 1], f2 = pF[m + 3*col + 2];
+        pF[m + 3*col]     = f0 + dt * (g00*f0 + g01*f1 + g02*f2);
+        pF[m + 3*col + 1] = f1 + dt * (g10*f0 + g11*f1 + g12*f2);
+        pF[m + 3*col + 2] = f2 + dt * (g20*f0 + g21*f1 + g22*f2);
+      }
+      // J = (1 + dt * trace(velGrad)) * J
+      pJ[i] *= 1 + dt * (g00 + g11 + g22);
+
+      const material = particles.material[i];
+      if (material.hasPlasticity) {
+        particles.getMaterialState(i, p);
+        material.applyPlasticity(p, is2D);
+        particles.setMaterialState(i, p);
+      }
+
+      pos.set(px + dt * vx, py + dt * vy, pz + dt * vz);
+      if (clampBounds) {
+        clampBounds.clampPoint(pos, pos);
+      }
+      else if (!grid.isAddressable(pos)) {
+        particles.deactivate(i);
+      }
+      pos.toArray(pPos, 3*i);
     }
   }
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,638 @@
+import * as THREE from 'three';
+import { polarRotation3, svd3 } from '../MathUtils';
+import type { Particle } from "./Particles";
+
+const _R = new THREE.Matrix3();
+const _FT = new THREE.Matrix3();
+const _U = new THREE.Matrix3();
+const _V = new THREE.Matrix3();
+const _sigma = new THREE.Vector3();
+const _eps = new Float64Array(3);
+const _devEps = new Float64Array(3);
+
+// out = U * diag(sigma) * V^T
+const composeSVD = (U: THREE.Matrix3, sigma: THREE.Vector3, V: THREE.Matrix3, out: THREE.Matrix3) => {
+  const ue = U.elements;
+  return out.set(
+    ue[0] * sigma.x, ue[3] * sigma.y, ue[6] * sigma.z,
+    ue[1] * sigma.x, ue[4] * sigma.y, ue[7] * sigma.z,
+    ue[2] * sigma.x, ue[5] * sigma.y, ue[8] * sigma.z
+  ).multiply(_FT.copy(V).transpose());
+};
+
+// tau = 2mu(F - R)F^T + lambda(J - 1)J I
+const fixedCorotatedKirchhoffStress = (F: THREE.Matrix3, mu: number, lambda: number, out: THREE.Matrix3) => {
+  const J = F.determinant();
+  polarRotation3(F, _R);
+  _FT.copy(F).transpose();
+
+  // 2mu(F - R)F^T
+  const fe = F.elements;
+  const re = _R.elements;
+  out.set(
+    fe[0] - re[0], fe[3] - re[3], fe[6] - re[6],
+    fe[1] - re[1], fe[4] - re[4], fe[7] - re[7],
+    fe[2] - re[2], fe[5] - re[5], fe[8] - re[8]
+  ).multiply(_FT).multiplyScalar(2 * mu);
+
+  const diag = lambda * (J - 1) * J;
+  const oe = out.elements;
+  oe[0] += diag; oe[4] += diag; oe[8] += diag;
+  return out;
+};
+
+// Psi = mu * |F - R|^2 + lambda / 2 * (J - 1)^2
+const fixedCorotatedEnergyDensity = (F: THREE.Matrix3, mu: number, lambda: number): number => {
+  const J = F.determinant();
+  polarRotation3(F, _R);
+  const fe = F.elements;
+  const re = _R.elements;
+  let normSq = 0;
+  for (let k = 0; k < 9; k++) {
+    normSq += (fe[k] - re[k]) * (fe[k] - re[k]);
+  }
+  return mu * normSq + 0.5 * lambda * (J - 1) * (J - 1);
+};
+
+export abstract class Material {
+  /**
+   * Computes the Kirchhoff stress (tau = P * F^T) for the given particle, where P is the
+   * first Piola-Kirchhoff stress. The internal force on grid node i is then -V0 * tau * grad(w_ip).
+   * @returns The given output matrix.
+   */
+  abstract kirchhoffStress(p: Particle, out: THREE.Matrix3): THREE.Matrix3;
+
+  /**
+   * Projects the (trial) deformation gradient of the given particle back onto the
+   * elastic region of the material, or updates its damage. Called right after F is updated from the grid.
+   * @param is2D Whether the simulation is 2D, in which case the z axis of F must be left untouched.
+   */
+  applyPlasticity(p: Particle, is2D: boolean): void {}
+
+  // Whether applyPlasticity needs to be called, lets the solver skip it for purely elastic materials
+  get hasPlasticity(): boolean {
+    return false;
+  }
+
+  /**
+   * @returns The speed at which stress waves travel through the material at the given particle's
+   * current state, used to limit the time step (CFL condition). Materials without stress return 0.
+   */
+  waveSpeed(p: Particle): number {
+    return 0;
+  }
+
+  /**
+   * @returns The elastic potential energy per unit of initial volume (Psi) stored in the given
+   * particle's deformation, used by the diagnostics. Materials without stress return 0.
+   */
+  strainEnergyDensity(p: Particle): number {
+    return 0;
+  }
+
+  /**
+   * @returns The plain-data descriptor that createMaterial() turns back into an equivalent material.
+   */
+  abstract toDescriptor(): MaterialDescriptor;
+}
+
+// Current density of a particle, tracked through its volume ratio J: rho = mass / (V0 * J)
+const currentDensity = (p: Particle): number => p.mass / (p.volume0 * Math.max(p.J, 1e-6));
+
+/**
+ * Pressureless material, particles only interact through the grid velocities.
+ */
+export class DustMaterial extends Material {
+  kirchhoffStress(p: Particle, out: THREE.Matrix3): THREE.Matrix3 {
+    return out.set(0,0,0, 0,0,0, 0,0,0);
+  }
+
+  toDescriptor(): MaterialDescriptor {
+    return { type: "dust" };
+  }
+}
+
+export abstract class ElasticMaterial extends Material {
+  youngsModulus: number; // E
+  poissonRatio: number;  // nu
+
+  constructor(youngsModulus: number, poissonRatio: number) {
+    super();
+    console.assert(youngsModulus > 0, "Young's modulus must be greater than 0");
+    console.assert(poissonRatio >= 0 && poissonRatio < 0.5, "Poisson ratio must be in [0, 0.5)");
+    this.youngsModulus = youngsModulus;
+    this.poissonRatio = poissonRatio;
+  }
+
+  // Lamé parameters
+  get mu(): number {
+    return this.youngsModulus / (2 * (1 + this.poissonRatio));
+  }
+  get lambda(): number {
+    const nu = this.poissonRatio;
+    return this.youngsModulus * nu / ((1 + nu) * (1 - 2 * nu));
+  }
+
+  // Dilatational (P-wave) speed, the fastest wave in a linear elastic solid: sqrt((lambda + 2mu) / rho)
+  waveSpeed(p: Particle): number {
+    return Math.sqrt((this.lambda + 2 * this.mu) / currentDensity(p));
+  }
+}
+
+/**
+ * Fixed-corotated hyperelasticity, see section 6.3 of
+ * https://www.math.ucla.edu/~cffjiang/research/mpmcourse/mpmcourse.pdf
+ * P = 2mu(F - R) + lambda(J - 1)J F^-T  =>  tau = 2mu(F - R)F^T + lambda(J - 1)J I
+ */
+export class FixedCorotatedMaterial extends ElasticMaterial {
+  constructor(youngsModulus = 1000, poissonRatio = 0.3) {
+    super(youngsModulus, poissonRatio);
+  }
+
+  kirchhoffStress(p: Particle, out: THREE.Matrix3): THREE.Matrix3 {
+    return fixedCorotatedKirchhoffStress(p.F, this.mu, this.lambda, out);
+  }
+
+  strainEnergyDensity(p: Particle): number {
+    return fixedCorotatedEnergyDensity(p.F, this.mu, this.lambda);
+  }
+
+  toDescriptor(): MaterialDescriptor {
+    return { type: "fixedCorotated", youngsModulus: this.youngsModulus, poissonRatio: this.poissonRatio };
+  }
+}
+
+/**
+ * Compressible Neo-Hookean hyperelasticity, see section 6.2 of
+ * https://www.math.ucla.edu/~cffjiang/research/mpmcourse/mpmcourse.pdf
+ * P = mu(F - F^-T) + lambda log(J) F^-T  =>  tau = mu(F F^T - I) + lambda log(J) I
+ */
+export class NeoHookeanMaterial extends ElasticMaterial {
+  constructor(youngsModulus = 1000, poissonRatio = 0.3) {
+    super(youngsModulus, poissonRatio);
+  }
+
+  kirchhoffStress(p: Particle, out: THREE.Matrix3): THREE.Matrix3 {
+    const F = p.F;
+    const J = Math.max(F.determinant(), 1e-6);
+    _FT.copy(F).transpose();
+    out.copy(F).multiply(_FT).multiplyScalar(this.mu);
+
+    const diag = this.lambda * Math.log(J) - this.mu;
+    const oe = out.elements;
+    oe[0] += diag; oe[4] += diag; oe[8] += diag;
+    return out;
+  }
+
+  // Psi = mu / 2 * (tr(F^T F) - 3) - mu * log(J) + lambda / 2 * log(J)^2
+  strainEnergyDensity(p: Particle): number {
+    const fe = p.F.elements;
+    let normSq = 0;
+    for (let k = 0; k < 9; k++) {
+      normSq += fe[k] * fe[k];
+    }
+    const logJ = Math.log(Math.max(p.F.determinant(), 1e-6));
+    return 0.5 * this.mu * (normSq - 3) - this.mu * logJ + 0.5 * this.lambda * logJ * logJ;
+  }
+
+  toDescriptor(): MaterialDescriptor {
+    return { type: "neoHookean", youngsModulus: this.youngsModulus, poissonRatio: this.poissonRatio };
+  }
+}
+
+/**
+ * Weakly compressible fluid with a Tait equation of state for pressure,
+ * p = stiffness * ((rho / restDensity)^gamma - 1), and a Newtonian viscous term.
+ * The density of a particle is tracked through its volume ratio J: rho = mass / (V0 * J).
+ */
+export class FluidMaterial extends Material {
+  restDensity: number;
+  stiffness: number; // Bulk modulus of the equation of state
+  gamma: number;     // Equation of state exponent (7 for water)
+  viscosity: number; // Dynamic viscosity
+
+  constructor(restDensity = 100, stiffness = 200, gamma = 3, viscosity = 0.1) {
+    super();
+    console.assert(restDensity > 0, "Rest density must be greater than 0");
+    console.assert(stiffness >= 0, "Stiffness must be non-negative");
+    console.assert(gamma >= 1, "Gamma must be at least 1");
+    console.assert(viscosity >= 0, "Viscosity must be non-negative");
+    this.restDensity = restDensity;
+    this.stiffness = stiffness;
+    this.gamma = gamma;
+    this.viscosity = viscosity;
+  }
+
+  pressure(p: Particle): number {
+    const density = currentDensity(p);
+    // NOTE: Negative pressures are clamped to avoid tensile clumping at the free surface
+    return Math.max(0, this.stiffness * (Math.pow(density / this.restDensity, this.gamma) - 1));
+  }
+
+  // Speed of sound c = sqrt(dp/drho) = sqrt(stiffness * gamma / restDensity * (rho / restDensity)^(gamma - 1))
+  waveSpeed(p: Particle): number {
+    const densityRatio = currentDensity(p) / this.restDensity;
+    return Math.sqrt(this.stiffness * this.gamma / this.restDensity * Math.pow(densityRatio, this.gamma - 1));
+  }
+
+  // tau = J * sigma = J * (-pressure * I + viscosity * (velGrad + velGrad^T))
+  kirchhoffStress(p: Particle, out: THREE.Matrix3): THREE.Matrix3 {
+    const J = p.J;
+    const ge = p.velGrad.elements;
+    const oe = out.elements;
+    const visc = this.viscosity * J;
+    for (let c = 0; c < 3; c++) {
+      for (let r = 0; r < 3; r++) {
+        oe[c*3 + r] = visc * (ge[c*3 + r] + ge[r*3 + c]);
+      }
+    }
+    const diag = -this.pressure(p) * J;
+    oe[0] += diag; oe[4] += diag; oe[8] += diag;
+    return out;
+  }
+
+  // Work done compressing the fluid from its rest volume, Psi = integral of pressure * dJ from J to
+  // the rest volume ratio. Expansion stores no energy since negative pressures are clamped.
+  strainEnergyDensity(p: Particle): number {
+    const restJ = p.mass / (p.volume0 * this.restDensity);
+    const J = Math.max(p.J, 1e-6);
+    if (J >= restJ) { return 0; }
+    const k = this.stiffness, gamma = this.gamma;
+    if (gamma === 1) {
+      return k * (restJ * Math.log(restJ / J) - restJ + J);
+    }
+    return k * ((Math.pow(restJ, gamma) * Math.pow(J, 1 - gamma) - restJ) / (gamma - 1) - restJ + J);
+  }
+
+  toDescriptor(): MaterialDescriptor {
+    const { restDensity, stiffness, gamma, viscosity } = this;
+    return { type: "fluid", restDensity, stiffness, gamma, viscosity };
+  }
+}
+
+/**
+ * Snow plasticity from "A material point method for snow simulation" (Stomakhin et al. 2013).
+ * The elastic part of the deformation gradient (stored in Particle.F) has its singular values
+ * clamped to [1 - criticalCompression, 1 + criticalStretch], the remainder is absorbed into the
+ * plastic volume ratio Particle.Jp, which hardens the fixed-corotated Lamé parameters.
+ */
+export class SnowMaterial extends ElasticMaterial {
+  criticalCompression: number; // theta_c
+  criticalStretch: number;     // theta_s
+  hardening: number;           // xi
+
+  constructor(
+    youngsModulus = 5000, poissonRatio = 0.2,
+    criticalCompression = 2.5e-2, criticalStretch = 7.5e-3, hardening = 10
+  ) {
+    super(youngsModulus, poissonRatio);
+    console.assert(criticalCompression > 0 && criticalCompression < 1, "Critical compression must be in (0, 1)");
+    console.assert(criticalStretch > 0, "Critical stretch must be greater than 0");
+    console.assert(hardening >= 0, "Hardening must be non-negative");
+    this.criticalCompression = criticalCompression;
+    this.criticalStretch = criticalStretch;
+    this.hardening = hardening;
+  }
+
+  // mu = mu0 * e^(xi(1 - Jp)), lambda = lambda0 * e^(xi(1 - Jp))
+  hardeningFactor(p: Particle): number {
+    // NOTE: Clamped so that extreme compaction/fracture can't make the material explode or vanish
+    return Math.min(5, Math.max(0.1, Math.exp(this.hardening * (1 - p.Jp))));
+  }
+
+  kirchhoffStress(p: Particle, out: THREE.Matrix3): THREE.Matrix3 {
+    const h = this.hardeningFactor(p);
+    return fixedCorotatedKirchhoffStress(p.F, this.mu * h, this.lambda * h, out);
+  }
+
+  strainEnergyDensity(p: Particle): number {
+    const h = this.hardeningFactor(p);
+    return fixedCorotatedEnergyDensity(p.F, this.mu * h, this.lambda * h);
+  }
+
+  // Hardening scales both Lamé parameters
+  waveSpeed(p: Particle): number {
+    return super.waveSpeed(p) * Math.sqrt(this.hardeningFactor(p));
+  }
+
+  toDescriptor(): MaterialDescriptor {
+    const { youngsModulus, poissonRatio, criticalCompression, criticalStretch, hardening } = this;
+    return { type: "snow", youngsModulus, poissonRatio, criticalCompression, criticalStretch, hardening };
+  }
+
+  get hasPlasticity(): boolean {
+    return true;
+  }
+
+  applyPlasticity(p: Particle, is2D: boolean): void {
+    svd3(p.F, _U, _sigma, _V);
+    const oldJ = _sigma.x * _sigma.y * _sigma.z;
+    _sigma.clampScalar(1 - this.criticalCompression, 1 + this.criticalStretch);
+    const newJ = _sigma.x * _sigma.y * _sigma.z;
+    p.Jp *= oldJ / newJ;
+    composeSVD(_U, _sigma, _V, p.F);
+  }
+}
+
+/**
+ * Drucker-Prager sand plasticity from "Drucker-Prager elastoplasticity for sand animation"
+ * (Klár et al. 2016). Elasticity is St. Venant-Kirchhoff in Hencky (log) strain and the return
+ * mapping projects the strain onto the Drucker-Prager cone given by the friction angle.
+ */
+export class SandMaterial extends ElasticMaterial {
+  frictionAngle: number; // In degrees
+
+  constructor(youngsModulus = 5000, poissonRatio = 0.3, frictionAngle = 30) {
+    super(youngsModulus, poissonRatio);
+    console.assert(frictionAngle >= 0 && frictionAngle < 90, "Friction angle must be in [0, 90)");
+    this.frictionAngle = frictionAngle;
+  }
+
+  toDescriptor(): MaterialDescriptor {
+    const { youngsModulus, poissonRatio, frictionAngle } = this;
+    return { type: "sand", youngsModulus, poissonRatio, frictionAngle };
+  }
+
+  get alpha(): number {
+    const sinPhi = Math.sin(THREE.MathUtils.degToRad(this.frictionAngle));
+    return Math.sqrt(2 / 3) * 2 * sinPhi / (3 - sinPhi);
+  }
+
+  // tau = U * (2mu * log(sigma) + lambda * tr(log(sigma)) * I) * U^T
+  kirchhoffStress(p: Particle, out: THREE.Matrix3): THREE.Matrix3 {
+    svd3(p.F, _U, _sigma, _V);
+    const ex = Math.log(Math.max(Math.abs(_sigma.x), 1e-6));
+    const ey = Math.log(Math.max(Math.abs(_sigma.y), 1e-6));
+    const ez = Math.log(Math.max(Math.abs(_sigma.z), 1e-6));
+    const twoMu = 2 * this.mu;
+    const trace = this.lambda * (ex + ey + ez);
+    _sigma.set(twoMu * ex + trace, twoMu * ey + trace, twoMu * ez + trace);
+    return composeSVD(_U, _sigma, _U, out);
+  }
+
+  // Psi = mu * tr(eps^2) + lambda / 2 * tr(eps)^2, eps being the Hencky strain
+  strainEnergyDensity(p: Particle): number {
+    svd3(p.F, _U, _sigma, _V);
+    const ex = Math.log(Math.max(Math.abs(_sigma.x), 1e-6));
+    const ey = Math.log(Math.max(Math.abs(_sigma.y), 1e-6));
+    const ez = Math.log(Math.max(Math.abs(_sigma.z), 1e-6));
+    const trace = ex + ey + ez;
+    return this.mu * (ex * ex + ey * ey + ez * ez) + 0.5 * this.lambda * trace * trace;
+  }
+
+  get hasPlasticity(): boolean {
+    return true;
+  }
+
+  applyPlasticity(p: Particle, is2D: boolean): void {
+    svd3(p.F, _U, _sigma, _V);
+    const eps = _eps;
+    eps[0] = Math.log(Math.max(Math.abs(_sigma.x), 1e-6));
+    eps[1] = Math.log(Math.max(Math.abs(_sigma.y), 1e-6));
+    eps[2] = Math.log(Math.max(Math.abs(_sigma.z), 1e-6));
+
+    // In 2D the singular direction aligned with z must stay undeformed, so it is excluded
+    const ve = _V.elements;
+    let zAxis = -1;
+    if (is2D) {
+      zAxis = 0;
+      for (let i = 1; i < 3; i++) {
+        if (Math.abs(ve[i*3 + 2]) > Math.abs(ve[zAxis*3 + 2])) { zAxis = i; }
+      }
+    }
+    const d = is2D ? 2 : 3;
+
+    let trace = 0;
+    for (let i = 0; i < 3; i++) {
+      if (i !== zAxis) { trace += eps[i]; }
+    }
+    const devEps = _devEps;
+    let devNormSq = 0;
+    for (let i = 0; i < 3; i++) {
+      devEps[i] = i === zAxis ? 0 : eps[i] - trace / d;
+      devNormSq += devEps[i] * devEps[i];
+    }
+    const devNorm = Math.sqrt(devNormSq);
+
+    if (devNorm <= 0 || trace > 0) {
+      // Case II: Volumetric expansion, the particle loses all stress
+      for (let i = 0; i < 3; i++) {
+        if (i !== zAxis) { eps[i] = 0; }
+      }
+    }
+    else {
+      const mu = this.mu;
+      const dGamma = devNorm + (d * this.lambda + 2 * mu) / (2 * mu) * trace * this.alpha;
+      if (dGamma <= 0) {
+        // Case I: Inside the yield surface, no plastic deformation
+        return;
+      }
+      // Case III: Project onto the yield surface
+      for (let i = 0; i < 3; i++) {
+        if (i !== zAxis) { eps[i] -= dGamma * devEps[i] / devNorm; }
+      }
+    }
+
+    _sigma.set(Math.exp(eps[0]), Math.exp(eps[1]), Math.exp(eps[2]));
+    composeSVD(_U, _sigma, _V, p.F);
+  }
+}
+
+/**
+ * Solid that softens into a viscous liquid as it heats up and freezes back as it cools down, e.g.
+ * wax or lava. The shear modulus fades out linearly over the melting range (centered on the melting
+ * point) while the bulk modulus stays, and the liquid only keeps the volumetric part of its
+ * deformation so that it freezes in whatever shape it flowed into. See "Augmented MPM for
+ * phase-change and varied materials" (Stomakhin et al. 2014).
+ * Elasticity is fixed-corotated, the liquid adds a Newtonian viscous term.
+ */
+export class MeltingMaterial extends ElasticMaterial {
+  meltingPoint: number;
+  meltingRange: number; // Width of the temperature range over which the solid softens
+  viscosity: number;    // Dynamic viscosity of the liquid
+
+  constructor(youngsModulus = 5000, poissonRatio = 0.3, meltingPoint = 60, meltingRange = 10, viscosity = 1) {
+    super(youngsModulus, poissonRatio);
+    console.assert(meltingRange >= 0, "Melting range must be non-negative");
+    console.assert(viscosity >= 0, "Viscosity must be non-negative");
+    this.meltingPoint = meltingPoint;
+    this.meltingRange = meltingRange;
+    this.viscosity = viscosity;
+  }
+
+  /**
+   * @returns The fraction of the particle that is liquid at its temperature, from 0 (solid) to 1.
+   */
+  liquidFraction(p: Particle): number {
+    if (this.meltingRange === 0) {
+      return p.temperature >= this.meltingPoint ? 1 : 0;
+    }
+    return THREE.MathUtils.clamp((p.temperature - this.meltingPoint) / this.meltingRange + 0.5, 0, 1);
+  }
+
+  // tau = fixed-corotated stress with mu * (1 - liquid) + liquid * viscosity * J * (velGrad + velGrad^T)
+  kirchhoffStress(p: Particle, out: THREE.Matrix3): THREE.Matrix3 {
+    const liquid = this.liquidFraction(p);
+    fixedCorotatedKirchhoffStress(p.F, this.mu * (1 - liquid), this.lambda, out);
+    if (liquid > 0) {
+      const ge = p.velGrad.elements;
+      const oe = out.elements;
+      const visc = liquid * this.viscosity * p.J;
+      for (let c = 0; c < 3; c++) {
+        for (let r = 0; r < 3; r++) {
+          oe[c*3 + r] += visc * (ge[c*3 + r] + ge[r*3 + c]);
+        }
+      }
+    }
+    return out;
+  }
+
+  strainEnergyDensity(p: Particle): number {
+    return fixedCorotatedEnergyDensity(p.F, this.mu * (1 - this.liquidFraction(p)), this.lambda);
+  }
+
+  toDescriptor(): MaterialDescriptor {
+    const { youngsModulus, poissonRatio, meltingPoint, meltingRange, viscosity } = this;
+    return { type: "melting", youngsModulus, poissonRatio, meltingPoint, meltingRange, viscosity };
+  }
+
+  get hasPlasticity(): boolean {
+    return true;
+  }
+
+  // The liquid forgets its shape: F = J^(1/d) * I, the z axis being left untouched in 2D
+  applyPlasticity(p: Particle, is2D: boolean): void {
+    if (this.liquidFraction(p) < 1) { return; }
+    const J = Math.max(p.F.determinant(), 1e-6);
+    const scale = Math.pow(J, is2D ? 1 / 2 : 1 / 3);
+    p.F.set(scale, 0, 0, 0, scale, 0, 0, 0, is2D ? 1 : scale);
+  }
+}
+
+/**
+ * Elastic solid that cracks under tension, with the continuum damage model of "CD-MPM: Continuum
+ * damage material point methods for dynamic fracture animation" (Wolper et al. 2019). A particle's
+ * damage grows once the largest principal stress of the intact material exceeds the tensile
+ * strength, and degrades its stiffness until it's fully broken at (1 + softening) times the
+ * strength. Broken material still resists compression, and the solver lets it separate into
+ * fragments (see MPMSystem._partitionFields). Elasticity is fixed-corotated.
+ */
+export class BrittleMaterial extends ElasticMaterial {
+  tensileStrength: number; // Cauchy stress at which the damage starts
+  softening: number;       // Stress beyond the strength (relative to it) that fully breaks the material
+
+  constructor(youngsModulus = 5000, poissonRatio = 0.2, tensileStrength = 50, softening = 0.5) {
+    super(youngsModulus, poissonRatio);
+    console.assert(tensileStrength > 0, "Tensile strength must be greater than 0");
+    console.assert(softening > 0, "Softening must be greater than 0");
+    this.tensileStrength = tensileStrength;
+    this.softening = softening;
+  }
+
+  // tau = (1 - d) * fixed-corotated stress, plus d * the pressure lambda(J - 1)J I when compressed (J < 1)
+  kirchhoffStress(p: Particle, out: THREE.Matrix3): THREE.Matrix3 {
+    fixedCorotatedKirchhoffStress(p.F, this.mu, this.lambda, out);
+    const d = p.damage;
+    if (d > 0) {
+      const J = p.F.determinant();
+      const pressure = J < 1 ? d * this.lambda * (J - 1) * J : 0;
+      out.multiplyScalar(1 - d);
+      const oe = out.elements;
+      oe[0] += pressure; oe[4] += pressure; oe[8] += pressure;
+    }
+    return out;
+  }
+
+  // The stiffness is degraded like the stress, so broken material pulled apart carries no waves
+  waveSpeed(p: Particle): number {
+    const d = p.damage;
+    const modulus = (1 - d) * (this.lambda + 2 * this.mu) + (p.J < 1 ? d * this.lambda : 0);
+    return Math.sqrt(modulus / currentDensity(p));
+  }
+
+  strainEnergyDensity(p: Particle): number {
+    const d = p.damage;
+    const J = p.F.determinant();
+    const compression = J < 1 ? 0.5 * this.lambda * (J - 1) * (J - 1) : 0;
+    return (1 - d) * fixedCorotatedEnergyDensity(p.F, this.mu, this.lambda) + d * compression;
+  }
+
+  toDescriptor(): MaterialDescriptor {
+    const { youngsModulus, poissonRatio, tensileStrength, softening } = this;
+    return { type: "brittle", youngsModulus, poissonRatio, tensileStrength, softening };
+  }
+
+  get hasPlasticity(): boolean {
+    return true;
+  }
+
+  // The damage only ever grows, from the principal stresses of the intact material:
+  // tau_i = 2mu(sigma_i - 1)sigma_i + lambda(J - 1)J for the singular values sigma_i of F
+  applyPlasticity(p: Particle, is2D: boolean): void {
+    if (p.damage >= 1) { return; }
+    svd3(p.F, _U, _sigma, _V);
+    const J = Math.max(_sigma.x * _sigma.y * _sigma.z, 1e-6);
+    const mu = this.mu;
+    const pressure = this.lambda * (J - 1) * J;
+    const maxStress = Math.max(
+      2 * mu * (_sigma.x - 1) * _sigma.x, 2 * mu * (_sigma.y - 1) * _sigma.y, 2 * mu * (_sigma.z - 1) * _sigma.z
+    ) + pressure;
+    // Cauchy stress sigma = tau / J
+    const excess = maxStress / (J * this.tensileStrength) - 1;
+    if (excess > 0) {
+      p.damage = Math.max(p.damage, Math.min(1, excess / this.softening));
+    }
+  }
+}
+
+/**
+ * Plain-data description of a material, used wherever materials have to be serialized
+ * (e.g., sent to a worker). Unspecified parameters take the defaults of the material's constructor.
+ */
+export type MaterialDescriptor =
+  | { type: "dust" }
+  | { type: "fixedCorotated", youngsModulus?: number, poissonRatio?: number }
+  | { type: "neoHookean", youngsModulus?: number, poissonRatio?: number }
+  | { type: "fluid", restDensity?: number, stiffness?: number, gamma?: number, viscosity?: number }
+  | {
+      type: "snow", youngsModulus?: number, poissonRatio?: number,
+      criticalCompression?: number, criticalStretch?: number, hardening?: number
+    }
+  | { type: "sand", youngsModulus?: number, poissonRatio?: number, frictionAngle?: number }
+  | {
+      type: "melting", youngsModulus?: number, poissonRatio?: number,
+      meltingPoint?: number, meltingRange?: number, viscosity?: number
+    }
+  | { type: "brittle", youngsModulus?: number, poissonRatio?: number, tensileStrength?: number, softening?: number };
+
+/**
+ * @returns A new material built from the given descriptor.
+ */
+export const createMaterial = (desc: MaterialDescriptor): Material => {
+  switch (desc.type) {
+    case "dust":
+      return new DustMaterial();
+    case "fixedCorotated":
+      return new FixedCorotatedMaterial(desc.youngsModulus, desc.poissonRatio);
+    case "neoHookean":
+      return new NeoHookeanMaterial(desc.youngsModulus, desc.poissonRatio);
+    case "fluid":
+      return new FluidMaterial(desc.restDensity, desc.stiffness, desc.gamma, desc.viscosity);
+    case "snow":
+      return new SnowMaterial(
+        desc.youngsModulus, desc.poissonRatio, desc.criticalCompression, desc.criticalStretch, desc.hardening
+      );
+    case "sand":
+      return new SandMaterial(desc.youngsModulus, desc.poissonRatio, desc.frictionAngle);
+    case "melting":
+      return new MeltingMaterial(
+        desc.youngsModulus, desc.poissonRatio, desc.meltingPoint, desc.meltingRange, desc.viscosity
+      );
+    case "brittle":
+      return new BrittleMaterial(desc.youngsModulus, desc.poissonRatio, desc.tensileStrength, desc.softening);
+    default: {
+      const unknown: never = desc;
+      throw new Error(`Unknown material type: ${(unknown as { type: string }).type}`);
+    }
+  }
+};
@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+import { Material } from "./Materials";
+import { Particle, ParticleSet } from "./Particles";
+
+// Scalar quantities per particle, used to color the particles when visualizing a simulation
+export type ParticleField =
+  | "speed"        // Magnitude of the velocity
+  | "pressure"     // Negative mean of the Cauchy stress, positive in compression
+  | "stress"       // Von Mises equivalent of the Cauchy stress, i.e. the amount of shear stress
+  | "material"     // Index of the material, in order of first appearance in the particle set
+  | "deformation"  // Frobenius norm of the Green strain (F^T F - I) / 2
+  | "temperature"  // Heated or cooled by heat transfer, see ThermalProperties
+  | "damage";      // From 0 (intact) to 1 (broken), see BrittleMaterial
+
+export const PARTICLE_FIELDS: readonly ParticleField[] = [
+  "speed", "pressure", "stress", "material", "deformation", "temperature", "damage"
+];
+
+const _particle = new Particle();
+const _stress = new THREE.Matrix3();
+const _F = new THREE.Matrix3();
+const _strain = new THREE.Matrix3();
+
+/**
+ * Evaluates the field for each of the particles.
+ * @param out Receives the value of particle i at out[i], must hold at least particles.count values.
+ * @returns out
+ */
+export const computeParticleField = <T extends Float32Array | Float64Array>(
+  particles: ParticleSet, field: ParticleField, out: T
+): T => {
+  console.assert(out.length >= particles.count, "Output array is too small");
+  const n = particles.count;
+  switch (field) {
+    case "speed": {
+      const vel = particles.vel;
+      for (let i = 0; i < n; i++) {
+        out[i] = Math.sqrt(vel[3*i] * vel[3*i] + vel[3*i + 1] * vel[3*i + 1] + vel[3*i + 2] * vel[3*i + 2]);
+      }
+      break;
+    }
+    case "pressure":
+    case "stress":
+      for (let i = 0; i < n; i++) {
+        const p = particles.getMaterialState(i, _particle);
+        // Cauchy stress sigma = tau / J
+        const s = p.material.kirchhoffStress(p, _stress).multiplyScalar(1 / Math.max(p.J, 1e-6)).elements;
+        const mean = (s[0] + s[4] + s[8]) / 3;
+        if (field === "pressure") {
+          out[i] = -mean;
+        }
+        else {
+          const dxx = s[0] - mean, dyy = s[4] - mean, dzz = s[8] - mean;
+          const shear = s[3] * s[3] + s[6] * s[6] + s[7] * s[7] + s[1] * s[1] + s[2] * s[2] + s[5] * s[5];
+          out[i] = Math.sqrt(1.5 * (dxx * dxx + dyy * dyy + dzz * dzz + shear));
+        }
+      }
+      break;
+    case "material": {
+      const materials: Material[] = [];
+      for (let i = 0; i < n; i++) {
+        let id = materials.indexOf(particles.material[i]);
+        if (id < 0) {
+          id = materials.length;
+          materials.push(particles.material[i]);
+        }
+        out[i] = id;
+      }
+      break;
+    }
+    case "deformation":
+      for (let i = 0; i < n; i++) {
+        const F = _F.fromArray(particles.F, 9*i);
+        const e = _strain.copy(F).transpose().multiply(F).elements;
+        e[0] -= 1; e[4] -= 1; e[8] -= 1;
+        let sumSq = 0;
+        for (let k = 0; k < 9; k++) {
+          sumSq += e[k] * e[k];
+        }
+        out[i] = 0.5 * Math.sqrt(sumSq);
+      }
+      break;
+    case "temperature":
+      for (let i = 0; i < n; i++) {
+        out[i] = particles.temperature[i];
+      }
+      break;
+    case "damage":
+      for (let i = 0; i < n; i++) {
+        out[i] = particles.damage[i];
+      }
+      break;
+    default:
+      throw new Error(`Unknown particle field: ${field}`);
+  }
+  return out;
+};
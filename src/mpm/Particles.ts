@@ -0,0 +1,320 @@
+import * as THREE from 'three';
+import { ZeroVector3, ZeroMatrix3, IdentityMatrix3 } from '../MathUtils';
+import { Material, DustMaterial } from "./Materials";
+
+export const DEFAULT_MATERIAL = new DustMaterial();
+
+/**
+ * Thermal state of a particle. Units are up to the scene, as long as they are consistent with the
+ * mass, length and time units (e.g. kg, m, s, J and K).
+ */
+export interface ThermalProperties {
+  temperature: number;
+  heatCapacity: number; // Specific heat capacity, energy per unit mass per degree
+  conductivity: number; // Thermal conductivity, power per unit length per degree (per unit depth in 2D)
+}
+
+// Particles that aren't given a thermal state don't conduct heat, so they keep their temperature
+// unless a heat source reaches them
+export const DEFAULT_THERMAL_PROPERTIES: Readonly<ThermalProperties> = {
+  temperature: 20,
+  heatCapacity: 1,
+  conductivity: 0,
+};
+
+const INITIAL_CAPACITY = 1024;
+
+/**
+ * Object view of a single particle. The simulation stores particles in a ParticleSet,
+ * this class is used to read/write a particle from/to it and as the interface to materials.
+ */
+export class Particle {
+
+  active: boolean;
+  mass: number;
+  volume0: number; // Initial (undeformed) volume
+  pos: THREE.Vector3;
+  vel: THREE.Vector3;
+  B: THREE.Matrix3; // APIC affine momentum matrix
+  F: THREE.Matrix3; // Deformation gradient
+  J: number; // Volume ratio (current volume / initial volume)
+  Jp: number; // Plastic volume ratio, used by elasto-plastic materials
+  velGrad: THREE.Matrix3; // Velocity gradient gathered from the grid in the last step
+  temperature: number;
+  heatCapacity: number;
+  conductivity: number;
+  temperatureGrad: THREE.Vector3; // Temperature gradient gathered from the grid in the last step
+  damage: number; // From 0 (intact) to 1 (fully broken), used by materials that fracture
+  material: Material;
+
+  constructor(
+    active = true, mass = 0.0, volume0 = 0.0, pos = ZeroVector3(), vel = ZeroVector3(),
+    material: Material = DEFAULT_MATERIAL
+  ) {
+    this.active = active;
+    this.mass = mass;
+    this.volume0 = volume0;
+    this.pos = pos;
+    this.vel = vel;
+    this.B = ZeroMatrix3();
+    this.F = IdentityMatrix3();
+    this.J = 1.0;
+    this.Jp = 1.0;
+    this.velGrad = ZeroMatrix3();
+    this.temperature = DEFAULT_THERMAL_PROPERTIES.temperature;
+    this.heatCapacity = DEFAULT_THERMAL_PROPERTIES.heatCapacity;
+    this.conductivity = DEFAULT_THERMAL_PROPERTIES.conductivity;
+    this.temperatureGrad = ZeroVector3();
+    this.damage = 0;
+    this.material = material;
+  }
+}
+
+/**
+ * Structure-of-arrays storage for all the particles in the simulation. Vectors are stored
+ * as 3 consecutive values and matrices as 9 consecutive values in column-major order (the
+ * same layout as THREE.Matrix3.elements).
+ * Removed particles are only marked inactive (see deactivate), their slots are reused by add()
+ * once recycleInactive() has been called, so the indices of the other particles never change.
+ * NOTE: The buffers are reallocated when the capacity grows, don't hold on to them across calls to add().
+ */
+export class ParticleSet {
+  count: number = 0; // Number of slots in use, including those of inactive particles
+  capacity: number = 0;
+
+  active: Uint8Array = new Uint8Array(0);
+  mass: Float64Array = new Float64Array(0);
+  volume0: Float64Array = new Float64Array(0);
+  pos: Float64Array = new Float64Array(0);
+  vel: Float64Array = new Float64Array(0);
+  B: Float64Array = new Float64Array(0);
+  F: Float64Array = new Float64Array(0);
+  J: Float64Array = new Float64Array(0);
+  Jp: Float64Array = new Float64Array(0);
+  velGrad: Float64Array = new Float64Array(0);
+  temperature: Float64Array = new Float64Array(0);
+  heatCapacity: Float64Array = new Float64Array(0);
+  conductivity: Float64Array = new Float64Array(0);
+  temperatureGrad: Float64Array = new Float64Array(0);
+  damage: Float64Array = new Float64Array(0);
+  material: Array<Material> = [];
+
+  // Slots of inactive particles that add() reuses, as a stack with the lowest index on top
+  freeSlots: number[] = [];
+
+  constructor(capacity = INITIAL_CAPACITY) {
+    this.reserve(capacity);
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  reserve(capacity: number) {
+    if (capacity <= this.capacity) { return; }
+
+    const grow = <T extends Uint8Array | Float64Array>(ctor: new (n: number) => T, buffer: T, stride: number): T => {
+      const newBuffer = new ctor(capacity * stride);
+      newBuffer.set(buffer.subarray(0, this.count * stride));
+      return newBuffer;
+    };
+    this.active = grow(Uint8Array, this.active, 1);
+    this.mass = grow(Float64Array, this.mass, 1);
+    this.volume0 = grow(Float64Array, this.volume0, 1);
+    this.pos = grow(Float64Array, this.pos, 3);
+    this.vel = grow(Float64Array, this.vel, 3);
+    this.B = grow(Float64Array, this.B, 9);
+    this.F = grow(Float64Array, this.F, 9);
+    this.J = grow(Float64Array, this.J, 1);
+    this.Jp = grow(Float64Array, this.Jp, 1);
+    this.velGrad = grow(Float64Array, this.velGrad, 9);
+    this.temperature = grow(Float64Array, this.temperature, 1);
+    this.heatCapacity = grow(Float64Array, this.heatCapacity, 1);
+    this.conductivity = grow(Float64Array, this.conductivity, 1);
+    this.temperatureGrad = grow(Float64Array, this.temperatureGrad, 3);
+    this.damage = grow(Float64Array, this.damage, 1);
+    this.material.length = capacity;
+    this.capacity = capacity;
+  }
+
+  /**
+   * Adds a new particle at rest with an undeformed state, in the slot of a recycled particle if there is one.
+   * @returns The index of the new particle.
+   */
+  add(
+    mass: number, volume0: number, pos: THREE.Vector3, vel: THREE.Vector3 = ZeroVector3(),
+    material: Material = DEFAULT_MATERIAL, thermal: Readonly<ThermalProperties> = DEFAULT_THERMAL_PROPERTIES
+  ): number {
+    console.assert(thermal.heatCapacity > 0, "Heat capacity must be greater than 0");
+    console.assert(thermal.conductivity >= 0, "Conductivity must be non-negative");
+    let i = this.freeSlots.pop();
+    if (i === undefined) {
+      if (this.count === this.capacity) {
+        this.reserve(Math.max(INITIAL_CAPACITY, 2 * this.capacity));
+      }
+      i = this.count++;
+    }
+    this.active[i] = 1;
+    this.mass[i] = mass;
+    this.volume0[i] = volume0;
+    pos.toArray(this.pos, 3*i);
+    vel.toArray(this.vel, 3*i);
+    this.B.fill(0, 9*i, 9*i + 9);
+    this.F.fill(0, 9*i, 9*i + 9);
+    this.F[9*i] = this.F[9*i + 4] = this.F[9*i + 8] = 1;
+    this.J[i] = 1;
+    this.Jp[i] = 1;
+    this.velGrad.fill(0, 9*i, 9*i + 9);
+    this.temperature[i] = thermal.temperature;
+    this.heatCapacity[i] = thermal.heatCapacity;
+    this.conductivity[i] = thermal.conductivity;
+    this.temperatureGrad.fill(0, 3*i, 3*i + 3);
+    this.damage[i] = 0;
+    this.material[i] = material;
+    return i;
+  }
+
+  clear() {
+    this.count = 0;
+    this.freeSlots.length = 0;
+  }
+
+  /**
+   * Removes the particle from the simulation. Its slot keeps its index (and state) until it's recycled.
+   */
+  deactivate(i: number) {
+    this.active[i] = 0;
+  }
+
+  /**
+   * Makes the slots of all the inactive particles available to add(), which reuses them in order
+   * of increasing index before growing the set.
+   */
+  recycleInactive() {
+    this.freeSlots.length = 0;
+    for (let i = this.count - 1; i >= 0; i--) {
+      if (!this.active[i]) {
+        this.freeSlots.push(i);
+      }
+    }
+  }
+
+  /**
+   * @returns The number of active particles.
+   */
+  countActive(): number {
+    let n = 0;
+    for (let i = 0; i < this.count; i++) {
+      n += this.active[i];
+    }
+    return n;
+  }
+
+  /**
+   * Removes the inactive particles, the remaining particles keep their relative order.
+   * @returns The number of particles removed.
+   */
+  compact(): number {
+    const strided: Array<[Float64Array, number]> = [
+      [this.mass, 1], [this.volume0, 1], [this.pos, 3], [this.vel, 3], [this.B, 9], [this.F, 9],
+      [this.J, 1], [this.Jp, 1], [this.velGrad, 9], [this.temperature, 1], [this.heatCapacity, 1],
+      [this.conductivity, 1], [this.temperatureGrad, 3], [this.damage, 1],
+    ];
+    let n = 0;
+    for (let i = 0; i < this.count; i++) {
+      if (!this.active[i]) { continue; }
+      if (n !== i) {
+        for (const [buffer, stride] of strided) {
+          buffer.copyWithin(stride * n, stride * i, stride * (i + 1));
+        }
+        this.active[n] = 1;
+        this.material[n] = this.material[i];
+      }
+      n++;
+    }
+    const removed = this.count - n;
+    this.count = n;
+    this.freeSlots.length = 0;
+    return removed;
+  }
+
+  /**
+   * Reads the particle at the given index into the given object.
+   * @returns out
+   */
+  get(i: number, out: Particle = new Particle()): Particle {
+    out.active = this.active[i] !== 0;
+    out.mass = this.mass[i];
+    out.volume0 = this.volume0[i];
+    out.pos.fromArray(this.pos, 3*i);
+    out.vel.fromArray(this.vel, 3*i);
+    out.B.fromArray(this.B, 9*i);
+    out.F.fromArray(this.F, 9*i);
+    out.J = this.J[i];
+    out.Jp = this.Jp[i];
+    out.velGrad.fromArray(this.velGrad, 9*i);
+    out.temperature = this.temperature[i];
+    out.heatCapacity = this.heatCapacity[i];
+    out.conductivity = this.conductivity[i];
+    out.temperatureGrad.fromArray(this.temperatureGrad, 3*i);
+    out.damage = this.damage[i];
+    out.material = this.material[i];
+    return out;
+  }
+
+  /**
+   * Writes the given particle object into the particle at the given index.
+   */
+  set(i: number, p: Particle) {
+    this.active[i] = p.active ? 1 : 0;
+    this.mass[i] = p.mass;
+    this.volume0[i] = p.volume0;
+    p.pos.toArray(this.pos, 3*i);
+    p.vel.toArray(this.vel, 3*i);
+    p.B.toArray(this.B, 9*i);
+    p.F.toArray(this.F, 9*i);
+    this.J[i] = p.J;
+    this.Jp[i] = p.Jp;
+    p.velGrad.toArray(this.velGrad, 9*i);
+    this.temperature[i] = p.temperature;
+    this.heatCapacity[i] = p.heatCapacity;
+    this.conductivity[i] = p.conductivity;
+    p.temperatureGrad.toArray(this.temperatureGrad, 3*i);
+    this.damage[i] = p.damage;
+    this.material[i] = p.material;
+  }
+
+  /**
+   * Reads only the state that materials depend on (mass, volume, deformation, velocity gradient,
+   * temperature, damage and material) into the given object, this is cheaper than get() for the solver's hot loops.
+   * @returns out
+   */
+  getMaterialState(i: number, out: Particle): Particle {
+    out.mass = this.mass[i];
+    out.volume0 = this.volume0[i];
+    out.F.fromArray(this.F, 9*i);
+    out.J = this.J[i];
+    out.Jp = this.Jp[i];
+    out.velGrad.fromArray(this.velGrad, 9*i);
+    out.temperature = this.temperature[i];
+    out.damage = this.damage[i];
+    out.material = this.material[i];
+    return out;
+  }
+  /**
+   * Writes back the state that materials may modify (the deformation gradient, volume ratios and damage).
+   */
+  setMaterialState(i: number, p: Particle) {
+    p.F.toArray(this.F, 9*i);
+    this.J[i] = p.J;
+    this.Jp[i] = p.Jp;
+    this.damage[i] = p.damage;
+  }
+
+  getPosition(i: number, out: THREE.Vector3): THREE.Vector3 {
+    return out.fromArray(this.pos, 3*i);
+  }
+  getVelocity(i: number, out: THREE.Vector3): THREE.Vector3 {
+    return out.fromArray(this.vel, 3*i);
+  }
+}
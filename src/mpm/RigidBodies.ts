@@ -0,0 +1,390 @@
+import * as THREE from 'three';
+import { BoundaryType, Collider, SphereCollider, BoxCollider, PolygonCollider } from "./Colliders";
+
+const _velBefore = new THREE.Vector3();
+const _bodyVel = new THREE.Vector3();
+const _normal = new THREE.Vector3();
+const _basis = new THREE.Vector3();
+const _columns = [0, 1, 2, 3, 4, 5].map(() => new THREE.Vector3());
+const _projected = new Float64Array(6);
+const _axis = new THREE.Vector3();
+const _vertex = new THREE.Vector3();
+const _impulse = new THREE.Vector3();
+const _arm = new THREE.Vector3();
+const _local = new THREE.Vector3();
+const _invRotation = new THREE.Quaternion();
+
+/**
+ * A rigid body coupled two ways with the material through the grid: in the grid update the body
+ * imposes its velocity on the grid nodes inside its shape (with the boundary condition of its
+ * collider), and the momentum this takes from the nodes is accumulated as a force and torque on the
+ * body, which is then integrated at the end of the step.
+ * The velocity imposed on the nodes is the body's velocity at the end of the step, predicted from
+ * the momentum of the nodes it will constrain (see gatherNode), which keeps the coupling stable
+ * even when the body is much lighter than the material around it.
+ * The shape is a collider positioned at the body's center of mass, whose position, rotation and
+ * velocities are the state of the body. Bodies only interact through the material: they don't
+ * collide with the colliders or each other, only the walls of a closed domain keep them in it
+ * (see confine).
+ */
+export class RigidBody {
+  collider: Collider;
+  mass: number;
+  inertia: THREE.Matrix3; // Inertia tensor about the center of mass, in the body frame
+  invInertia: THREE.Matrix3;
+  // External force and torque applied every step on top of gravity, e.g. a motor
+  appliedForce: THREE.Vector3 = new THREE.Vector3();
+  appliedTorque: THREE.Vector3 = new THREE.Vector3();
+
+  // Force and torque from the grid, accumulated over a step
+  force: THREE.Vector3 = new THREE.Vector3();
+  torque: THREE.Vector3 = new THREE.Vector3();
+
+  // Velocities and external acceleration at the start of the step, and the linear system of the
+  // predicted velocities (linear then angular) that gatherNode accumulates: A * u = b, A being 6x6
+  // and row-major
+  _linearVelocity0: THREE.Vector3 = new THREE.Vector3();
+  _angularVelocity0: THREE.Vector3 = new THREE.Vector3();
+  _acceleration: THREE.Vector3 = new THREE.Vector3();
+  _A: Float64Array = new Float64Array(36);
+  _b: Float64Array = new Float64Array(6);
+
+  constructor(collider: Collider, mass: number, inertia: THREE.Matrix3) {
+    console.assert(mass > 0, "Mass must be greater than 0");
+    console.assert(inertia.determinant() > 0, "Inertia tensor must be positive definite");
+    this.collider = collider;
+    this.mass = mass;
+    this.inertia = inertia.clone();
+    this.invInertia = inertia.clone().invert();
+  }
+
+  get position(): THREE.Vector3 {
+    return this.collider.position;
+  }
+  get linearVelocity(): THREE.Vector3 {
+    return this.collider.linearVelocity;
+  }
+  get angularVelocity(): THREE.Vector3 {
+    return this.collider.angularVelocity;
+  }
+
+  /**
+   * Starts the coupling of a step: the predicted velocities are those of the body on its own, under
+   * the external acceleration (gravity and the force fields) and the applied force and torque.
+   */
+  beginStep(dt: number, acceleration: THREE.Vector3) {
+    const { linearVelocity, angularVelocity, rotation } = this.collider;
+    this._acceleration.copy(acceleration);
+    this._linearVelocity0.copy(linearVelocity);
+    this._angularVelocity0.copy(angularVelocity);
+    const A = this._A, b = this._b;
+    A.fill(0);
+    _invRotation.copy(rotation).invert();
+    for (let i = 0; i < 3; i++) {
+      A[7*i] = this.mass;
+      b[i] = this.mass * (linearVelocity.getComponent(i) + dt * acceleration.getComponent(i)) + dt * this.appliedForce.getComponent(i);
+      // Column i of the world inertia tensor R * I * R^T
+      _basis.set(0, 0, 0).setComponent(i, 1).applyQuaternion(_invRotation).applyMatrix3(this.inertia).applyQuaternion(rotation);
+      for (let j = 0; j < 3; j++) {
+        A[6 * (3 + j) + 3 + i] = _basis.getComponent(j);
+      }
+    }
+    _basis.copy(angularVelocity).applyQuaternion(_invRotation).applyMatrix3(this.inertia).applyQuaternion(rotation);
+    for (let i = 0; i < 3; i++) {
+      b[3 + i] = _basis.getComponent(i) + dt * this.appliedTorque.getComponent(i);
+    }
+  }
+
+  /**
+   * Adds a grid node (with its velocity after the grid forces) to the prediction of the body's
+   * velocities if the node is inside the body: the momentum of the node along the directions its
+   * boundary condition constrains (all of them for sticky boundaries, the normal otherwise) is
+   * shared with the body, as if the node moved rigidly with it along these directions.
+   */
+  gatherNode(pos: THREE.Vector3, vel: THREE.Vector3, mass: number) {
+    const collider = this.collider;
+    if (collider.signedDistance(pos) > 0) { return; }
+
+    // Velocity of the node moving with the body, v + omega x r, is J * u with column k of J:
+    // the unit vector k for the linear velocity, and e_k x r for the angular velocity
+    _arm.subVectors(pos, collider.position);
+    for (let k = 0; k < 3; k++) {
+      _columns[k].set(0, 0, 0).setComponent(k, 1);
+      _columns[3 + k].set(0, 0, 0).setComponent(k, 1).cross(_arm);
+    }
+    const A = this._A, b = this._b;
+    if (collider.boundary === BoundaryType.Sticky) {
+      for (let k = 0; k < 6; k++) {
+        for (let l = 0; l < 6; l++) {
+          A[6*k + l] += mass * _columns[k].dot(_columns[l]);
+        }
+        b[k] += mass * _columns[k].dot(vel);
+      }
+      return;
+    }
+
+    collider.normal(pos, _normal);
+    if (collider.boundary === BoundaryType.Separate) {
+      // Only the nodes moving towards the body at the start of the step
+      _bodyVel.crossVectors(this._angularVelocity0, _arm).add(this._linearVelocity0);
+      if (_velBefore.subVectors(vel, _bodyVel).dot(_normal) >= 0) { return; }
+    }
+    for (let k = 0; k < 6; k++) {
+      _projected[k] = _columns[k].dot(_normal);
+    }
+    const vn = vel.dot(_normal);
+    for (let k = 0; k < 6; k++) {
+      for (let l = 0; l < 6; l++) {
+        A[6*k + l] += mass * _projected[k] * _projected[l];
+      }
+      b[k] += mass * _projected[k] * vn;
+    }
+  }
+
+  /**
+   * Sets the body's velocities to the ones predicted from the gathered nodes, before they are
+   * imposed on the nodes (see couple).
+   */
+  predictVelocity(is2D: boolean) {
+    const A = this._A, b = this._b;
+    if (is2D) {
+      // Only the planar degrees of freedom: drop the z velocity and the rotations about x and y
+      for (const k of [2, 3, 4]) {
+        for (let l = 0; l < 6; l++) {
+          A[6*k + l] = A[6*l + k] = 0;
+        }
+        A[7*k] = 1;
+        b[k] = 0;
+      }
+    }
+    const u = solveLinearSystem(A, b, 6);
+    this.collider.linearVelocity.set(u[0], u[1], is2D ? 0 : u[2]);
+    this.collider.angularVelocity.set(is2D ? 0 : u[3], is2D ? 0 : u[4], u[5]);
+  }
+
+  /**
+   * Applies the body's boundary condition to a grid node velocity (in place) if the node is inside
+   * the body, and accumulates the momentum taken from the node (of the given mass) over a step of dt.
+   * @returns true if the velocity was modified.
+   */
+  couple(pos: THREE.Vector3, vel: THREE.Vector3, mass: number, dt: number): boolean {
+    _velBefore.copy(vel);
+    if (!this.collider.collide(pos, vel)) {
+      return false;
+    }
+    // The node's change of momentum is the opposite of the body's
+    _impulse.subVectors(_velBefore, vel).multiplyScalar(mass / dt);
+    this.force.add(_impulse);
+    this.torque.add(_arm.subVectors(pos, this.collider.position).cross(_impulse));
+    return true;
+  }
+
+  /**
+   * Integrates the velocities from the start of the step with the accumulated and applied forces
+   * and the external acceleration of beginStep (symplectic Euler), moves the body and clears the
+   * accumulated force and torque.
+   * In 2D the body only moves in the xy-plane and rotates about z.
+   */
+  integrate(dt: number, is2D: boolean) {
+    const { linearVelocity, angularVelocity } = this.collider;
+    linearVelocity.copy(this._linearVelocity0);
+    angularVelocity.copy(this._angularVelocity0);
+    this.force.add(this.appliedForce);
+    this.torque.add(this.appliedTorque);
+    linearVelocity.addScaledVector(this.force, dt / this.mass).addScaledVector(this._acceleration, dt);
+
+    // omega += dt * I_world^-1 * torque, with I_world = R * I * R^T (the gyroscopic term is neglected)
+    const rotation = this.collider.rotation;
+    _invRotation.copy(rotation).invert();
+    _local.copy(this.torque).applyQuaternion(_invRotation).applyMatrix3(this.invInertia).applyQuaternion(rotation);
+    angularVelocity.addScaledVector(_local, dt);
+
+    if (is2D) {
+      linearVelocity.z = 0;
+      angularVelocity.x = angularVelocity.y = 0;
+    }
+    this.collider.update(dt);
+    this.force.set(0, 0, 0);
+    this.torque.set(0, 0, 0);
+  }
+
+  /**
+   * Moves the body back into the box if it sticks out of it, stopping its motion out of the box.
+   * In 2D the box is only enforced along x and y.
+   */
+  confine(box: THREE.Box3, is2D: boolean) {
+    const { position, linearVelocity } = this.collider;
+    for (let a = 0; a < (is2D ? 2 : 3); a++) {
+      _axis.set(0, 0, 0).setComponent(a, 1);
+      const max = box.max.getComponent(a) - supportDistance(this.collider, _axis);
+      const min = box.min.getComponent(a) + supportDistance(this.collider, _axis.negate());
+      const x = position.getComponent(a), v = linearVelocity.getComponent(a);
+      if (x > max) {
+        position.setComponent(a, Math.max(min, max));
+        linearVelocity.setComponent(a, Math.min(v, 0));
+      }
+      else if (x < min) {
+        position.setComponent(a, Math.min(min, max));
+        linearVelocity.setComponent(a, Math.max(v, 0));
+      }
+    }
+  }
+
+  /**
+   * @returns The kinetic energy of the body.
+   */
+  kineticEnergy(): number {
+    // 1/2 omega^T * I_world * omega, in the body frame
+    _local.copy(this.angularVelocity).applyQuaternion(_invRotation.copy(this.collider.rotation).invert());
+    const rotational = _arm.copy(_local).applyMatrix3(this.inertia).dot(_local);
+    return 0.5 * (this.mass * this.linearVelocity.lengthSq() + rotational);
+  }
+}
+
+/**
+ * Creates a rigid body of uniform density from a sphere, box or polygon collider. In 2D the body
+ * is the slice of the shape by the xy-plane with a unit depth (a disc, rectangle or polygon), like
+ * the material. Polygon colliders are moved so that their position is the centroid of the polygon.
+ * In 3D polygons must have a finite depth.
+ */
+export const createRigidBody = (collider: Collider, density: number, is2D: boolean): RigidBody => {
+  console.assert(density > 0, "Density must be greater than 0");
+  let mass: number;
+  const inertia = new THREE.Matrix3();
+  if (collider instanceof SphereCollider) {
+    const r = collider.radius;
+    if (is2D) {
+      // Disc, about its diameters and its axis
+      mass = density * Math.PI * r * r;
+      inertia.set(mass * r * r / 4, 0, 0, 0, mass * r * r / 4, 0, 0, 0, mass * r * r / 2);
+    }
+    else {
+      mass = density * 4 / 3 * Math.PI * r * r * r;
+      const I = 2 / 5 * mass * r * r;
+      inertia.set(I, 0, 0, 0, I, 0, 0, 0, I);
+    }
+  }
+  else if (collider instanceof BoxCollider) {
+    const { x: a, y: b, z: c } = collider.halfExtents;
+    mass = density * 4 * a * b * (is2D ? 1 : 2 * c);
+    const cc = is2D ? 0 : c * c;
+    inertia.set(mass / 3 * (b * b + cc), 0, 0, 0, mass / 3 * (a * a + cc), 0, 0, 0, mass / 3 * (a * a + b * b));
+  }
+  else if (collider instanceof PolygonCollider) {
+    console.assert(is2D || isFinite(collider.halfDepth), "Polygon rigid bodies need a finite depth in 3D");
+    const { area, centroid, xx, yy, xy } = polygonMoments(collider.vertices);
+    collider.vertices.forEach((v) => v.sub(centroid));
+    collider.position.x += centroid.x;
+    collider.position.y += centroid.y;
+    // Extruded along z by the depth (a thin plate of unit depth in 2D)
+    const depth = is2D ? 1 : 2 * collider.halfDepth;
+    const zz = is2D ? 0 : area * depth * depth / 12; // Integral of z^2 over the area, per unit depth
+    const scale = density * depth;
+    mass = scale * area;
+    inertia.set(
+      scale * (yy + zz), -scale * xy, 0,
+      -scale * xy, scale * (xx + zz), 0,
+      0, 0, scale * (xx + yy)
+    );
+  }
+  else {
+    throw new Error(`Colliders of type ${collider.constructor.name} can't be rigid bodies`);
+  }
+  return new RigidBody(collider, mass, inertia);
+};
+
+/**
+ * @returns How far the shape of a rigid body reaches from its position along the given unit
+ * direction (in world space).
+ */
+const supportDistance = (collider: Collider, dir: THREE.Vector3): number => {
+  const rotation = collider.rotation;
+  if (collider instanceof SphereCollider) {
+    return collider.radius;
+  }
+  if (collider instanceof BoxCollider) {
+    const h = collider.halfExtents;
+    let distance = 0;
+    for (let a = 0; a < 3; a++) {
+      _vertex.set(0, 0, 0).setComponent(a, h.getComponent(a)).applyQuaternion(rotation);
+      distance += Math.abs(_vertex.dot(dir));
+    }
+    return distance;
+  }
+  if (collider instanceof PolygonCollider) {
+    let distance = -Infinity;
+    for (const v of collider.vertices) {
+      distance = Math.max(distance, _vertex.set(v.x, v.y, 0).applyQuaternion(rotation).dot(dir));
+    }
+    // The depth of 2D polygons is infinite
+    const depth = Math.abs(_vertex.set(0, 0, 1).applyQuaternion(rotation).dot(dir));
+    if (depth > 0) {
+      distance += collider.halfDepth * depth;
+    }
+    return distance;
+  }
+  throw new Error(`Colliders of type ${collider.constructor.name} can't be rigid bodies`);
+};
+
+/**
+ * Solves A * x = b by Gaussian elimination with partial pivoting, overwriting A and b.
+ * @returns b, which holds the solution.
+ */
+const solveLinearSystem = (A: Float64Array, b: Float64Array, n: number): Float64Array => {
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(A[n * row + col]) > Math.abs(A[n * pivot + col])) { pivot = row; }
+    }
+    if (pivot !== col) {
+      for (let k = 0; k < n; k++) {
+        const t = A[n * col + k]; A[n * col + k] = A[n * pivot + k]; A[n * pivot + k] = t;
+      }
+      const t = b[col]; b[col] = b[pivot]; b[pivot] = t;
+    }
+    for (let row = col + 1; row < n; row++) {
+      const f = A[n * row + col] / A[n * col + col];
+      for (let k = col; k < n; k++) {
+        A[n * row + k] -= f * A[n * col + k];
+      }
+      b[row] -= f * b[col];
+    }
+  }
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) {
+      sum -= A[n * row + k] * b[k];
+    }
+    b[row] = sum / A[n * row + row];
+  }
+  return b;
+};
+
+/**
+ * @returns The area and centroid of a simple polygon (in either winding order) and the second
+ * moments of its area about the centroid: the integrals of x^2, y^2 and xy.
+ */
+const polygonMoments = (vertices: THREE.Vector2[]) => {
+  let area = 0, cx = 0, cy = 0, xx = 0, yy = 0, xy = 0;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i, i++) {
+    const { x: x0, y: y0 } = vertices[j];
+    const { x: x1, y: y1 } = vertices[i];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross / 2;
+    cx += (x0 + x1) * cross / 6;
+    cy += (y0 + y1) * cross / 6;
+    xx += (x0 * x0 + x0 * x1 + x1 * x1) * cross / 12;
+    yy += (y0 * y0 + y0 * y1 + y1 * y1) * cross / 12;
+    xy += (x0 * y1 + 2 * x0 * y0 + 2 * x1 * y1 + x1 * y0) * cross / 24;
+  }
+  // The sums have the sign of the winding
+  const sign = Math.sign(area);
+  area *= sign;
+  const centroid = new THREE.Vector2(sign * cx / area, sign * cy / area);
+  return {
+    area, centroid,
+    xx: sign * xx - area * centroid.x * centroid.x,
+    yy: sign * yy - area * centroid.y * centroid.y,
+    xy: sign * xy - area * centroid.x * centroid.y,
+  };
+};
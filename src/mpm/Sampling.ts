@@ -0,0 +1,229 @@
+import * as THREE from 'three';
+import { createRandom } from '../MathUtils';
+import { Shape } from "./Shapes";
+
+export type SamplingPattern = "lattice" | "jittered" | "poisson";
+
+export interface SamplingOptions {
+  spacing: number;            // Distance between neighbouring particles
+  pattern?: SamplingPattern;  // Defaults to lattice
+  seed?: number;              // Seed of the jittered and Poisson disk patterns
+}
+
+export interface ShapeSamples {
+  positions: number[]; // 3 coordinates per sample
+  volume: number;      // Volume represented by each sample, such that they add up to the volume of the shape
+}
+
+// Either the distance between particles or the number of particles per grid cell, exactly one of them
+export interface ParticleSpacingOptions {
+  spacing?: number;
+  particlesPerCell?: number;
+}
+
+const PARTICLE_SPACING_ERROR = "Specify either a spacing or a number of particles per cell";
+
+// Poisson disk samples are at least this many times the spacing apart, chosen so that they are
+// about as dense as the lattice samples with the same spacing
+const POISSON_RADIUS_SCALE_2D = 0.79;
+const POISSON_RADIUS_SCALE_3D = 0.845;
+// Number of candidates tried around each Poisson disk sample before giving up on it (k in Bridson's algorithm)
+const POISSON_CANDIDATES = 30;
+
+const _pos = new THREE.Vector3();
+
+/**
+ * Throws unless exactly one of the spacing and the number of particles per cell is given.
+ */
+export const validateParticleSpacing = (options: ParticleSpacingOptions) => {
+  if ((options.spacing === undefined) === (options.particlesPerCell === undefined)) {
+    throw new Error(PARTICLE_SPACING_ERROR);
+  }
+};
+
+/**
+ * Throws unless exactly one of the spacing and the number of particles per cell is given.
+ * @returns The distance between particles, given directly or by the number of particles per grid cell.
+ */
+export const particleSpacing = (options: ParticleSpacingOptions, cellSize: number, is2D: boolean): number => {
+  const { spacing, particlesPerCell } = options;
+  if (spacing !== undefined && particlesPerCell === undefined) {
+    return spacing;
+  }
+  if (particlesPerCell !== undefined && spacing === undefined) {
+    return cellSize / Math.pow(particlesPerCell, 1 / (is2D ? 2 : 3));
+  }
+  throw new Error(PARTICLE_SPACING_ERROR);
+};
+
+/**
+ * Samples the part of the shape within the region.
+ * - lattice: the centers of the cells of a regular lattice aligned to the shape's bounds.
+ * - jittered: one random point in each cell of that lattice (stratified sampling), which avoids
+ *   the artificial alignment of the lattice.
+ * - poisson: Poisson disk samples (Bridson 2007), random but evenly spread.
+ * In 2D (is2D), the shape is sampled in the xy-plane at the middle of its bounds in z.
+ */
+export const sampleShape = (shape: Shape, region: THREE.Box3, is2D: boolean, options: SamplingOptions): ShapeSamples => {
+  const { spacing, pattern = "lattice", seed = 1 } = options;
+  console.assert(spacing > 0, "Spacing must be greater than 0");
+
+  const sliceZ = shape.sliceZ(region.min.z);
+  region = region.clone();
+  if (is2D) {
+    // NOTE: Box3.intersect empties the box on all axes if any doesn't overlap
+    region.min.z = region.max.z = sliceZ;
+  }
+  const bounds = shape.bounds.clone().intersect(region);
+  if (bounds.isEmpty()) {
+    return { positions: [], volume: 0 };
+  }
+  const cellVolume = is2D ? spacing * spacing : spacing * spacing * spacing;
+
+  // The lattice cells are aligned to the shape's bounds where they are finite, so that a shape is
+  // sampled the same way regardless of the region
+  const latticeMin = new THREE.Vector3();
+  const numCells = new THREE.Vector3();
+  for (let axis = 0; axis < (is2D ? 2 : 3); axis++) {
+    const shapeMin = shape.bounds.min.getComponent(axis);
+    const min = bounds.min.getComponent(axis);
+    const start = isFinite(shapeMin) ? shapeMin + Math.floor((min - shapeMin) / spacing) * spacing : min;
+    latticeMin.setComponent(axis, start);
+    numCells.setComponent(axis, Math.ceil((bounds.max.getComponent(axis) - start) / spacing));
+  }
+  if (is2D) {
+    latticeMin.z = sliceZ;
+    numCells.z = 1;
+  }
+  const cellOffset = is2D ? new THREE.Vector3(0.5, 0.5, 0) : new THREE.Vector3(0.5, 0.5, 0.5);
+
+  const positions: number[] = [];
+  const addIfInside = (x: number, y: number, z: number) => {
+    if (bounds.containsPoint(_pos.set(x, y, z)) && shape.contains(_pos)) {
+      positions.push(x, y, z);
+    }
+  };
+  const forEachCell = (callback: (x: number, y: number, z: number) => void) => {
+    for (let k = 0; k < numCells.z; k++) {
+      for (let j = 0; j < numCells.y; j++) {
+        for (let i = 0; i < numCells.x; i++) {
+          callback(latticeMin.x + i * spacing, latticeMin.y + j * spacing, latticeMin.z + k * spacing);
+        }
+      }
+    }
+  };
+
+  switch (pattern) {
+    case "lattice":
+      forEachCell((x, y, z) => addIfInside(
+        x + cellOffset.x * spacing, y + cellOffset.y * spacing, z + cellOffset.z * spacing
+      ));
+      return { positions, volume: cellVolume };
+
+    case "jittered": {
+      const random = createRandom(seed);
+      forEachCell((x, y, z) => addIfInside(
+        x + random() * spacing, y + random() * spacing, is2D ? z : z + random() * spacing
+      ));
+      return { positions, volume: cellVolume };
+    }
+
+    case "poisson": {
+      const radius = spacing * (is2D ? POISSON_RADIUS_SCALE_2D : POISSON_RADIUS_SCALE_3D);
+      const samples = poissonDiskSamples(bounds, radius, is2D, createRandom(seed));
+      let latticeCount = 0;
+      forEachCell((x, y, z) => {
+        _pos.set(x + cellOffset.x * spacing, y + cellOffset.y * spacing, z + cellOffset.z * spacing);
+        if (bounds.containsPoint(_pos) && shape.contains(_pos)) { latticeCount++; }
+      });
+      for (let i = 0; i < samples.length; i += 3) {
+        addIfInside(samples[i], samples[i + 1], samples[i + 2]);
+      }
+      // The samples aren't exactly as dense as the lattice, so the volume of the shape (estimated
+      // from the lattice) is shared among them
+      const count = positions.length / 3;
+      return { positions, volume: count > 0 ? latticeCount * cellVolume / count : 0 };
+    }
+
+    default:
+      throw new Error(`Unknown sampling pattern: ${pattern}`);
+  }
+};
+
+/**
+ * Bridson's algorithm, "Fast Poisson Disk Sampling in Arbitrary Dimensions" (SIGGRAPH 2007 sketch).
+ * @returns Points in the box that are no closer than radius to each other, 3 coordinates per point.
+ */
+const poissonDiskSamples = (box: THREE.Box3, radius: number, is2D: boolean, random: () => number): number[] => {
+  const dim = is2D ? 2 : 3;
+  // Background grid with cells small enough to hold at most one sample
+  const cellSize = radius / Math.sqrt(dim);
+  const size = box.getSize(new THREE.Vector3());
+  const nx = Math.max(1, Math.ceil(size.x / cellSize));
+  const ny = Math.max(1, Math.ceil(size.y / cellSize));
+  const nz = is2D ? 1 : Math.max(1, Math.ceil(size.z / cellSize));
+  const cells = new Int32Array(nx * ny * nz).fill(-1);
+  const samples: number[] = [];
+  const active: number[] = [];
+
+  const cellIndex = (x: number, y: number, z: number) => {
+    const i = Math.min(nx - 1, Math.floor((x - box.min.x) / cellSize));
+    const j = Math.min(ny - 1, Math.floor((y - box.min.y) / cellSize));
+    const k = is2D ? 0 : Math.min(nz - 1, Math.floor((z - box.min.z) / cellSize));
+    return [i, j, k];
+  };
+  const isFarEnough = (x: number, y: number, z: number): boolean => {
+    const [ci, cj, ck] = cellIndex(x, y, z);
+    const reach = 2; // A cell's diagonal is radius, so conflicts are at most 2 cells away
+    for (let k = Math.max(0, ck - reach); k <= Math.min(nz - 1, ck + reach); k++) {
+      for (let j = Math.max(0, cj - reach); j <= Math.min(ny - 1, cj + reach); j++) {
+        for (let i = Math.max(0, ci - reach); i <= Math.min(nx - 1, ci + reach); i++) {
+          const s = cells[i + j * nx + k * nx * ny];
+          if (s < 0) { continue; }
+          const dx = samples[3*s] - x, dy = samples[3*s + 1] - y, dz = samples[3*s + 2] - z;
+          if (dx * dx + dy * dy + dz * dz < radius * radius) { return false; }
+        }
+      }
+    }
+    return true;
+  };
+  const addSample = (x: number, y: number, z: number) => {
+    const [i, j, k] = cellIndex(x, y, z);
+    const s = samples.length / 3;
+    samples.push(x, y, z);
+    cells[i + j * nx + k * nx * ny] = s;
+    active.push(s);
+  };
+
+  addSample(
+    box.min.x + random() * size.x, box.min.y + random() * size.y, is2D ? box.min.z : box.min.z + random() * size.z
+  );
+  while (active.length > 0) {
+    const a = Math.floor(random() * active.length);
+    const s = active[a];
+    let found = false;
+    for (let attempt = 0; attempt < POISSON_CANDIDATES; attempt++) {
+      // Uniformly distributed in the annulus (spherical shell) between radius and 2 * radius
+      let dx: number, dy: number, dz: number, lengthSq: number;
+      do {
+        dx = 2 * random() - 1;
+        dy = 2 * random() - 1;
+        dz = is2D ? 0 : 2 * random() - 1;
+        lengthSq = dx * dx + dy * dy + dz * dz;
+      } while (lengthSq > 1 || lengthSq < 0.25);
+      const scale = 2 * radius;
+      const x = samples[3*s] + dx * scale, y = samples[3*s + 1] + dy * scale, z = samples[3*s + 2] + dz * scale;
+      if (box.containsPoint(_pos.set(x, y, z)) && isFarEnough(x, y, z)) {
+        addSample(x, y, z);
+        found = true;
+        break;
+      }
+    }
+    if (!found) {
+      // Swap remove, the sample has no room left around it
+      active[a] = active[active.length - 1];
+      active.pop();
+    }
+  }
+  return samples;
+};
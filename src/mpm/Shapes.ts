@@ -0,0 +1,240 @@
+import * as THREE from 'three';
+import type { Collider } from "./Colliders";
+
+/**
+ * Base class for the regions of space that bodies of material are sampled from (see Sampling.ts).
+ * A shape only needs to answer whether a point is inside of it, within its bounding box.
+ * In 2D simulations shapes are sliced by the plane of the simulation.
+ */
+export abstract class Shape {
+  readonly bounds: THREE.Box3;
+
+  constructor(bounds: THREE.Box3) {
+    this.bounds = bounds;
+  }
+
+  abstract contains(pos: THREE.Vector3): boolean;
+
+  /**
+   * @returns The z of the plane that slices the shape in 2D simulations: the middle of its bounds,
+   * or defaultZ if they're infinite in z.
+   */
+  sliceZ(defaultZ: number): number {
+    const { min, max } = this.bounds;
+    return isFinite(min.z + max.z) ? (min.z + max.z) / 2 : defaultZ;
+  }
+}
+
+export class BoxShape extends Shape {
+  constructor(min: THREE.Vector3, max: THREE.Vector3) {
+    console.assert(min.x <= max.x && min.y <= max.y && min.z <= max.z, "Invalid bounds");
+    super(new THREE.Box3(min.clone(), max.clone()));
+  }
+
+  contains(pos: THREE.Vector3): boolean {
+    return this.bounds.containsPoint(pos);
+  }
+}
+
+// A disc in 2D
+export class SphereShape extends Shape {
+  center: THREE.Vector3;
+  radius: number;
+
+  constructor(center: THREE.Vector3, radius: number) {
+    console.assert(radius > 0, "Radius must be greater than 0");
+    super(new THREE.Box3().setFromCenterAndSize(center, new THREE.Vector3(2 * radius, 2 * radius, 2 * radius)));
+    this.center = center.clone();
+    this.radius = radius;
+  }
+
+  contains(pos: THREE.Vector3): boolean {
+    return pos.distanceToSquared(this.center) <= this.radius * this.radius;
+  }
+}
+
+/**
+ * A simple polygon (vertices relative to the position, in the xy-plane) extruded by halfDepth
+ * on both sides along z. The polygon may be concave, it is filled according to the even-odd rule.
+ */
+export class PolygonShape extends Shape {
+  position: THREE.Vector3;
+  vertices: THREE.Vector2[];
+  halfDepth: number;
+
+  constructor(position: THREE.Vector3, vertices: THREE.Vector2[], halfDepth = Infinity) {
+    console.assert(vertices.length >= 3, "A polygon needs at least 3 vertices");
+    console.assert(halfDepth > 0, "Half depth must be greater than 0");
+    const bounds = new THREE.Box3();
+    for (const v of vertices) {
+      bounds.expandByPoint(new THREE.Vector3(v.x, v.y, 0));
+    }
+    bounds.min.z = -halfDepth;
+    bounds.max.z = halfDepth;
+    super(bounds.translate(position));
+    this.position = position.clone();
+    this.vertices = vertices;
+    this.halfDepth = halfDepth;
+  }
+
+  contains(pos: THREE.Vector3): boolean {
+    if (Math.abs(pos.z - this.position.z) > this.halfDepth) { return false; }
+    const v = this.vertices;
+    const px = pos.x - this.position.x, py = pos.y - this.position.y;
+    let inside = false;
+    for (let i = 0, j = v.length - 1; i < v.length; j = i, i++) {
+      if ((v[i].y > py) !== (v[j].y > py) &&
+          px < (v[j].x - v[i].x) * (py - v[i].y) / (v[j].y - v[i].y) + v[i].x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+}
+
+/**
+ * The region where a signed distance function is negative, within the given bounds.
+ */
+export class SDFShape extends Shape {
+  signedDistance: (pos: THREE.Vector3) => number;
+  collider: Collider | null = null; // The collider whose inside this is, see fromCollider
+
+  constructor(signedDistance: (pos: THREE.Vector3) => number, bounds: THREE.Box3) {
+    super(bounds.clone());
+    this.signedDistance = signedDistance;
+  }
+
+  /**
+   * @returns A shape filling the inside of the collider, within the given bounds.
+   */
+  static fromCollider(collider: Collider, bounds: THREE.Box3): SDFShape {
+    const shape = new SDFShape((pos) => collider.signedDistance(pos), bounds);
+    shape.collider = collider;
+    return shape;
+  }
+
+  contains(pos: THREE.Vector3): boolean {
+    return this.signedDistance(pos) <= 0;
+  }
+}
+
+/**
+ * The inside of a closed triangle mesh. Points are classified by the parity of the number of
+ * times a ray along +x crosses the surface. The triangles are binned by their extent in y and z
+ * so that a ray is only tested against the triangles it may hit.
+ */
+export class MeshShape extends Shape {
+  triangleCount: number;
+  vertices: Float64Array; // 9 coordinates per triangle
+  _binsPerAxis: number;
+  _binSize: THREE.Vector2; // Size of a bin in y and z
+  _binStart: Int32Array; // Triangles of bin i are _binTriangles[_binStart[i], _binStart[i+1])
+  _binTriangles: Int32Array;
+
+  /**
+   * @param positions Vertex positions, 3 coordinates per vertex.
+   * @param indices 3 vertex indices per triangle, if not given every 3 consecutive vertices form a triangle.
+   */
+  constructor(positions: ArrayLike<number>, indices?: ArrayLike<number>) {
+    const triangleCount = Math.floor((indices ? indices.length : positions.length / 3) / 3);
+    console.assert(triangleCount > 0, "A mesh needs at least one triangle");
+    const vertices = new Float64Array(9 * triangleCount);
+    for (let i = 0; i < 3 * triangleCount; i++) {
+      const vertex = indices ? indices[i] : i;
+      vertices[3*i] = positions[3*vertex];
+      vertices[3*i + 1] = positions[3*vertex + 1];
+      vertices[3*i + 2] = positions[3*vertex + 2];
+    }
+    const bounds = new THREE.Box3();
+    const point = new THREE.Vector3();
+    for (let i = 0; i < 3 * triangleCount; i++) {
+      bounds.expandByPoint(point.fromArray(vertices, 3*i));
+    }
+    super(bounds);
+    this.triangleCount = triangleCount;
+    this.vertices = vertices;
+
+    const binsPerAxis = THREE.MathUtils.clamp(Math.ceil(Math.sqrt(triangleCount / 4)), 1, 64);
+    this._binsPerAxis = binsPerAxis;
+    this._binSize = new THREE.Vector2(
+      Math.max(bounds.max.y - bounds.min.y, 1e-12) / binsPerAxis,
+      Math.max(bounds.max.z - bounds.min.z, 1e-12) / binsPerAxis
+    );
+
+    // Counting sort of the triangles into the bins that their yz bounding box overlaps
+    const binCounts = new Int32Array(binsPerAxis * binsPerAxis + 1);
+    const forEachBin = (t: number, callback: (bin: number) => void) => {
+      const v = vertices;
+      const [y0, y1] = this._binRange(Math.min(v[9*t + 1], v[9*t + 4], v[9*t + 7]), Math.max(v[9*t + 1], v[9*t + 4], v[9*t + 7]), 0);
+      const [z0, z1] = this._binRange(Math.min(v[9*t + 2], v[9*t + 5], v[9*t + 8]), Math.max(v[9*t + 2], v[9*t + 5], v[9*t + 8]), 1);
+      for (let bz = z0; bz <= z1; bz++) {
+        for (let by = y0; by <= y1; by++) {
+          callback(by + bz * binsPerAxis);
+        }
+      }
+    };
+    for (let t = 0; t < triangleCount; t++) {
+      forEachBin(t, (bin) => { binCounts[bin + 1]++; });
+    }
+    for (let i = 1; i < binCounts.length; i++) {
+      binCounts[i] += binCounts[i - 1];
+    }
+    this._binStart = binCounts.slice();
+    this._binTriangles = new Int32Array(binCounts[binCounts.length - 1]);
+    for (let t = 0; t < triangleCount; t++) {
+      forEachBin(t, (bin) => { this._binTriangles[binCounts[bin]++] = t; });
+    }
+  }
+
+  /**
+   * @returns The first and last bin index along y (axis 0) or z (axis 1) overlapped by [min, max].
+   */
+  _binRange(min: number, max: number, axis: number): [number, number] {
+    const origin = axis === 0 ? this.bounds.min.y : this.bounds.min.z;
+    const size = axis === 0 ? this._binSize.x : this._binSize.y;
+    const last = this._binsPerAxis - 1;
+    return [
+      THREE.MathUtils.clamp(Math.floor((min - origin) / size), 0, last),
+      THREE.MathUtils.clamp(Math.floor((max - origin) / size), 0, last),
+    ];
+  }
+
+  contains(pos: THREE.Vector3): boolean {
+    if (!this.bounds.containsPoint(pos)) { return false; }
+    const [by] = this._binRange(pos.y, pos.y, 0);
+    const [bz] = this._binRange(pos.z, pos.z, 1);
+    const bin = by + bz * this._binsPerAxis;
+    const v = this.vertices;
+    const py = pos.y, pz = pos.z;
+
+    let crossings = 0;
+    for (let k = this._binStart[bin]; k < this._binStart[bin + 1]; k++) {
+      const o = 9 * this._binTriangles[k];
+      const y0 = v[o + 1], z0 = v[o + 2];
+      const y1 = v[o + 4], z1 = v[o + 5];
+      const y2 = v[o + 7], z2 = v[o + 8];
+      // Edge functions of the triangle projected onto the yz-plane, w_i is opposite vertex i
+      let w0 = (y2 - y1) * (pz - z1) - (z2 - z1) * (py - y1);
+      let w1 = (y0 - y2) * (pz - z2) - (z0 - z2) * (py - y2);
+      let w2 = (y1 - y0) * (pz - z0) - (z1 - z0) * (py - y0);
+      const area = w0 + w1 + w2;
+      if (area === 0) { continue; } // Parallel to the ray
+      const s = area > 0 ? 1 : -1;
+      w0 *= s; w1 *= s; w2 *= s;
+      // NOTE: A ray through an edge shared by two triangles must hit exactly one of them, so points
+      // on an edge only count for one side of it (the equivalent of the rasterization top-left rule)
+      if (!(insideEdge(w0, s * (y2 - y1), s * (z2 - z1)) &&
+            insideEdge(w1, s * (y0 - y2), s * (z0 - z2)) &&
+            insideEdge(w2, s * (y1 - y0), s * (z1 - z0)))) {
+        continue;
+      }
+      const x = (w0 * v[o] + w1 * v[o + 3] + w2 * v[o + 6]) / (w0 + w1 + w2);
+      if (x > pos.x) { crossings++; }
+    }
+    return (crossings & 1) === 1;
+  }
+}
+
+const insideEdge = (w: number, dy: number, dz: number): boolean => {
+  return w > 0 || (w === 0 && (dy > 0 || (dy === 0 && dz > 0)));
+};
@@ -0,0 +1,85 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { MPMSystem } from "./MPMSystem";
+import { BrittleMaterial, FluidMaterial } from "./Materials";
+import { BoxShape, SphereShape } from "./Shapes";
+import { SphereCollider } from "./Colliders";
+import { createRigidBody } from "./RigidBodies";
+import { ParticleEmitter, ParticleSink } from "./Emitters";
+import { HeatSource } from "./HeatSources";
+import { WindField } from "./ForceFields";
+import { createSnapshot, restoreSnapshot, snapshotFromBinary, snapshotToBinary } from "./Snapshot";
+
+const FRAME_DT = 1 / 60;
+
+// A brittle block thrown at a rigid ball, with a faucet of hot fluid, a drain, a hot plate and gusty wind
+const createScene = (): MPMSystem => {
+  const mpm = new MPMSystem({
+    cellSize: 0.1,
+    domain: new THREE.Box3(new THREE.Vector3(-2, -1, 0), new THREE.Vector3(2, 1.5, 0)),
+  });
+  mpm.addShape(new BoxShape(new THREE.Vector3(-1.5, -0.2, -1), new THREE.Vector3(-0.9, 0.2, 1)), {
+    particlesPerCell: 4, density: 100, material: new BrittleMaterial(5000, 0.2, 50, 0.5),
+    velocity: new THREE.Vector3(8, 0, 0), conductivity: 1,
+  });
+  mpm.addRigidBody(createRigidBody(new SphereCollider(new THREE.Vector3(0, 0, 0), 0.3), 200, true));
+  mpm.addEmitter(new ParticleEmitter(new SphereShape(new THREE.Vector3(1.2, 1.2, 0), 0.15), {
+    rate: 0.5, density: 100, particlesPerCell: 4, velocity: new THREE.Vector3(0, -2, 0),
+    material: new FluidMaterial(100, 200, 3, 0.1), temperature: 80, conductivity: 1,
+  }));
+  mpm.addSink(new ParticleSink(new BoxShape(new THREE.Vector3(1.5, -1, -1), new THREE.Vector3(2, -0.7, 1))));
+  mpm.addHeatSource(new HeatSource(new BoxShape(new THREE.Vector3(-2, -1, -1), new THREE.Vector3(2, -0.8, 1)), 100));
+  mpm.addForceField(new WindField(new THREE.Vector3(-1, 0, 0), { drag: 0.5, turbulence: 1, turbulenceScale: 0.5 }));
+  return mpm;
+};
+
+const advanceFrames = (mpm: MPMSystem, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    mpm.advance(FRAME_DT);
+  }
+};
+
+const assertSameArray = (actual: Float64Array, expected: Float64Array, count: number, message: string) => {
+  let differences = 0;
+  for (let i = 0; i < count; i++) {
+    if (actual[i] !== expected[i]) {
+      differences++;
+    }
+  }
+  assert.equal(differences, 0, `${message}: ${differences} of ${count} values differ`);
+};
+
+const assertSameState = (actual: MPMSystem, expected: MPMSystem) => {
+  assert.equal(actual.stepCount, expected.stepCount);
+  assert.equal(actual.particles.count, expected.particles.count);
+  const count = expected.particles.count;
+  assertSameArray(actual.particles.pos, expected.particles.pos, 3 * count, "Positions");
+  assertSameArray(actual.particles.vel, expected.particles.vel, 3 * count, "Velocities");
+  assertSameArray(actual.particles.F, expected.particles.F, 9 * count, "Deformation gradients");
+};
+
+describe("Snapshot", () => {
+  test("simulations restored from JSON and binary snapshots continue exactly like the original", () => {
+    const mpm = createScene();
+    advanceFrames(mpm, 10);
+    const playback = { frame: 10, frameDt: FRAME_DT };
+    const json = JSON.stringify(createSnapshot(mpm, playback));
+    const binary = snapshotToBinary(mpm, playback);
+    const { mpm: fromJson, playback: jsonPlayback } = restoreSnapshot(JSON.parse(json));
+    const { mpm: fromBinary, playback: binaryPlayback } = snapshotFromBinary(binary);
+    assert.deepEqual(jsonPlayback, playback);
+    assert.deepEqual(binaryPlayback, playback);
+
+    advanceFrames(mpm, 10);
+    advanceFrames(fromJson, 10);
+    advanceFrames(fromBinary, 10);
+
+    // The scene exercised the state that the snapshots have to capture
+    const particles = mpm.particles;
+    assert.ok(mpm.emitters[0].emitted > 0, "No particles emitted");
+    assert.ok(particles.damage.subarray(0, particles.count).some((d) => d > 0), "No damage");
+    assertSameState(fromJson, mpm);
+    assertSameState(fromBinary, mpm);
+  });
+});
@@ -0,0 +1,649 @@
+import * as THREE from 'three';
+import { MPMSystem, TimeStepOptions } from "./MPMSystem";
+import { Material, MaterialDescriptor, createMaterial } from "./Materials";
+import { KernelType, createKernel } from "./Kernels";
+import {
+  BoundaryType, Collider, PlaneCollider, SphereCollider, BoxCollider, CapsuleCollider, PolygonCollider
+} from "./Colliders";
+import { Shape, BoxShape, SphereShape, PolygonShape, SDFShape, MeshShape } from "./Shapes";
+import { ParticleEmitter, ParticleSink } from "./Emitters";
+import { HeatSource } from "./HeatSources";
+import { ForceField, Falloff, GravityField, AttractorField, VortexField, WindField } from "./ForceFields";
+import { RigidBody } from "./RigidBodies";
+import { ThermalProperties } from "./Particles";
+
+// Snapshots capture the full state of an MPMSystem so that a simulation can be resumed later.
+// Restoring a snapshot and stepping it with the same sequence of dt reproduces the exact same
+// particle state as the original simulation, bit for bit.
+// A snapshot is a JSON-compatible object, and can be stored either as JSON text or in a compact
+// binary format where the particle arrays are stored as raw little-endian doubles.
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+// Magic number at the start of binary snapshots ("MPMS" in ASCII)
+const BINARY_MAGIC = 0x534d504d;
+const BINARY_HEADER_SIZE = 12; // Magic, version and length of the JSON header (all uint32)
+
+type ColliderShape =
+  | { type: "plane", normal: number[] }
+  | { type: "sphere", radius: number }
+  | { type: "box", halfExtents: number[] }
+  | { type: "capsule", start: number[], end: number[], radius: number }
+  | { type: "polygon", vertices: number[][], halfDepth: number | null }; // null is an infinite depth
+
+// Colliders are stored with their current transform, which kinematic colliders update every step
+export type ColliderSnapshot = ColliderShape & {
+  position: number[];
+  rotation: number[]; // Quaternion (x, y, z, w)
+  linearVelocity: number[];
+  angularVelocity: number[];
+  boundary: BoundaryType;
+  friction: number;
+};
+
+export interface RigidBodySnapshot {
+  collider: ColliderSnapshot;
+  mass: number;
+  inertia: number[]; // Column-major, like Matrix3.elements
+  appliedForce: number[];
+  appliedTorque: number[];
+}
+
+// Shapes of emitters and sinks
+export type ShapeSnapshot =
+  | { type: "box", min: number[], max: number[] }
+  | { type: "sphere", center: number[], radius: number }
+  | { type: "polygon", position: number[], vertices: number[][], halfDepth: number | null }
+  | { type: "mesh", vertices: number[] } // 9 coordinates per triangle
+  | { type: "collider", collider: ColliderSnapshot, bounds: { min: number[], max: number[] } }; // Inside of a collider
+
+export interface EmitterSnapshot {
+  shape: ShapeSnapshot;
+  rate: number;
+  density: number;
+  material: number; // Index into the snapshot's materials
+  velocity: number[];
+  spacing: number | null;
+  particlesPerCell: number | null;
+  seed: number;
+  enabled: boolean;
+  emitted: number;
+  pendingVolume: number;
+  thermal: ThermalProperties;
+}
+
+export interface HeatSourceSnapshot {
+  shape: ShapeSnapshot;
+  temperature: number;
+  rate: number;
+  enabled: boolean;
+}
+
+export type ForceFieldSnapshot = {
+  position: number[];
+  region: ShapeSnapshot | null;
+  falloff: Falloff;
+  radius: number;
+  enabled: boolean;
+} & (
+  | { type: "gravity", acceleration: number[] }
+  | { type: "attractor", strength: number }
+  | { type: "vortex", axis: number[], strength: number, pull: number }
+  | { type: "wind", velocity: number[], drag: number, turbulence: number, turbulenceScale: number, seed: number }
+);
+
+export interface SinkSnapshot {
+  shape: ShapeSnapshot;
+  enabled: boolean;
+  removed: number;
+}
+
+// Per-particle arrays, in the same layout as the ParticleSet arrays (see ParticleSet)
+export interface ParticleArrays<T> {
+  active: T;
+  mass: T;
+  volume0: T;
+  pos: T;
+  vel: T;
+  B: T;
+  F: T;
+  J: T;
+  Jp: T;
+  velGrad: T;
+  material: T; // Index into the snapshot's materials
+  temperature: T;
+  heatCapacity: T;
+  conductivity: T;
+  temperatureGrad: T;
+  damage: T;
+}
+
+// Order in which the arrays are stored in binary snapshots
+const PARTICLE_ARRAYS: Array<keyof ParticleArrays<unknown>> = [
+  "active", "mass", "volume0", "pos", "vel", "B", "F", "J", "Jp", "velGrad", "material",
+  "temperature", "heatCapacity", "conductivity", "temperatureGrad", "damage"
+];
+const PARTICLE_ARRAY_STRIDES: ParticleArrays<number> = {
+  active: 1, mass: 1, volume0: 1, pos: 3, vel: 3, B: 9, F: 9, J: 1, Jp: 1, velGrad: 9, material: 1,
+  temperature: 1, heatCapacity: 1, conductivity: 1, temperatureGrad: 3, damage: 1
+};
+
+// How the simulation was being advanced, which the MPMSystem doesn't keep track of: the frames are
+// counted and timed by whoever calls advance(), e.g. the worker or the command line runner
+export interface SnapshotPlayback {
+  frame: number;   // Number of frames advanced so far
+  frameDt: number; // Simulated time per frame
+}
+
+export interface SnapshotHeader {
+  version: number; // SNAPSHOT_FORMAT_VERSION
+  playback: SnapshotPlayback;
+  grid: { cellSize: number, origin: number[], kernel: KernelType };
+  domain: { min: number[], max: number[] };
+  gravity: number[];
+  domainBoundary: { boundary: BoundaryType | null, friction: number }; // A null boundary is an open domain
+  timeStepOptions: TimeStepOptions;
+  stepCount: number;
+  time: number;
+  colliders: ColliderSnapshot[];
+  rigidBodies: RigidBodySnapshot[];
+  emitters: EmitterSnapshot[];
+  sinks: SinkSnapshot[];
+  heatSources: HeatSourceSnapshot[];
+  forceFields: ForceFieldSnapshot[];
+  materials: MaterialDescriptor[];
+  particleCount: number;
+  freeSlots: number[]; // See ParticleSet.freeSlots
+}
+
+export interface Snapshot extends SnapshotHeader {
+  particles: ParticleArrays<number[]>;
+}
+
+export interface RestoredSnapshot {
+  mpm: MPMSystem;
+  playback: SnapshotPlayback;
+}
+
+const snapshotCollider = (collider: Collider): ColliderSnapshot => {
+  let shape: ColliderShape;
+  if (collider instanceof PlaneCollider) {
+    shape = { type: "plane", normal: collider.planeNormal.toArray() };
+  }
+  else if (collider instanceof SphereCollider) {
+    shape = { type: "sphere", radius: collider.radius };
+  }
+  else if (collider instanceof BoxCollider) {
+    shape = { type: "box", halfExtents: collider.halfExtents.toArray() };
+  }
+  else if (collider instanceof CapsuleCollider) {
+    shape = { type: "capsule", start: collider.start.toArray(), end: collider.end.toArray(), radius: collider.radius };
+  }
+  else if (collider instanceof PolygonCollider) {
+    shape = {
+      type: "polygon", vertices: collider.vertices.map((v) => v.toArray()),
+      halfDepth: isFinite(collider.halfDepth) ? collider.halfDepth : null
+    };
+  }
+  else {
+    throw new Error(`Colliders of type ${collider.constructor.name} can't be saved in snapshots`);
+  }
+  return {
+    ...shape,
+    position: collider.position.toArray(),
+    rotation: collider.rotation.toArray(),
+    linearVelocity: collider.linearVelocity.toArray(),
+    angularVelocity: collider.angularVelocity.toArray(),
+    boundary: collider.boundary,
+    friction: collider.friction,
+  };
+};
+
+const restoreCollider = (s: ColliderSnapshot): Collider => {
+  const origin = new THREE.Vector3();
+  let collider: Collider;
+  switch (s.type) {
+    case "plane": {
+      const plane = new PlaneCollider(origin, new THREE.Vector3().fromArray(s.normal), s.boundary, s.friction);
+      // NOTE: The normal was already normalized when it was saved, normalizing again could change its last bits
+      plane.planeNormal.fromArray(s.normal);
+      collider = plane;
+      break;
+    }
+    case "sphere":
+      collider = new SphereCollider(origin, s.radius, s.boundary, s.friction);
+      break;
+    case "box":
+      collider = new BoxCollider(origin, new THREE.Vector3().fromArray(s.halfExtents), undefined, s.boundary, s.friction);
+      break;
+    case "capsule": {
+      // The saved end points are already relative to the capsule's position
+      const capsule = new CapsuleCollider(
+        new THREE.Vector3().fromArray(s.start), new THREE.Vector3().fromArray(s.end), s.radius, s.boundary, s.friction
+      );
+      capsule.start.fromArray(s.start);
+      capsule.end.fromArray(s.end);
+      collider = capsule;
+      break;
+    }
+    case "polygon":
+      collider = new PolygonCollider(
+        origin, s.vertices.map((v) => new THREE.Vector2().fromArray(v)), s.halfDepth ?? Infinity, s.boundary, s.friction
+      );
+      break;
+  }
+  collider.position.fromArray(s.position);
+  collider.rotation.fromArray(s.rotation);
+  collider.linearVelocity.fromArray(s.linearVelocity);
+  collider.angularVelocity.fromArray(s.angularVelocity);
+  return collider;
+};
+
+const snapshotRigidBody = (body: RigidBody): RigidBodySnapshot => ({
+  collider: snapshotCollider(body.collider),
+  mass: body.mass,
+  inertia: body.inertia.toArray(),
+  appliedForce: body.appliedForce.toArray(),
+  appliedTorque: body.appliedTorque.toArray(),
+});
+
+const restoreRigidBody = (s: RigidBodySnapshot): RigidBody => {
+  const body = new RigidBody(restoreCollider(s.collider), s.mass, new THREE.Matrix3().fromArray(s.inertia));
+  body.appliedForce.fromArray(s.appliedForce);
+  body.appliedTorque.fromArray(s.appliedTorque);
+  return body;
+};
+
+const snapshotShape = (shape: Shape): ShapeSnapshot => {
+  if (shape instanceof BoxShape) {
+    return { type: "box", min: shape.bounds.min.toArray(), max: shape.bounds.max.toArray() };
+  }
+  if (shape instanceof SphereShape) {
+    return { type: "sphere", center: shape.center.toArray(), radius: shape.radius };
+  }
+  if (shape instanceof PolygonShape) {
+    return {
+      type: "polygon", position: shape.position.toArray(), vertices: shape.vertices.map((v) => v.toArray()),
+      halfDepth: isFinite(shape.halfDepth) ? shape.halfDepth : null
+    };
+  }
+  if (shape instanceof MeshShape) {
+    return { type: "mesh", vertices: Array.from(shape.vertices) };
+  }
+  if (shape instanceof SDFShape && shape.collider) {
+    return {
+      type: "collider", collider: snapshotCollider(shape.collider),
+      bounds: { min: shape.bounds.min.toArray(), max: shape.bounds.max.toArray() }
+    };
+  }
+  throw new Error(`Shapes of type ${shape.constructor.name} can't be saved in snapshots`);
+};
+
+const restoreShape = (s: ShapeSnapshot): Shape => {
+  switch (s.type) {
+    case "box":
+      return new BoxShape(new THREE.Vector3().fromArray(s.min), new THREE.Vector3().fromArray(s.max));
+    case "sphere":
+      return new SphereShape(new THREE.Vector3().fromArray(s.center), s.radius);
+    case "polygon":
+      return new PolygonShape(
+        new THREE.Vector3().fromArray(s.position), s.vertices.map((v) => new THREE.Vector2().fromArray(v)),
+        s.halfDepth ?? Infinity
+      );
+    case "mesh":
+      return new MeshShape(s.vertices);
+    case "collider":
+      return SDFShape.fromCollider(
+        restoreCollider(s.collider),
+        new THREE.Box3(new THREE.Vector3().fromArray(s.bounds.min), new THREE.Vector3().fromArray(s.bounds.max))
+      );
+  }
+};
+
+const snapshotForceField = (field: ForceField): ForceFieldSnapshot => {
+  const common = {
+    position: field.position.toArray(), region: field.region && snapshotShape(field.region),
+    falloff: field.falloff, radius: field.radius, enabled: field.enabled,
+  };
+  if (field instanceof GravityField) {
+    return { ...common, type: "gravity", acceleration: field.acceleration.toArray() };
+  }
+  if (field instanceof AttractorField) {
+    return { ...common, type: "attractor", strength: field.strength };
+  }
+  if (field instanceof VortexField) {
+    return { ...common, type: "vortex", axis: field.axis.toArray(), strength: field.strength, pull: field.pull };
+  }
+  if (field instanceof WindField) {
+    return {
+      ...common, type: "wind", velocity: field.velocity.toArray(), drag: field.drag,
+      turbulence: field.turbulence, turbulenceScale: field.turbulenceScale, seed: field.seed
+    };
+  }
+  throw new Error(`Force fields of type ${field.constructor.name} can't be saved in snapshots`);
+};
+
+const restoreForceField = (s: ForceFieldSnapshot): ForceField => {
+  let field: ForceField;
+  switch (s.type) {
+    case "gravity":
+      field = new GravityField(new THREE.Vector3().fromArray(s.acceleration));
+      break;
+    case "attractor":
+      field = new AttractorField(new THREE.Vector3(), s.strength);
+      break;
+    case "vortex":
+      field = new VortexField(new THREE.Vector3(), new THREE.Vector3().fromArray(s.axis), s.strength, s.pull);
+      break;
+    case "wind":
+      field = new WindField(new THREE.Vector3().fromArray(s.velocity), {
+        drag: s.drag, turbulence: s.turbulence, turbulenceScale: s.turbulenceScale, seed: s.seed
+      });
+      break;
+  }
+  field.position.fromArray(s.position);
+  field.region = s.region && restoreShape(s.region);
+  field.falloff = s.falloff;
+  field.radius = s.radius;
+  field.enabled = s.enabled;
+  return field;
+};
+
+const snapshotEmitter = (emitter: ParticleEmitter, materialIndex: (material: Material) => number): EmitterSnapshot => {
+  return {
+    shape: snapshotShape(emitter.shape),
+    rate: emitter.rate,
+    density: emitter.density,
+    material: materialIndex(emitter.material),
+    velocity: emitter.velocity.toArray(),
+    spacing: emitter.spacing ?? null,
+    particlesPerCell: emitter.particlesPerCell ?? null,
+    seed: emitter.seed,
+    enabled: emitter.enabled,
+    emitted: emitter.emitted,
+    pendingVolume: emitter.pendingVolume,
+    thermal: { ...emitter.thermal },
+  };
+};
+
+const restoreEmitter = (s: EmitterSnapshot, materials: Material[]): ParticleEmitter => {
+  const material = materials[s.material];
+  if (material === undefined) {
+    throw new Error("Snapshot emitter has an invalid material index");
+  }
+  const emitter = new ParticleEmitter(restoreShape(s.shape), {
+    rate: s.rate,
+    density: s.density,
+    material,
+    velocity: new THREE.Vector3().fromArray(s.velocity),
+    spacing: s.spacing ?? undefined,
+    particlesPerCell: s.particlesPerCell ?? undefined,
+    seed: s.seed,
+    ...s.thermal,
+  });
+  emitter.enabled = s.enabled;
+  emitter.emitted = s.emitted;
+  emitter.pendingVolume = s.pendingVolume;
+  return emitter;
+};
+
+const createHeader = (mpm: MPMSystem, playback: SnapshotPlayback, materials: Material[]): SnapshotHeader => {
+  const grid = mpm.grid;
+  const wall = mpm.domainWalls[0];
+  return {
+    version: SNAPSHOT_FORMAT_VERSION,
+    playback: { frame: playback.frame, frameDt: playback.frameDt },
+    grid: { cellSize: grid.cellSize, origin: grid.leftBottomBackPos.toArray(), kernel: grid.kernel.type },
+    domain: { min: mpm.domain.min.toArray(), max: mpm.domain.max.toArray() },
+    gravity: mpm.gravity.toArray(),
+    domainBoundary: wall ? { boundary: wall.boundary, friction: wall.friction } : { boundary: null, friction: 0 },
+    timeStepOptions: { ...mpm.timeStepOptions },
+    stepCount: mpm.stepCount,
+    time: mpm.time,
+    colliders: mpm.colliders.map(snapshotCollider),
+    rigidBodies: mpm.rigidBodies.map(snapshotRigidBody),
+    emitters: mpm.emitters.map((emitter) => snapshotEmitter(emitter, (material) => materials.indexOf(material))),
+    sinks: mpm.sinks.map((sink) => ({ shape: snapshotShape(sink.shape), enabled: sink.enabled, removed: sink.removed })),
+    heatSources: mpm.heatSources.map((source) => ({
+      shape: snapshotShape(source.shape), temperature: source.temperature, rate: source.rate, enabled: source.enabled
+    })),
+    forceFields: mpm.forceFields.map(snapshotForceField),
+    materials: materials.map((material) => material.toDescriptor()),
+    particleCount: mpm.particles.count,
+    freeSlots: mpm.particles.freeSlots.slice(),
+  };
+};
+
+/**
+ * @returns The index of each particle's material in the list of distinct materials, which is also
+ * returned. The materials of the emitters come after those of the particles.
+ */
+const indexMaterials = (mpm: MPMSystem): [Material[], Uint32Array] => {
+  const particles = mpm.particles;
+  const materials: Material[] = [];
+  const indices = new Uint32Array(particles.count);
+  const materialIndex = new Map<Material, number>();
+  for (let i = 0; i < particles.count; i++) {
+    const material = particles.material[i];
+    let index = materialIndex.get(material);
+    if (index === undefined) {
+      index = materials.length;
+      materials.push(material);
+      materialIndex.set(material, index);
+    }
+    indices[i] = index;
+  }
+  for (const emitter of mpm.emitters) {
+    if (!materialIndex.has(emitter.material)) {
+      materialIndex.set(emitter.material, materials.length);
+      materials.push(emitter.material);
+    }
+  }
+  return [materials, indices];
+};
+
+/**
+ * @returns A new MPMSystem with the state of the given header, but no particles.
+ */
+const restoreSystem = (header: SnapshotHeader): MPMSystem => {
+  assertSupportedVersion(header.version);
+  const mpm = new MPMSystem({
+    domain: new THREE.Box3(
+      new THREE.Vector3().fromArray(header.domain.min), new THREE.Vector3().fromArray(header.domain.max)
+    ),
+    cellSize: header.grid.cellSize,
+    origin: new THREE.Vector3().fromArray(header.grid.origin),
+    kernel: createKernel(header.grid.kernel),
+    gravity: new THREE.Vector3().fromArray(header.gravity),
+  });
+  mpm.setDomainBoundary(header.domainBoundary.boundary, header.domainBoundary.friction);
+  Object.assign(mpm.timeStepOptions, header.timeStepOptions);
+  mpm.stepCount = header.stepCount;
+  mpm.time = header.time;
+  header.colliders.forEach((collider) => mpm.addCollider(restoreCollider(collider)));
+  header.rigidBodies.forEach((body) => mpm.addRigidBody(restoreRigidBody(body)));
+  header.sinks.forEach((s) => {
+    const sink = new ParticleSink(restoreShape(s.shape));
+    sink.enabled = s.enabled;
+    sink.removed = s.removed;
+    mpm.addSink(sink);
+  });
+  header.heatSources.forEach((s) => {
+    const source = new HeatSource(restoreShape(s.shape), s.temperature, s.rate);
+    source.enabled = s.enabled;
+    mpm.addHeatSource(source);
+  });
+  header.forceFields.forEach((field) => mpm.addForceField(restoreForceField(field)));
+  return mpm;
+};
+
+/**
+ * Copies the particle arrays into the (empty) system's particles.
+ */
+const restoreParticles = (
+  mpm: MPMSystem, header: SnapshotHeader, arrays: ParticleArrays<ArrayLike<number>>
+) => {
+  const particles = mpm.particles;
+  const count = header.particleCount;
+  particles.reserve(count);
+  for (const name of PARTICLE_ARRAYS) {
+    if (arrays[name].length !== PARTICLE_ARRAY_STRIDES[name] * count) {
+      throw new Error(`Snapshot particle array ${name} has the wrong length`);
+    }
+  }
+  particles.active.set(arrays.active);
+  particles.mass.set(arrays.mass);
+  particles.volume0.set(arrays.volume0);
+  particles.pos.set(arrays.pos);
+  particles.vel.set(arrays.vel);
+  particles.B.set(arrays.B);
+  particles.F.set(arrays.F);
+  particles.J.set(arrays.J);
+  particles.Jp.set(arrays.Jp);
+  particles.velGrad.set(arrays.velGrad);
+  particles.temperature.set(arrays.temperature);
+  particles.heatCapacity.set(arrays.heatCapacity);
+  particles.conductivity.set(arrays.conductivity);
+  particles.temperatureGrad.set(arrays.temperatureGrad);
+  particles.damage.set(arrays.damage);
+  const materials = header.materials.map(createMaterial);
+  for (let i = 0; i < count; i++) {
+    const material = materials[arrays.material[i]];
+    if (material === undefined) {
+      throw new Error(`Snapshot particle ${i} has an invalid material index`);
+    }
+    particles.material[i] = material;
+  }
+  particles.count = count;
+  for (const slot of header.freeSlots) {
+    if (!(slot >= 0 && slot < count && !particles.active[slot])) {
+      throw new Error(`Snapshot free slot ${slot} isn't an inactive particle`);
+    }
+  }
+  particles.freeSlots = header.freeSlots.slice();
+  // NOTE: Emitters share the materials of the particles, so they're restored with them
+  header.emitters.forEach((emitter) => mpm.addEmitter(restoreEmitter(emitter, materials)));
+};
+
+/**
+ * @returns A JSON-compatible snapshot of the full state of the given system.
+ * NOTE: JSON can't represent the sign of zero or non-finite numbers, use the binary format
+ * (snapshotToBinary) to capture simulations that have blown up.
+ */
+export const createSnapshot = (mpm: MPMSystem, playback: SnapshotPlayback): Snapshot => {
+  const [materials, materialIndices] = indexMaterials(mpm);
+  const particles = mpm.particles;
+  const count = particles.count;
+  const toArray = (array: ArrayLike<number> & { subarray(start: number, end: number): ArrayLike<number> }, stride: number) =>
+    Array.from(array.subarray(0, stride * count));
+  return {
+    ...createHeader(mpm, playback, materials),
+    particles: {
+      active: toArray(particles.active, 1),
+      mass: toArray(particles.mass, 1),
+      volume0: toArray(particles.volume0, 1),
+      pos: toArray(particles.pos, 3),
+      vel: toArray(particles.vel, 3),
+      B: toArray(particles.B, 9),
+      F: toArray(particles.F, 9),
+      J: toArray(particles.J, 1),
+      Jp: toArray(particles.Jp, 1),
+      velGrad: toArray(particles.velGrad, 9),
+      material: Array.from(materialIndices),
+      temperature: toArray(particles.temperature, 1),
+      heatCapacity: toArray(particles.heatCapacity, 1),
+      conductivity: toArray(particles.conductivity, 1),
+      temperatureGrad: toArray(particles.temperatureGrad, 3),
+      damage: toArray(particles.damage, 1),
+    },
+  };
+};
+
+/**
+ * @returns A new MPMSystem restored from the given snapshot, and how it was being advanced.
+ */
+export const restoreSnapshot = (snapshot: Snapshot): RestoredSnapshot => {
+  const mpm = restoreSystem(snapshot);
+  restoreParticles(mpm, snapshot, snapshot.particles);
+  return { mpm, playback: { ...snapshot.playback } };
+};
+
+const assertSupportedVersion = (version: number) => {
+  if (version !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${version}, expected ${SNAPSHOT_FORMAT_VERSION}`);
+  }
+};
+
+const assertLittleEndian = () => {
+  // NOTE: Typed arrays use the platform's byte order, which is little-endian on every platform we run on
+  console.assert(new Uint8Array(new Uint16Array([1]).buffer)[0] === 1, "Binary snapshots require a little-endian platform");
+};
+
+/**
+ * Binary layout: magic (uint32), version (uint32), header length in bytes (uint32), the header as
+ * UTF-8 JSON (SnapshotHeader), padding to a multiple of 8 bytes, then each of the particle arrays
+ * (see PARTICLE_ARRAYS for the order) as float64s.
+ * @returns A binary snapshot of the full state of the given system.
+ */
+export const snapshotToBinary = (mpm: MPMSystem, playback: SnapshotPlayback): ArrayBuffer => {
+  assertLittleEndian();
+  const [materials, materialIndices] = indexMaterials(mpm);
+  const header = new TextEncoder().encode(JSON.stringify(createHeader(mpm, playback, materials)));
+  const particles = mpm.particles;
+  const count = particles.count;
+
+  const arraysOffset = Math.ceil((BINARY_HEADER_SIZE + header.length) / 8) * 8;
+  const valuesPerParticle = PARTICLE_ARRAYS.reduce((sum, name) => sum + PARTICLE_ARRAY_STRIDES[name], 0);
+  const buffer = new ArrayBuffer(arraysOffset + 8 * valuesPerParticle * count);
+
+  const view = new DataView(buffer);
+  view.setUint32(0, BINARY_MAGIC, true);
+  view.setUint32(4, SNAPSHOT_FORMAT_VERSION, true);
+  view.setUint32(8, header.length, true);
+  new Uint8Array(buffer, BINARY_HEADER_SIZE, header.length).set(header);
+
+  const data = new Float64Array(buffer, arraysOffset);
+  let offset = 0;
+  for (const name of PARTICLE_ARRAYS) {
+    const length = PARTICLE_ARRAY_STRIDES[name] * count;
+    const array = name === "material" ? materialIndices : particles[name];
+    for (let i = 0; i < length; i++) {
+      data[offset + i] = array[i];
+    }
+    offset += length;
+  }
+  return buffer;
+};
+
+/**
+ * @returns A new MPMSystem restored from a binary snapshot (see snapshotToBinary), and how it was
+ * being advanced.
+ */
+export const snapshotFromBinary = (buffer: ArrayBuffer): RestoredSnapshot => {
+  assertLittleEndian();
+  const view = new DataView(buffer);
+  if (buffer.byteLength < BINARY_HEADER_SIZE || view.getUint32(0, true) !== BINARY_MAGIC) {
+    throw new Error("Not a binary MPM snapshot");
+  }
+  assertSupportedVersion(view.getUint32(4, true));
+  const headerLength = view.getUint32(8, true);
+  const header: SnapshotHeader = JSON.parse(
+    new TextDecoder().decode(new Uint8Array(buffer, BINARY_HEADER_SIZE, headerLength))
+  );
+  const mpm = restoreSystem(header);
+
+  const arraysOffset = Math.ceil((BINARY_HEADER_SIZE + headerLength) / 8) * 8;
+  const count = header.particleCount;
+  const arrays = {} as ParticleArrays<Float64Array>;
+  let offset = arraysOffset;
+  for (const name of PARTICLE_ARRAYS) {
+    const length = PARTICLE_ARRAY_STRIDES[name] * count;
+    if (offset + 8 * length > buffer.byteLength) {
+      throw new Error("Binary snapshot is truncated");
+    }
+    arrays[name] = new Float64Array(buffer, offset, length);
+    offset += 8 * length;
+  }
+  restoreParticles(mpm, header, arrays);
+  return { mpm, playback: header.playback };
+};
@@ -0,0 +1,42 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { MPMSystem } from "./MPMSystem";
+import { SphereShape } from "./Shapes";
+import { extractSurface } from "./Surface";
+
+describe("Surface", () => {
+  for (const is2D of [true, false]) {
+    const dims = is2D ? "2D" : "3D";
+
+    test(`the surface of a ball of particles is a sphere of its radius (${dims})`, () => {
+      const center = new THREE.Vector3(0.1, -0.2, 0), radius = 0.5;
+      const mpm = new MPMSystem({
+        cellSize: 0.1,
+        domain: new THREE.Box3(new THREE.Vector3(-1, -1, is2D ? 0 : -1), new THREE.Vector3(1, 1, is2D ? 0 : 1)),
+      });
+      mpm.addShape(new SphereShape(center, radius), { particlesPerCell: is2D ? 4 : 8, density: 1 });
+      const mesh = extractSurface(mpm.particles, is2D, 0.05);
+
+      // Segments in 2D, triangles in 3D
+      const vertexCount = mesh.positions.length / 3;
+      assert.ok(vertexCount > 0);
+      assert.equal(vertexCount % (is2D ? 2 : 3), 0);
+      assert.equal(mesh.normals === null, is2D);
+
+      const offset = new THREE.Vector3();
+      const normal = new THREE.Vector3();
+      for (let i = 0; i < vertexCount; i++) {
+        offset.fromArray(mesh.positions, 3*i).sub(center);
+        if (is2D) {
+          assert.equal(offset.z, 0, "The contour is in the plane of the particles");
+        }
+        const distance = offset.length();
+        assert.ok(Math.abs(distance - radius) <= 0.05, `Vertex ${i} at distance ${distance} from the center`);
+        if (mesh.normals) {
+          assert.ok(normal.fromArray(mesh.normals, 3*i).dot(offset) > 0, `Normal ${i} points inwards`);
+        }
+      }
+    });
+  }
+});
@@ -0,0 +1,268 @@
+import * as THREE from 'three';
+import { edgeTable, triTable } from 'three/examples/jsm/objects/MarchingCubes.js';
+import { ParticleSet } from "./Particles";
+
+// NOTE: The typings declare the tables as arrays of arrays, they are flat arrays. The triangle
+// table holds 16 edge indices per case, terminated by -1.
+const EDGE_TABLE = edgeTable as unknown as Int32Array;
+const TRI_TABLE = triTable as unknown as Int32Array;
+
+// Corners of a cell and the pairs of corners that its edges connect, in the order of the marching
+// cubes tables (Bourke's "Polygonising a scalar field")
+const CUBE_CORNERS = [
+  [0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0], [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1],
+];
+const CUBE_EDGES = [
+  [0, 1], [1, 2], [2, 3], [3, 0], [4, 5], [5, 6], [6, 7], [7, 4], [0, 4], [1, 5], [2, 6], [3, 7],
+];
+// The first 4 corners and edges of a cube are those of a square, the edges crossed by the contour
+// for each case of the marching squares (bit i set if corner i is inside). The ambiguous cases
+// 5 and 10 are resolved separately.
+const SQUARE_SEGMENTS: number[][] = [
+  [], [3, 0], [0, 1], [3, 1], [1, 2], [], [0, 2], [3, 2],
+  [2, 3], [0, 2], [], [1, 2], [3, 1], [0, 1], [3, 0], [],
+];
+
+// Upper bound on the number of nodes of the density field, its resolution is lowered to stay below
+const MAX_FIELD_NODES = 1 << 22;
+
+export interface SurfaceMesh {
+  // 2D: the endpoints of the line segments of the contour. 3D: the vertices of the triangles.
+  positions: Float32Array;
+  // 3D: the normal of each vertex, pointing out of the material. Null in 2D.
+  normals: Float32Array | null;
+}
+
+/**
+ * Scalar field sampled at the nodes of a regular grid, the node (i, j, k) is at origin + (i, j, k) * spacing.
+ */
+export class DensityField {
+  origin: THREE.Vector3;
+  spacing: number;
+  size: THREE.Vector3; // Number of nodes along each axis, 1 along z in 2D
+  values: Float32Array;
+
+  constructor(origin: THREE.Vector3, spacing: number, size: THREE.Vector3) {
+    this.origin = origin;
+    this.spacing = spacing;
+    this.size = size;
+    this.values = new Float32Array(size.x * size.y * size.z);
+  }
+
+  get is2D(): boolean {
+    return this.size.z === 1;
+  }
+
+  index(i: number, j: number, k: number): number {
+    return i + j * this.size.x + k * this.size.x * this.size.y;
+  }
+
+  /**
+   * Splats the current volume of the active particles onto the nodes of a grid around them with
+   * quadratic B-spline weights. The field is then about 1 inside the material and 0 outside.
+   * @param spacing Distance between the nodes. It's raised to the average distance between the
+   * particles if smaller, otherwise the field would have a bump around each particle.
+   */
+  static fromParticles(particles: ParticleSet, is2D: boolean, spacing: number): DensityField {
+    console.assert(spacing > 0, "Spacing must be greater than 0");
+    const bounds = new THREE.Box3();
+    const pos = new THREE.Vector3();
+    let totalVolume = 0;
+    let numActive = 0;
+    for (let i = 0; i < particles.count; i++) {
+      if (particles.active[i]) {
+        bounds.expandByPoint(particles.getPosition(i, pos));
+        totalVolume += particles.volume0[i] * particles.J[i];
+        numActive++;
+      }
+    }
+    if (numActive === 0) {
+      return new DensityField(new THREE.Vector3(), spacing, new THREE.Vector3(1, 1, 1));
+    }
+    spacing = Math.max(spacing, Math.pow(totalVolume / numActive, 1 / (is2D ? 2 : 3)));
+
+    // The splatting stencil reaches 1.5 nodes from a particle, the extra padding node keeps the
+    // field at 0 on the boundary so that the surface is closed
+    const padding = 3;
+    const extent = bounds.getSize(new THREE.Vector3());
+    const nodeCount = (h: number) => (extent.x / h + 2 * padding) * (extent.y / h + 2 * padding) *
+      (is2D ? 1 : extent.z / h + 2 * padding);
+    while (nodeCount(spacing) > MAX_FIELD_NODES) {
+      spacing *= 1.25;
+    }
+    const origin = bounds.min.clone().addScalar(-padding * spacing);
+    const size = extent.divideScalar(spacing).floor().addScalar(2 * padding + 1);
+    if (is2D) {
+      origin.z = bounds.min.z;
+      size.z = 1;
+    }
+    const field = new DensityField(origin, spacing, size);
+
+    const values = field.values;
+    const invH = 1 / spacing;
+    const cellVolume = is2D ? spacing * spacing : spacing * spacing * spacing;
+    const w = new Float64Array(9);
+    const base = [0, 0, 0];
+    for (let p = 0; p < particles.count; p++) {
+      if (!particles.active[p]) { continue; }
+      for (let axis = 0; axis < (is2D ? 2 : 3); axis++) {
+        const u = (particles.pos[3*p + axis] - origin.getComponent(axis)) * invH;
+        const b = Math.floor(u - 0.5);
+        const fx = u - b;
+        base[axis] = b;
+        w[3*axis] = 0.5 * (1.5 - fx) * (1.5 - fx);
+        w[3*axis + 1] = 0.75 - (fx - 1) * (fx - 1);
+        w[3*axis + 2] = 0.5 * (fx - 0.5) * (fx - 0.5);
+      }
+      const volume = particles.volume0[p] * particles.J[p] / cellVolume;
+      for (let k = 0; k < (is2D ? 1 : 3); k++) {
+        const wz = is2D ? 1 : w[6 + k];
+        for (let j = 0; j < 3; j++) {
+          const wyz = wz * w[3 + j];
+          const row = field.index(base[0], base[1] + j, is2D ? 0 : base[2] + k);
+          for (let i = 0; i < 3; i++) {
+            values[row + i] += volume * wyz * w[i];
+          }
+        }
+      }
+    }
+    return field;
+  }
+
+  /**
+   * Marching squares (2D) or marching cubes (3D) on the field.
+   * @returns The contour (2D) or surface (3D) where the field crosses the iso level.
+   */
+  extractSurface(isoLevel: number): SurfaceMesh {
+    return this.is2D ? this._marchingSquares(isoLevel) : this._marchingCubes(isoLevel);
+  }
+
+  _marchingSquares(isoLevel: number): SurfaceMesh {
+    const { x: nx, y: ny } = this.size;
+    const v = this.values;
+    const h = this.spacing;
+    const positions: number[] = [];
+    const corner = [0, 0, 0, 0];
+
+    const addEdgeVertex = (i: number, j: number, edge: number) => {
+      const [a, b] = CUBE_EDGES[edge];
+      const t = (isoLevel - corner[a]) / (corner[b] - corner[a]);
+      const [ax, ay] = CUBE_CORNERS[a];
+      const [bx, by] = CUBE_CORNERS[b];
+      positions.push(
+        this.origin.x + (i + ax + t * (bx - ax)) * h,
+        this.origin.y + (j + ay + t * (by - ay)) * h,
+        this.origin.z
+      );
+    };
+    const addSegment = (i: number, j: number, edge0: number, edge1: number) => {
+      addEdgeVertex(i, j, edge0);
+      addEdgeVertex(i, j, edge1);
+    };
+
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        const n = i + j * nx;
+        corner[0] = v[n];
+        corner[1] = v[n + 1];
+        corner[2] = v[n + nx + 1];
+        corner[3] = v[n + nx];
+        let square = 0;
+        for (let c = 0; c < 4; c++) {
+          if (corner[c] >= isoLevel) { square |= 1 << c; }
+        }
+        if (square === 5 || square === 10) {
+          // Saddle, the average of the corners decides whether the inside corners are connected
+          const centerInside = (corner[0] + corner[1] + corner[2] + corner[3]) / 4 >= isoLevel;
+          if ((square === 5) === centerInside) {
+            addSegment(i, j, 0, 1);
+            addSegment(i, j, 2, 3);
+          }
+          else {
+            addSegment(i, j, 3, 0);
+            addSegment(i, j, 1, 2);
+          }
+          continue;
+        }
+        const segments = SQUARE_SEGMENTS[square];
+        for (let s = 0; s < segments.length; s += 2) {
+          addSegment(i, j, segments[s], segments[s + 1]);
+        }
+      }
+    }
+    return { positions: new Float32Array(positions), normals: null };
+  }
+
+  _marchingCubes(isoLevel: number): SurfaceMesh {
+    const { x: nx, y: ny, z: nz } = this.size;
+    const v = this.values;
+    const h = this.spacing;
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const corner = new Float64Array(8);
+    const edgeVertices = new Float64Array(3 * 12);
+    const edgeNormals = new Float64Array(3 * 12);
+    const gradA = new THREE.Vector3();
+    const gradB = new THREE.Vector3();
+
+    for (let k = 0; k < nz - 1; k++) {
+      for (let j = 0; j < ny - 1; j++) {
+        for (let i = 0; i < nx - 1; i++) {
+          // NOTE: The tables set the bit of a corner when it's below the iso level, i.e. outside
+          let cube = 0;
+          for (let c = 0; c < 8; c++) {
+            const [cx, cy, cz] = CUBE_CORNERS[c];
+            corner[c] = v[this.index(i + cx, j + cy, k + cz)];
+            if (corner[c] < isoLevel) { cube |= 1 << c; }
+          }
+          const edges = EDGE_TABLE[cube];
+          if (edges === 0) { continue; }
+
+          for (let e = 0; e < 12; e++) {
+            if ((edges & (1 << e)) === 0) { continue; }
+            const [a, b] = CUBE_EDGES[e];
+            const t = (isoLevel - corner[a]) / (corner[b] - corner[a]);
+            const [ax, ay, az] = CUBE_CORNERS[a];
+            const [bx, by, bz] = CUBE_CORNERS[b];
+            edgeVertices[3*e] = this.origin.x + (i + ax + t * (bx - ax)) * h;
+            edgeVertices[3*e + 1] = this.origin.y + (j + ay + t * (by - ay)) * h;
+            edgeVertices[3*e + 2] = this.origin.z + (k + az + t * (bz - az)) * h;
+            // The density decreases outwards, so the normal is along the negative gradient
+            this._gradient(i + ax, j + ay, k + az, gradA);
+            this._gradient(i + bx, j + by, k + bz, gradB);
+            gradA.lerp(gradB, t).negate().normalize();
+            gradA.toArray(edgeNormals, 3*e);
+          }
+          for (let n = 16 * cube; TRI_TABLE[n] !== -1; n++) {
+            const e = TRI_TABLE[n];
+            positions.push(edgeVertices[3*e], edgeVertices[3*e + 1], edgeVertices[3*e + 2]);
+            normals.push(edgeNormals[3*e], edgeNormals[3*e + 1], edgeNormals[3*e + 2]);
+          }
+        }
+      }
+    }
+    return { positions: new Float32Array(positions), normals: new Float32Array(normals) };
+  }
+
+  // Central differences, one-sided on the boundary of the field
+  _gradient(i: number, j: number, k: number, out: THREE.Vector3): THREE.Vector3 {
+    const v = this.values;
+    const { x: nx, y: ny, z: nz } = this.size;
+    const difference = (i0: number, j0: number, k0: number, i1: number, j1: number, k1: number, steps: number) =>
+      (v[this.index(i1, j1, k1)] - v[this.index(i0, j0, k0)]) / (steps * this.spacing);
+    return out.set(
+      difference(Math.max(i - 1, 0), j, k, Math.min(i + 1, nx - 1), j, k, Math.min(i + 1, nx - 1) - Math.max(i - 1, 0)),
+      difference(i, Math.max(j - 1, 0), k, i, Math.min(j + 1, ny - 1), k, Math.min(j + 1, ny - 1) - Math.max(j - 1, 0)),
+      difference(i, j, Math.max(k - 1, 0), i, j, Math.min(k + 1, nz - 1), Math.min(k + 1, nz - 1) - Math.max(k - 1, 0))
+    );
+  }
+}
+
+/**
+ * Reconstructs the surface of the material from the density of the particles.
+ * @param spacing Resolution of the reconstruction, see DensityField.fromParticles.
+ * @param isoLevel Density (as a fraction of the density inside the material) at the surface.
+ */
+export const extractSurface = (particles: ParticleSet, is2D: boolean, spacing: number, isoLevel = 0.5): SurfaceMesh => {
+  return DensityField.fromParticles(particles, is2D, spacing).extractSurface(isoLevel);
+};
@@ -0,0 +1,44 @@
+import { SceneDescription } from "./SceneDescription";
+
+// Scenes shown when the app isn't given one
+
+// Water column against the left wall (dam-break) and a jelly block resting on the floor
+export const DAM_BREAK_2D: SceneDescription = {
+  version: 1,
+  name: "Dam break (2D)",
+  bodies: [
+    {
+      name: "water",
+      shape: { type: "box", min: [-3.0, -3.0, 0], max: [-1.4, 0.2, 0] },
+      spacing: 0.1,
+      material: { type: "fluid", restDensity: 100, stiffness: 200, gamma: 3, viscosity: 0.1 },
+    },
+    {
+      name: "jelly",
+      shape: { type: "box", min: [1.0, -3.0, 0], max: [2.2, -1.8, 0] },
+      spacing: 0.1,
+      material: { type: "fixedCorotated", youngsModulus: 5000, poissonRatio: 0.2 },
+    },
+  ],
+};
+
+// Same scene in 3D
+export const DAM_BREAK_3D: SceneDescription = {
+  version: 1,
+  name: "Dam break (3D)",
+  grid: { domain: { min: [-1.5, -1.5, -1.5], max: [1.5, 1.5, 1.5] } },
+  bodies: [
+    {
+      name: "water",
+      shape: { type: "box", min: [-1.5, -1.5, -1.5], max: [-0.7, 0.1, -0.7] },
+      spacing: 0.1,
+      material: { type: "fluid", restDensity: 100, stiffness: 200, gamma: 3, viscosity: 0.1 },
+    },
+    {
+      name: "jelly",
+      shape: { type: "box", min: [0.4, -1.5, 0.4], max: [1.2, -0.7, 1.2] },
+      spacing: 0.1,
+      material: { type: "fixedCorotated", youngsModulus: 5000, poissonRatio: 0.2 },
+    },
+  ],
+};
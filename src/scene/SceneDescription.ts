@@ -0,0 +1,190 @@
+import type { MaterialDescriptor } from "../mpm/Materials";
+import type { KernelType } from "../mpm/Kernels";
+import type { SamplingPattern } from "../mpm/Sampling";
+
+// JSON scene format. A scene fully describes a simulation setup so that it can be shared as a
+// file: the grid, gravity, solver settings, the bodies of material, the colliders, the rigid
+// bodies, the emitters and sinks that add and remove material while the simulation runs, the
+// heat sources that warm it up or cool it down and the force fields that steer it.
+// Every field other than the version is optional and falls back to the simulation defaults.
+// Vectors are [x, y, z] arrays, in 2D scenes the z components are ignored.
+
+export const SCENE_FORMAT_VERSION = 1;
+
+export type Vec3Tuple = [number, number, number];
+export type Vec2Tuple = [number, number];
+
+export type BoundaryName = "sticky" | "slip" | "separate";
+export type FalloffName = "none" | "linear" | "smooth" | "inverseSquare";
+
+export interface GridDescription {
+  cellSize?: number;
+  // Either the grid size (in cells) and origin, or the domain box the material is confined to.
+  // A z size of 1 (or a domain with no extent in z) makes the simulation 2D. The grid only allocates
+  // the cells around the particles, so the domain of an open scene (see SolverDescription) is only
+  // where the walls would be.
+  gridSize?: Vec3Tuple;
+  origin?: Vec3Tuple;
+  domain?: { min: Vec3Tuple, max: Vec3Tuple };
+}
+
+export interface SolverDescription {
+  kernel?: KernelType;
+  frameDt?: number;     // Simulated time per rendered frame
+  cflNumber?: number;
+  minDt?: number;
+  maxDt?: number;
+  maxSubsteps?: number;
+  // An open domain has no walls, the material flows out of it without bounds
+  domainBoundary?: { boundary: BoundaryName | "open", friction?: number };
+}
+
+/**
+ * A triangle mesh, either inline or loaded by the app from a glTF file (see resolveSceneMeshes).
+ * The mesh must be closed. It is scaled, rotated (XYZ Euler angles in degrees) and then translated.
+ */
+export interface MeshShapeDescription {
+  type: "mesh";
+  url?: string;
+  positions?: number[]; // 3 coordinates per vertex
+  indices?: number[];   // 3 vertices per triangle, defaults to consecutive vertices
+  position?: Vec3Tuple;
+  rotation?: Vec3Tuple;
+  scale?: number | Vec3Tuple;
+}
+
+// In 2D scenes shapes are sliced by the xy-plane through the middle of the shape
+export type ShapeDescription =
+  | { type: "box", min: Vec3Tuple, max: Vec3Tuple }
+  | { type: "sphere", center: Vec3Tuple, radius: number }
+  | { type: "capsule", start: Vec3Tuple, end: Vec3Tuple, radius: number }
+  | { type: "polygon", position: Vec3Tuple, vertices: Vec2Tuple[], halfDepth?: number }
+  | MeshShapeDescription;
+
+/**
+ * A body of material, the inside of its shape is sampled into particles.
+ */
+export interface BodyDescription {
+  name?: string;
+  shape: ShapeDescription;
+  // Either the distance between particles or the number of particles per grid cell
+  spacing?: number;
+  particlesPerCell?: number;
+  sampling?: SamplingPattern; // Defaults to lattice
+  seed?: number;              // Seed of the random sampling patterns
+  density?: number;           // Mass per unit volume, defaults to DEFAULT_BODY_DENSITY
+  material: MaterialDescriptor;
+  velocity?: Vec3Tuple;
+  angularVelocity?: Vec3Tuple; // Axis * radians per second, about the body's center of mass
+  temperature?: number;
+  heatCapacity?: number; // Specific heat capacity, energy per unit mass per degree
+  conductivity?: number; // Thermal conductivity, 0 (the default) keeps the temperature of the particles
+}
+
+/**
+ * A continuous source of material (e.g. a faucet), particles appear at random positions within its shape.
+ */
+export interface EmitterDescription {
+  name?: string;
+  shape: ShapeDescription;
+  rate: number; // Volume (area in 2D) of material emitted per second
+  // Either the distance between particles or the number of particles per grid cell
+  spacing?: number;
+  particlesPerCell?: number;
+  seed?: number;
+  density?: number; // Mass per unit volume, defaults to DEFAULT_BODY_DENSITY
+  material: MaterialDescriptor;
+  velocity?: Vec3Tuple;
+  temperature?: number;  // Thermal state of the emitted particles, as for bodies
+  heatCapacity?: number;
+  conductivity?: number;
+  enabled?: boolean; // Defaults to true
+}
+
+/**
+ * A drain, the particles that enter its shape are removed.
+ */
+export interface SinkDescription {
+  name?: string;
+  shape: ShapeDescription;
+}
+
+/**
+ * A region that brings the material within its shape to a temperature, a heat sink being a source
+ * with a low temperature.
+ */
+export interface HeatSourceDescription {
+  name?: string;
+  shape: ShapeDescription;
+  temperature: number;
+  rate?: number;     // How fast the material takes on the temperature, in 1/s (defaults to 10)
+  enabled?: boolean; // Defaults to true
+}
+
+interface ForceFieldCommon {
+  name?: string;
+  region?: ShapeDescription; // Where the field acts, everywhere by default
+  falloff?: FalloffName;     // Of the strength with the distance from the position, defaults to none
+  radius?: number;           // Length scale of the falloff, defaults to 1
+  enabled?: boolean;         // Defaults to true
+}
+
+/**
+ * An external force on the material and the rigid bodies, on top of the scene's gravity. The
+ * strengths are accelerations, attractors repel with a negative strength and vortices swirl
+ * counterclockwise about their axis (z by default) with a positive one. Wind drags the material
+ * towards its velocity, plus turbulent gusts of the given amplitude and size.
+ */
+export type ForceFieldDescription = ForceFieldCommon & (
+  | { type: "gravity", acceleration: Vec3Tuple, position?: Vec3Tuple }
+  | { type: "attractor", position: Vec3Tuple, strength: number }
+  | { type: "vortex", position: Vec3Tuple, axis?: Vec3Tuple, strength: number, pull?: number }
+  | {
+      type: "wind", velocity: Vec3Tuple, position?: Vec3Tuple,
+      drag?: number, turbulence?: number, turbulenceScale?: number, seed?: number
+    }
+);
+
+interface ColliderCommon {
+  name?: string;
+  boundary?: BoundaryName; // Defaults to sticky
+  friction?: number;
+  linearVelocity?: Vec3Tuple;
+  angularVelocity?: Vec3Tuple; // Axis * radians per second
+}
+
+export type ColliderDescription = ColliderCommon & (
+  | { type: "plane", point: Vec3Tuple, normal: Vec3Tuple }
+  | { type: "sphere", center: Vec3Tuple, radius: number }
+  | { type: "box", center: Vec3Tuple, halfExtents: Vec3Tuple, rotation?: Vec3Tuple } // XYZ Euler angles in degrees
+  | { type: "capsule", start: Vec3Tuple, end: Vec3Tuple, radius: number }
+  | { type: "polygon", position: Vec3Tuple, vertices: Vec2Tuple[], halfDepth?: number }
+);
+
+/**
+ * A rigid body that exchanges momentum with the material, with the shape of a collider of one of
+ * the given types and a uniform density. Its velocities are the initial ones. Polygons are
+ * positioned at their centroid, and need a finite depth in 3D.
+ */
+export type RigidBodyDescription = ColliderCommon & {
+  density?: number;           // Mass per unit volume, defaults to DEFAULT_BODY_DENSITY
+  appliedForce?: Vec3Tuple;   // Constant external force and torque on top of gravity, e.g. a motor
+  appliedTorque?: Vec3Tuple;
+} & Extract<ColliderDescription, { type: "sphere" | "box" | "polygon" }>;
+
+export interface SceneDescription {
+  version: typeof SCENE_FORMAT_VERSION;
+  name?: string;
+  grid?: GridDescription;
+  gravity?: Vec3Tuple;
+  solver?: SolverDescription;
+  bodies?: BodyDescription[];
+  colliders?: ColliderDescription[];
+  rigidBodies?: RigidBodyDescription[];
+  emitters?: EmitterDescription[];
+  sinks?: SinkDescription[];
+  heatSources?: HeatSourceDescription[];
+  forceFields?: ForceFieldDescription[];
+}
+
+export const DEFAULT_BODY_DENSITY = 100;
@@ -0,0 +1,86 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { SceneError, buildScene, parseScene, validateScene } from "./SceneLoader";
+
+const SCENES_DIR = fileURLToPath(new URL("../../public/scenes", import.meta.url));
+
+/**
+ * @returns The issues of the invalid scene.
+ */
+const sceneIssues = (data: unknown): string[] => {
+  try {
+    validateScene(data);
+  }
+  catch (e) {
+    assert.ok(e instanceof SceneError, `Unexpected error ${e}`);
+    return e.issues;
+  }
+  assert.fail("The scene is valid");
+};
+
+describe("SceneLoader", () => {
+  test("the bundled scenes are valid and build", () => {
+    const files = fs.readdirSync(SCENES_DIR).filter((file) => file.endsWith(".json"));
+    assert.ok(files.length > 0);
+    for (const file of files) {
+      const mpm = buildScene(parseScene(fs.readFileSync(path.join(SCENES_DIR, file), "utf8")));
+      assert.ok(mpm.particles.count > 0 || mpm.emitters.length > 0, `${file} has no material`);
+    }
+  });
+
+  test("a scene is built with everything it describes", () => {
+    const mpm = buildScene(validateScene({
+      version: 1,
+      grid: { cellSize: 0.1, domain: { min: [-1, -1, -1], max: [1, 1, 1] } },
+      gravity: [0, -5, 0],
+      solver: { maxDt: 1e-3, domainBoundary: { boundary: "slip", friction: 0.2 } },
+      bodies: [
+        { shape: { type: "sphere", center: [0, 0, 0], radius: 0.3 }, particlesPerCell: 1, material: { type: "fluid" } },
+      ],
+      colliders: [{ type: "plane", point: [0, -0.9, 0], normal: [0, 1, 0] }],
+      rigidBodies: [{ type: "polygon", position: [0.5, 0.5, 0], vertices: [[0, 0], [0.2, 0], [0, 0.2]], halfDepth: 0.1 }],
+      emitters: [{ shape: { type: "box", min: [-1, 0.8, -1], max: [-0.8, 1, 1] }, rate: 0.1, spacing: 0.05, material: { type: "fluid" } }],
+    }));
+    assert.equal(mpm.is2D, false);
+    assert.deepEqual(mpm.gravity.toArray(), [0, -5, 0]);
+    assert.equal(mpm.timeStepOptions.maxDt, 1e-3);
+    assert.ok(mpm.particles.count > 0);
+    assert.equal(mpm.colliders.length, 1);
+    assert.equal(mpm.rigidBodies.length, 1);
+    assert.equal(mpm.emitters.length, 1);
+  });
+
+  test("every problem of an invalid scene is reported together", () => {
+    const issues = sceneIssues({
+      version: 1,
+      grid: { domain: { min: [-1, -1, -1], max: [1, 1, 1] } },
+      bodies: [
+        { shape: { type: "sphere", center: [0, 0, 0], radius: -1 }, material: { type: "fluid" } },
+      ],
+      colliders: [{ type: "plane", point: [0, 0, 0], normal: [0, 0, 0] }],
+      rigidBodies: [{ name: "wedge", type: "polygon", position: [0, 0, 0], vertices: [[0, 0], [1, 0], [0, 1]] }],
+      emitters: [{ shape: { type: "box", min: [0, 0, 0], max: [1, 1, 1] }, rate: 1, spacing: 0.1, particlesPerCell: 4 }],
+      unknown: true,
+    });
+    const expected = [
+      "scene", "bodies[0].shape.radius", "bodies[0]", "colliders[0].normal", "rigidBodies[0]", "emitters[0]",
+    ];
+    for (const path of expected) {
+      assert.ok(issues.some((issue) => issue.startsWith(`${path}:`)), `No issue for ${path} in:\n${issues.join("\n")}`);
+    }
+    assert.ok(issues.some((issue) => issue.includes("halfDepth")), `No issue for the polygon's depth in:\n${issues.join("\n")}`);
+  });
+
+  test("polygon rigid bodies only need a depth in 3D", () => {
+    const scene = (domainDepth: number) => ({
+      version: 1,
+      grid: { domain: { min: [-1, -1, 0], max: [1, 1, domainDepth] } },
+      rigidBodies: [{ type: "polygon", position: [0, 0, 0], vertices: [[0, 0], [0.5, 0], [0, 0.5]] }],
+    });
+    assert.equal(buildScene(validateScene(scene(0))).rigidBodies.length, 1);
+    assert.deepEqual(sceneIssues(scene(1)), ["rigidBodies[0]: a polygon rigid body needs a halfDepth in a 3D scene"]);
+  });
+});
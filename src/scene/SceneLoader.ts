@@ -0,0 +1,832 @@
+import * as THREE from 'three';
+import { MPMSystem } from "../mpm/MPMSystem";
+import { createMaterial, MaterialDescriptor } from "../mpm/Materials";
+import { createKernel } from "../mpm/Kernels";
+import type { SamplingPattern } from "../mpm/Sampling";
+import { Shape, BoxShape, SphereShape, PolygonShape, SDFShape, MeshShape } from "../mpm/Shapes";
+import { ParticleEmitter, ParticleSink } from "../mpm/Emitters";
+import { HeatSource } from "../mpm/HeatSources";
+import { ForceField, Falloff, GravityField, AttractorField, VortexField, WindField } from "../mpm/ForceFields";
+import {
+  BoundaryType, Collider, PlaneCollider, SphereCollider, BoxCollider, CapsuleCollider, PolygonCollider
+} from "../mpm/Colliders";
+import { RigidBody, createRigidBody } from "../mpm/RigidBodies";
+import {
+  SCENE_FORMAT_VERSION, DEFAULT_BODY_DENSITY, SceneDescription, BodyDescription, ShapeDescription,
+  MeshShapeDescription, ColliderDescription, RigidBodyDescription, EmitterDescription, ForceFieldDescription,
+  BoundaryName, FalloffName, Vec3Tuple
+} from "./SceneDescription";
+
+/**
+ * Thrown when a scene can't be parsed or doesn't match the scene format. All the problems found
+ * are listed in issues, each prefixed by the path of the offending value (e.g. "bodies[0].spacing").
+ */
+export class SceneError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid scene:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "SceneError";
+    this.issues = issues;
+  }
+}
+
+interface NumberRange {
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+  exclusiveMax?: boolean;
+  integer?: boolean;
+}
+
+const POSITIVE: NumberRange = { min: 0, exclusiveMin: true };
+const NON_NEGATIVE: NumberRange = { min: 0 };
+
+const KERNEL_TYPES = ["linear", "quadratic", "cubic"] as const;
+const SAMPLING_PATTERNS: readonly SamplingPattern[] = ["lattice", "jittered", "poisson"];
+const BOUNDARY_NAMES: readonly BoundaryName[] = ["sticky", "slip", "separate"];
+const BOUNDARY_TYPES: Record<BoundaryName, BoundaryType> = {
+  sticky: BoundaryType.Sticky,
+  slip: BoundaryType.Slip,
+  separate: BoundaryType.Separate,
+};
+const FALLOFF_NAMES: readonly FalloffName[] = ["none", "linear", "smooth", "inverseSquare"];
+const FALLOFFS: Record<FalloffName, Falloff> = {
+  none: Falloff.None,
+  linear: Falloff.Linear,
+  smooth: Falloff.Smooth,
+  inverseSquare: Falloff.InverseSquare,
+};
+
+// Valid ranges of the parameters of each material, see the material constructors
+const ELASTIC_PARAMETERS: Record<string, NumberRange> = {
+  youngsModulus: POSITIVE,
+  poissonRatio: { min: 0, max: 0.5, exclusiveMax: true },
+};
+const MATERIAL_PARAMETERS: Record<MaterialDescriptor["type"], Record<string, NumberRange>> = {
+  dust: {},
+  fixedCorotated: ELASTIC_PARAMETERS,
+  neoHookean: ELASTIC_PARAMETERS,
+  fluid: { restDensity: POSITIVE, stiffness: NON_NEGATIVE, gamma: { min: 1 }, viscosity: NON_NEGATIVE },
+  snow: {
+    ...ELASTIC_PARAMETERS,
+    criticalCompression: { min: 0, max: 1, exclusiveMin: true, exclusiveMax: true },
+    criticalStretch: POSITIVE,
+    hardening: NON_NEGATIVE,
+  },
+  sand: { ...ELASTIC_PARAMETERS, frictionAngle: { min: 0, max: 90, exclusiveMax: true } },
+  melting: { ...ELASTIC_PARAMETERS, meltingPoint: {}, meltingRange: NON_NEGATIVE, viscosity: NON_NEGATIVE },
+  brittle: { ...ELASTIC_PARAMETERS, tensileStrength: POSITIVE, softening: POSITIVE },
+};
+
+const THERMAL_KEYS = ["temperature", "heatCapacity", "conductivity"];
+const COLLIDER_COMMON_KEYS = ["type", "name", "boundary", "friction", "linearVelocity", "angularVelocity"];
+const COLLIDER_TYPES: readonly ColliderDescription["type"][] = ["plane", "sphere", "box", "capsule", "polygon"];
+const RIGID_BODY_TYPES: readonly RigidBodyDescription["type"][] = ["sphere", "box", "polygon"];
+const FORCE_FIELD_COMMON_KEYS = ["type", "name", "region", "falloff", "radius", "enabled"];
+const FORCE_FIELD_TYPES: readonly ForceFieldDescription["type"][] = ["gravity", "attractor", "vortex", "wind"];
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Collects the problems found in a scene rather than stopping at the first one.
+ */
+class SceneValidator {
+  issues: string[] = [];
+
+  error(path: string, message: string) {
+    this.issues.push(`${path}: ${message}`);
+  }
+
+  /**
+   * Checks that the value is an object with all the required keys and no keys outside of the allowed ones.
+   * @returns false if the value isn't an object or is missing required keys, its fields aren't checked further.
+   */
+  object(path: string, value: unknown, required: string[], optional: string[] = []): value is JsonObject {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.error(path, `expected an object, got ${describe(value)}`);
+      return false;
+    }
+    let complete = true;
+    for (const key of required) {
+      if (!(key in value)) {
+        this.error(path, `missing required field "${key}"`);
+        complete = false;
+      }
+    }
+    for (const key of Object.keys(value)) {
+      if (required.indexOf(key) < 0 && optional.indexOf(key) < 0) {
+        this.error(path, `unknown field "${key}"`);
+      }
+    }
+    return complete;
+  }
+
+  number(path: string, value: unknown, range: NumberRange = {}): value is number {
+    if (typeof value !== "number" || !isFinite(value)) {
+      this.error(path, `expected a number, got ${describe(value)}`);
+      return false;
+    }
+    const { min, max, exclusiveMin, exclusiveMax, integer } = range;
+    if (integer && !Number.isInteger(value)) {
+      this.error(path, `expected an integer, got ${value}`);
+      return false;
+    }
+    if (min !== undefined && (exclusiveMin ? value <= min : value < min)) {
+      this.error(path, `must be ${exclusiveMin ? "greater than" : "at least"} ${min}, got ${value}`);
+      return false;
+    }
+    if (max !== undefined && (exclusiveMax ? value >= max : value > max)) {
+      this.error(path, `must be ${exclusiveMax ? "less than" : "at most"} ${max}, got ${value}`);
+      return false;
+    }
+    return true;
+  }
+
+  optionalNumber(path: string, value: unknown, range: NumberRange = {}): boolean {
+    return value === undefined || this.number(path, value, range);
+  }
+
+  string(path: string, value: unknown): value is string {
+    if (typeof value !== "string") {
+      this.error(path, `expected a string, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  boolean(path: string, value: unknown): value is boolean {
+    if (typeof value !== "boolean") {
+      this.error(path, `expected a boolean, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  oneOf<T extends string>(path: string, value: unknown, options: readonly T[]): value is T {
+    if (typeof value !== "string" || options.indexOf(value as T) < 0) {
+      this.error(path, `expected one of ${options.map((o) => `"${o}"`).join(", ")}, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  array(path: string, value: unknown): value is unknown[] {
+    if (!Array.isArray(value)) {
+      this.error(path, `expected an array, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  tuple(path: string, value: unknown, length: number, range: NumberRange = {}): value is number[] {
+    if (!Array.isArray(value) || value.length !== length) {
+      this.error(path, `expected an array of ${length} numbers, got ${describe(value)}`);
+      return false;
+    }
+    let valid = true;
+    value.forEach((v, i) => { valid = this.number(`${path}[${i}]`, v, range) && valid; });
+    return valid;
+  }
+
+  optionalTuple(path: string, value: unknown, length: number, range: NumberRange = {}): boolean {
+    return value === undefined || this.tuple(path, value, length, range);
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) { return "null"; }
+  if (Array.isArray(value)) { return `an array of length ${value.length}`; }
+  if (typeof value === "string") { return `"${value}"`; }
+  if (typeof value === "object") { return "an object"; }
+  return String(value);
+};
+
+/**
+ * Checks that the given data (e.g. the result of JSON.parse) is a valid scene.
+ * @returns The data typed as a scene.
+ * @throws SceneError listing every problem found.
+ */
+export const validateScene = (data: unknown): SceneDescription => {
+  const v = new SceneValidator();
+  if (!v.object("scene", data, ["version"], [
+    "name", "grid", "gravity", "solver", "bodies", "colliders", "rigidBodies", "emitters", "sinks", "heatSources",
+    "forceFields"
+  ])) {
+    throw new SceneError(v.issues);
+  }
+  if (data.version !== SCENE_FORMAT_VERSION) {
+    v.error("version", `unsupported scene format version ${describe(data.version)}, expected ${SCENE_FORMAT_VERSION}`);
+    throw new SceneError(v.issues); // The rest of the scene can't be interpreted
+  }
+  if (data.name !== undefined) { v.string("name", data.name); }
+
+  // The default grid is 2D
+  const is2D = data.grid !== undefined ? validateGrid(v, data.grid) : true;
+  v.optionalTuple("gravity", data.gravity, 3);
+  if (data.solver !== undefined) { validateSolver(v, data.solver); }
+
+  if (data.bodies !== undefined && v.array("bodies", data.bodies)) {
+    data.bodies.forEach((body, i) => validateBody(v, `bodies[${i}]`, body));
+  }
+  if (data.colliders !== undefined && v.array("colliders", data.colliders)) {
+    data.colliders.forEach((collider, i) => validateCollider(v, `colliders[${i}]`, collider));
+  }
+  if (data.rigidBodies !== undefined && v.array("rigidBodies", data.rigidBodies)) {
+    data.rigidBodies.forEach((body, i) => validateRigidBody(v, `rigidBodies[${i}]`, body, is2D));
+  }
+  if (data.emitters !== undefined && v.array("emitters", data.emitters)) {
+    data.emitters.forEach((emitter, i) => validateEmitter(v, `emitters[${i}]`, emitter));
+  }
+  if (data.sinks !== undefined && v.array("sinks", data.sinks)) {
+    data.sinks.forEach((sink, i) => validateSink(v, `sinks[${i}]`, sink));
+  }
+  if (data.heatSources !== undefined && v.array("heatSources", data.heatSources)) {
+    data.heatSources.forEach((source, i) => validateHeatSource(v, `heatSources[${i}]`, source));
+  }
+  if (data.forceFields !== undefined && v.array("forceFields", data.forceFields)) {
+    data.forceFields.forEach((field, i) => validateForceField(v, `forceFields[${i}]`, field));
+  }
+
+  if (v.issues.length > 0) {
+    throw new SceneError(v.issues);
+  }
+  return data as unknown as SceneDescription;
+};
+
+/**
+ * Checks that the given data is a valid body of material, on its own (e.g. one added to a running simulation).
+ * @throws SceneError listing every problem found.
+ */
+export const validateBodyDescription = (data: unknown): BodyDescription => {
+  const v = new SceneValidator();
+  validateBody(v, "body", data);
+  if (v.issues.length > 0) {
+    throw new SceneError(v.issues);
+  }
+  return data as BodyDescription;
+};
+
+/**
+ * @returns Whether the grid is 2D (has no extent in z), null if it's too invalid to tell.
+ */
+const validateGrid = (v: SceneValidator, grid: unknown): boolean | null => {
+  if (!v.object("grid", grid, [], ["cellSize", "gridSize", "origin", "domain"])) { return null; }
+  v.optionalNumber("grid.cellSize", grid.cellSize, POSITIVE);
+  const validSize = v.optionalTuple("grid.gridSize", grid.gridSize, 3, { min: 1, integer: true });
+  v.optionalTuple("grid.origin", grid.origin, 3);
+  if (grid.domain !== undefined) {
+    if (grid.gridSize !== undefined || grid.origin !== undefined) {
+      v.error("grid", "specify either a domain or a grid size/origin, not both");
+    }
+    if (v.object("grid.domain", grid.domain, ["min", "max"]) &&
+        v.tuple("grid.domain.min", grid.domain.min, 3) && v.tuple("grid.domain.max", grid.domain.max, 3)) {
+      const { min, max } = grid.domain;
+      if (!(min[0] < max[0] && min[1] < max[1] && min[2] <= max[2])) {
+        v.error("grid.domain", "max must be greater than min in x and y, and not less than it in z");
+      }
+      return min[2] === max[2];
+    }
+    return null;
+  }
+  if (!validSize) { return null; }
+  return grid.gridSize === undefined || (grid.gridSize as number[])[2] === 1;
+};
+
+const validateSolver = (v: SceneValidator, solver: unknown) => {
+  if (!v.object("solver", solver, [], [
+    "kernel", "frameDt", "cflNumber", "minDt", "maxDt", "maxSubsteps", "domainBoundary"
+  ])) { return; }
+  if (solver.kernel !== undefined) { v.oneOf("solver.kernel", solver.kernel, KERNEL_TYPES); }
+  v.optionalNumber("solver.frameDt", solver.frameDt, POSITIVE);
+  v.optionalNumber("solver.cflNumber", solver.cflNumber, POSITIVE);
+  const validMin = v.optionalNumber("solver.minDt", solver.minDt, POSITIVE);
+  const validMax = v.optionalNumber("solver.maxDt", solver.maxDt, POSITIVE);
+  if (validMin && validMax && solver.minDt !== undefined && solver.maxDt !== undefined &&
+      (solver.minDt as number) > (solver.maxDt as number)) {
+    v.error("solver", "minDt must not be greater than maxDt");
+  }
+  v.optionalNumber("solver.maxSubsteps", solver.maxSubsteps, { min: 1, integer: true });
+  if (solver.domainBoundary !== undefined &&
+      v.object("solver.domainBoundary", solver.domainBoundary, ["boundary"], ["friction"])) {
+    v.oneOf("solver.domainBoundary.boundary", solver.domainBoundary.boundary, [...BOUNDARY_NAMES, "open"]);
+    v.optionalNumber("solver.domainBoundary.friction", solver.domainBoundary.friction, NON_NEGATIVE);
+  }
+};
+
+const validateMaterial = (v: SceneValidator, path: string, material: unknown) => {
+  if (typeof material !== "object" || material === null || !("type" in material)) {
+    v.object(path, material, ["type"]);
+    return;
+  }
+  const types = Object.keys(MATERIAL_PARAMETERS) as MaterialDescriptor["type"][];
+  if (!v.oneOf(`${path}.type`, material.type, types)) { return; }
+  const parameters = MATERIAL_PARAMETERS[material.type];
+  if (!v.object(path, material, ["type"], Object.keys(parameters))) { return; }
+  for (const key of Object.keys(parameters)) {
+    v.optionalNumber(`${path}.${key}`, material[key], parameters[key]);
+  }
+};
+
+const validateBody = (v: SceneValidator, path: string, body: unknown) => {
+  if (!v.object(path, body, ["shape", "material"], [
+    "name", "spacing", "particlesPerCell", "sampling", "seed", "density", "velocity", "angularVelocity",
+    ...THERMAL_KEYS
+  ])) { return; }
+  if (body.name !== undefined) { v.string(`${path}.name`, body.name); }
+  if ((body.spacing === undefined) === (body.particlesPerCell === undefined)) {
+    v.error(path, `specify either "spacing" or "particlesPerCell"`);
+  }
+  const validSpacing = body.spacing !== undefined && v.number(`${path}.spacing`, body.spacing, POSITIVE);
+  v.optionalNumber(`${path}.particlesPerCell`, body.particlesPerCell, POSITIVE);
+  if (body.sampling !== undefined) { v.oneOf(`${path}.sampling`, body.sampling, SAMPLING_PATTERNS); }
+  v.optionalNumber(`${path}.seed`, body.seed, { integer: true });
+  v.optionalNumber(`${path}.density`, body.density, POSITIVE);
+  v.optionalTuple(`${path}.velocity`, body.velocity, 3);
+  v.optionalTuple(`${path}.angularVelocity`, body.angularVelocity, 3);
+  validateThermal(v, path, body);
+  validateMaterial(v, `${path}.material`, body.material);
+
+  const shapePath = `${path}.shape`;
+  if (!validateShape(v, shapePath, body.shape)) { return; }
+  const shape = body.shape as ShapeDescription;
+  if (shape.type === "box" && validSpacing) {
+    const spacing = body.spacing as number;
+    const { min, max } = shape;
+    if (spacing > max[0] - min[0] || spacing > max[1] - min[1] || (max[2] > min[2] && spacing > max[2] - min[2])) {
+      v.error(`${path}.spacing`, `the spacing (${spacing}) is larger than the box`);
+    }
+  }
+};
+
+const validateEmitter = (v: SceneValidator, path: string, emitter: unknown) => {
+  if (!v.object(path, emitter, ["shape", "rate", "material"], [
+    "name", "spacing", "particlesPerCell", "seed", "density", "velocity", "enabled", ...THERMAL_KEYS
+  ])) { return; }
+  if (emitter.name !== undefined) { v.string(`${path}.name`, emitter.name); }
+  v.number(`${path}.rate`, emitter.rate, NON_NEGATIVE);
+  if ((emitter.spacing === undefined) === (emitter.particlesPerCell === undefined)) {
+    v.error(path, `specify either "spacing" or "particlesPerCell"`);
+  }
+  v.optionalNumber(`${path}.spacing`, emitter.spacing, POSITIVE);
+  v.optionalNumber(`${path}.particlesPerCell`, emitter.particlesPerCell, POSITIVE);
+  v.optionalNumber(`${path}.seed`, emitter.seed, { integer: true });
+  v.optionalNumber(`${path}.density`, emitter.density, POSITIVE);
+  v.optionalTuple(`${path}.velocity`, emitter.velocity, 3);
+  if (emitter.enabled !== undefined) { v.boolean(`${path}.enabled`, emitter.enabled); }
+  validateThermal(v, path, emitter);
+  validateMaterial(v, `${path}.material`, emitter.material);
+  validateShape(v, `${path}.shape`, emitter.shape);
+};
+
+const validateSink = (v: SceneValidator, path: string, sink: unknown) => {
+  if (!v.object(path, sink, ["shape"], ["name"])) { return; }
+  if (sink.name !== undefined) { v.string(`${path}.name`, sink.name); }
+  validateShape(v, `${path}.shape`, sink.shape);
+};
+
+// The thermal state of the particles of bodies and emitters
+const validateThermal = (v: SceneValidator, path: string, data: JsonObject) => {
+  v.optionalNumber(`${path}.temperature`, data.temperature);
+  v.optionalNumber(`${path}.heatCapacity`, data.heatCapacity, POSITIVE);
+  v.optionalNumber(`${path}.conductivity`, data.conductivity, NON_NEGATIVE);
+};
+
+const validateHeatSource = (v: SceneValidator, path: string, source: unknown) => {
+  if (!v.object(path, source, ["shape", "temperature"], ["name", "rate", "enabled"])) { return; }
+  if (source.name !== undefined) { v.string(`${path}.name`, source.name); }
+  v.number(`${path}.temperature`, source.temperature);
+  v.optionalNumber(`${path}.rate`, source.rate, NON_NEGATIVE);
+  if (source.enabled !== undefined) { v.boolean(`${path}.enabled`, source.enabled); }
+  validateShape(v, `${path}.shape`, source.shape);
+};
+
+/**
+ * @returns Whether the shape is valid.
+ */
+const validateShape = (v: SceneValidator, path: string, shape: unknown): boolean => {
+  if (typeof shape !== "object" || shape === null || !("type" in shape)) {
+    v.object(path, shape, ["type"]);
+    return false;
+  }
+  const type = shape.type;
+  if (!v.oneOf(`${path}.type`, type, ["box", "sphere", "capsule", "polygon", "mesh"])) { return false; }
+
+  const fields: Record<typeof type, [string[], string[]]> = {
+    box: [["min", "max"], []],
+    sphere: [["center", "radius"], []],
+    capsule: [["start", "end", "radius"], []],
+    polygon: [["position", "vertices"], ["halfDepth"]],
+    mesh: [[], ["url", "positions", "indices", "position", "rotation", "scale"]],
+  };
+  const [required, optional] = fields[type];
+  if (!v.object(path, shape, ["type", ...required], optional)) { return false; }
+
+  const issues = v.issues.length;
+  const s = shape as JsonObject;
+  switch (type) {
+    case "box":
+      if (v.tuple(`${path}.min`, s.min, 3) && v.tuple(`${path}.max`, s.max, 3)) {
+        const { min, max } = s;
+        // NOTE: The z extent may be zero, for 2D scenes
+        if (!(min[0] < max[0] && min[1] < max[1] && min[2] <= max[2])) {
+          v.error(path, "max must be greater than min in x and y, and not less than it in z");
+        }
+      }
+      break;
+    case "sphere":
+      v.tuple(`${path}.center`, s.center, 3);
+      v.number(`${path}.radius`, s.radius, POSITIVE);
+      break;
+    case "capsule":
+      v.tuple(`${path}.start`, s.start, 3);
+      v.tuple(`${path}.end`, s.end, 3);
+      v.number(`${path}.radius`, s.radius, POSITIVE);
+      break;
+    case "polygon":
+      v.tuple(`${path}.position`, s.position, 3);
+      validatePolygonVertices(v, `${path}.vertices`, s.vertices);
+      v.optionalNumber(`${path}.halfDepth`, s.halfDepth, POSITIVE);
+      break;
+    case "mesh":
+      validateMesh(v, path, s);
+      break;
+  }
+  return v.issues.length === issues;
+};
+
+const validatePolygonVertices = (v: SceneValidator, path: string, vertices: unknown) => {
+  if (!v.array(path, vertices)) { return; }
+  if (vertices.length < 3) {
+    v.error(path, `a polygon needs at least 3 vertices, got ${vertices.length}`);
+  }
+  vertices.forEach((vertex, i) => v.tuple(`${path}[${i}]`, vertex, 2));
+};
+
+const validateMesh = (v: SceneValidator, path: string, mesh: JsonObject) => {
+  if (mesh.url === undefined && mesh.positions === undefined) {
+    v.error(path, `specify the mesh "url" or its "positions"`);
+  }
+  if (mesh.url !== undefined) { v.string(`${path}.url`, mesh.url); }
+  let vertexCount = -1;
+  if (mesh.positions !== undefined && v.array(`${path}.positions`, mesh.positions)) {
+    const positions = mesh.positions;
+    if (positions.length % 3 !== 0 || positions.length < 9) {
+      v.error(`${path}.positions`, `expected 3 coordinates per vertex and at least 3 vertices, got ${positions.length} numbers`);
+    }
+    else if (positions.every((x, i) => v.number(`${path}.positions[${i}]`, x))) {
+      vertexCount = positions.length / 3;
+    }
+  }
+  if (mesh.indices !== undefined && v.array(`${path}.indices`, mesh.indices)) {
+    const indices = mesh.indices;
+    if (indices.length % 3 !== 0 || indices.length === 0) {
+      v.error(`${path}.indices`, `expected 3 indices per triangle, got ${indices.length} indices`);
+    }
+    const range: NumberRange = { min: 0, integer: true };
+    if (vertexCount >= 0) { range.max = vertexCount - 1; }
+    indices.every((index, i) => v.number(`${path}.indices[${i}]`, index, range)); // Stop at the first bad index
+  }
+  v.optionalTuple(`${path}.position`, mesh.position, 3);
+  v.optionalTuple(`${path}.rotation`, mesh.rotation, 3);
+  if (typeof mesh.scale === "number") {
+    v.number(`${path}.scale`, mesh.scale, POSITIVE);
+  }
+  else {
+    v.optionalTuple(`${path}.scale`, mesh.scale, 3, POSITIVE);
+  }
+};
+
+// Rigid bodies are colliders of some of the types with a few more keys
+const validateCollider = (
+  v: SceneValidator, path: string, collider: unknown,
+  types: readonly ColliderDescription["type"][] = COLLIDER_TYPES, extraKeys: string[] = []
+): collider is JsonObject => {
+  if (typeof collider !== "object" || collider === null || !("type" in collider)) {
+    v.object(path, collider, ["type"]);
+    return false;
+  }
+  const type = collider.type;
+  if (!v.oneOf(`${path}.type`, type, types)) { return false; }
+
+  const fields: Record<typeof type, [string[], string[]]> = {
+    plane: [["point", "normal"], []],
+    sphere: [["center", "radius"], []],
+    box: [["center", "halfExtents"], ["rotation"]],
+    capsule: [["start", "end", "radius"], []],
+    polygon: [["position", "vertices"], ["halfDepth"]],
+  };
+  const [required, optional] = fields[type];
+  if (!v.object(path, collider, required, [...COLLIDER_COMMON_KEYS, ...optional, ...extraKeys])) { return false; }
+
+  const c = collider as JsonObject;
+  if (c.name !== undefined) { v.string(`${path}.name`, c.name); }
+  if (c.boundary !== undefined) { v.oneOf(`${path}.boundary`, c.boundary, BOUNDARY_NAMES); }
+  v.optionalNumber(`${path}.friction`, c.friction, NON_NEGATIVE);
+  v.optionalTuple(`${path}.linearVelocity`, c.linearVelocity, 3);
+  v.optionalTuple(`${path}.angularVelocity`, c.angularVelocity, 3);
+
+  switch (type) {
+    case "plane":
+      v.tuple(`${path}.point`, c.point, 3);
+      if (v.tuple(`${path}.normal`, c.normal, 3) && c.normal.every((x) => x === 0)) {
+        v.error(`${path}.normal`, "must not be zero");
+      }
+      break;
+    case "sphere":
+      v.tuple(`${path}.center`, c.center, 3);
+      v.number(`${path}.radius`, c.radius, POSITIVE);
+      break;
+    case "box":
+      v.tuple(`${path}.center`, c.center, 3);
+      v.tuple(`${path}.halfExtents`, c.halfExtents, 3, POSITIVE);
+      v.optionalTuple(`${path}.rotation`, c.rotation, 3);
+      break;
+    case "capsule":
+      v.tuple(`${path}.start`, c.start, 3);
+      v.tuple(`${path}.end`, c.end, 3);
+      v.number(`${path}.radius`, c.radius, POSITIVE);
+      break;
+    case "polygon":
+      v.tuple(`${path}.position`, c.position, 3);
+      validatePolygonVertices(v, `${path}.vertices`, c.vertices);
+      v.optionalNumber(`${path}.halfDepth`, c.halfDepth, POSITIVE);
+      break;
+  }
+  return true;
+};
+
+const validateForceField = (v: SceneValidator, path: string, field: unknown) => {
+  if (typeof field !== "object" || field === null || !("type" in field)) {
+    v.object(path, field, ["type"]);
+    return;
+  }
+  const type = field.type;
+  if (!v.oneOf(`${path}.type`, type, FORCE_FIELD_TYPES)) { return; }
+
+  const fields: Record<typeof type, [string[], string[]]> = {
+    gravity: [["acceleration"], ["position"]],
+    attractor: [["position", "strength"], []],
+    vortex: [["position", "strength"], ["axis", "pull"]],
+    wind: [["velocity"], ["position", "drag", "turbulence", "turbulenceScale", "seed"]],
+  };
+  const [required, optional] = fields[type];
+  if (!v.object(path, field, required, [...FORCE_FIELD_COMMON_KEYS, ...optional])) { return; }
+
+  const f = field as JsonObject;
+  if (f.name !== undefined) { v.string(`${path}.name`, f.name); }
+  if (f.region !== undefined) { validateShape(v, `${path}.region`, f.region); }
+  if (f.falloff !== undefined) { v.oneOf(`${path}.falloff`, f.falloff, FALLOFF_NAMES); }
+  v.optionalNumber(`${path}.radius`, f.radius, POSITIVE);
+  if (f.enabled !== undefined) { v.boolean(`${path}.enabled`, f.enabled); }
+  v.optionalTuple(`${path}.position`, f.position, 3);
+
+  switch (type) {
+    case "gravity":
+      v.tuple(`${path}.acceleration`, f.acceleration, 3);
+      break;
+    case "attractor":
+      v.number(`${path}.strength`, f.strength);
+      break;
+    case "vortex":
+      v.number(`${path}.strength`, f.strength);
+      v.optionalNumber(`${path}.pull`, f.pull);
+      if (f.axis !== undefined && v.tuple(`${path}.axis`, f.axis, 3) && f.axis.every((x) => x === 0)) {
+        v.error(`${path}.axis`, "must not be zero");
+      }
+      break;
+    case "wind":
+      v.tuple(`${path}.velocity`, f.velocity, 3);
+      v.optionalNumber(`${path}.drag`, f.drag, NON_NEGATIVE);
+      v.optionalNumber(`${path}.turbulence`, f.turbulence, NON_NEGATIVE);
+      v.optionalNumber(`${path}.turbulenceScale`, f.turbulenceScale, POSITIVE);
+      v.optionalNumber(`${path}.seed`, f.seed, { integer: true });
+      break;
+  }
+};
+
+const validateRigidBody = (v: SceneValidator, path: string, body: unknown, is2D: boolean | null) => {
+  if (!validateCollider(v, path, body, RIGID_BODY_TYPES, ["density", "appliedForce", "appliedTorque"])) { return; }
+  // Its mass would be infinite
+  if (body.type === "polygon" && is2D === false && body.halfDepth === undefined) {
+    v.error(path, "a polygon rigid body needs a halfDepth in a 3D scene");
+  }
+  v.optionalNumber(`${path}.density`, body.density, POSITIVE);
+  v.optionalTuple(`${path}.appliedForce`, body.appliedForce, 3);
+  v.optionalTuple(`${path}.appliedTorque`, body.appliedTorque, 3);
+};
+
+/**
+ * Parses and validates a scene from JSON text.
+ * @throws SceneError if the text isn't valid JSON or not a valid scene.
+ */
+export const parseScene = (json: string): SceneDescription => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  }
+  catch (e) {
+    throw new SceneError([`not valid JSON (${e instanceof Error ? e.message : String(e)})`]);
+  }
+  return validateScene(data);
+};
+
+const toVector3 = (v: Vec3Tuple) => new THREE.Vector3(v[0], v[1], v[2]);
+
+/**
+ * Builds the simulation described by a (validated) scene.
+ */
+export const buildScene = (scene: SceneDescription): MPMSystem => {
+  const grid = scene.grid ?? {};
+  const solver = scene.solver ?? {};
+  const mpm = new MPMSystem({
+    cellSize: grid.cellSize,
+    gridSize: grid.gridSize && toVector3(grid.gridSize),
+    origin: grid.origin && toVector3(grid.origin),
+    domain: grid.domain && new THREE.Box3(toVector3(grid.domain.min), toVector3(grid.domain.max)),
+    kernel: solver.kernel && createKernel(solver.kernel),
+    gravity: scene.gravity && toVector3(scene.gravity),
+  });
+
+  const { cflNumber, minDt, maxDt, maxSubsteps } = solver;
+  const timeStepOptions = mpm.timeStepOptions;
+  timeStepOptions.cflNumber = cflNumber ?? timeStepOptions.cflNumber;
+  timeStepOptions.minDt = minDt ?? timeStepOptions.minDt;
+  timeStepOptions.maxDt = maxDt ?? timeStepOptions.maxDt;
+  timeStepOptions.maxSubsteps = maxSubsteps ?? timeStepOptions.maxSubsteps;
+  if (solver.domainBoundary) {
+    const { boundary, friction } = solver.domainBoundary;
+    mpm.setDomainBoundary(boundary === "open" ? null : BOUNDARY_TYPES[boundary], friction);
+  }
+  if (mpm.is2D) {
+    mpm.gravity.z = 0;
+  }
+
+  for (const body of scene.bodies ?? []) {
+    addBody(mpm, body);
+  }
+  for (const collider of scene.colliders ?? []) {
+    mpm.addCollider(createCollider(collider));
+  }
+  for (const body of scene.rigidBodies ?? []) {
+    mpm.addRigidBody(createSceneRigidBody(body, mpm.is2D));
+  }
+  for (const emitter of scene.emitters ?? []) {
+    mpm.addEmitter(createEmitter(emitter));
+  }
+  for (const sink of scene.sinks ?? []) {
+    mpm.addSink(new ParticleSink(createShape(sink.shape)));
+  }
+  for (const desc of scene.heatSources ?? []) {
+    const source = new HeatSource(createShape(desc.shape), desc.temperature, desc.rate);
+    source.enabled = desc.enabled ?? true;
+    mpm.addHeatSource(source);
+  }
+  for (const field of scene.forceFields ?? []) {
+    mpm.addForceField(createForceField(field));
+  }
+  return mpm;
+};
+
+/**
+ * Adds the particles of a (validated) body to the simulation.
+ * @returns The number of particles added.
+ */
+export const addBody = (mpm: MPMSystem, body: BodyDescription): number => {
+  return mpm.addShape(createShape(body.shape), {
+    spacing: body.spacing,
+    particlesPerCell: body.particlesPerCell,
+    pattern: body.sampling,
+    seed: body.seed,
+    density: body.density ?? DEFAULT_BODY_DENSITY,
+    material: createMaterial(body.material),
+    velocity: body.velocity && toVector3(body.velocity),
+    angularVelocity: body.angularVelocity && toVector3(body.angularVelocity),
+    temperature: body.temperature,
+    heatCapacity: body.heatCapacity,
+    conductivity: body.conductivity,
+  });
+};
+
+const createEmitter = (desc: EmitterDescription): ParticleEmitter => {
+  const emitter = new ParticleEmitter(createShape(desc.shape), {
+    rate: desc.rate,
+    density: desc.density ?? DEFAULT_BODY_DENSITY,
+    material: createMaterial(desc.material),
+    velocity: desc.velocity && toVector3(desc.velocity),
+    spacing: desc.spacing,
+    particlesPerCell: desc.particlesPerCell,
+    seed: desc.seed,
+    temperature: desc.temperature,
+    heatCapacity: desc.heatCapacity,
+    conductivity: desc.conductivity,
+  });
+  emitter.enabled = desc.enabled ?? true;
+  return emitter;
+};
+
+const createShape = (desc: ShapeDescription): Shape => {
+  switch (desc.type) {
+    case "box":
+      return new BoxShape(toVector3(desc.min), toVector3(desc.max));
+    case "sphere":
+      return new SphereShape(toVector3(desc.center), desc.radius);
+    case "capsule": {
+      const start = toVector3(desc.start), end = toVector3(desc.end);
+      const bounds = new THREE.Box3().setFromPoints([start, end]).expandByScalar(desc.radius);
+      return SDFShape.fromCollider(new CapsuleCollider(start, end, desc.radius), bounds);
+    }
+    case "polygon": {
+      const vertices = desc.vertices.map(([x, y]) => new THREE.Vector2(x, y));
+      return new PolygonShape(toVector3(desc.position), vertices, desc.halfDepth);
+    }
+    case "mesh":
+      return createMeshShape(desc);
+  }
+};
+
+const createMeshShape = (desc: MeshShapeDescription): MeshShape => {
+  if (!desc.positions) {
+    // Mesh files are loaded by the app (see resolveSceneMeshes), elsewhere they have to be inlined
+    throw new SceneError([`the mesh "${desc.url}" hasn't been loaded, only its positions can be used here`]);
+  }
+  const [rx, ry, rz] = (desc.rotation ?? [0, 0, 0]).map(THREE.MathUtils.degToRad);
+  const scale = typeof desc.scale === "number" ? [desc.scale, desc.scale, desc.scale] : desc.scale ?? [1, 1, 1];
+  const transform = new THREE.Matrix4().compose(
+    toVector3(desc.position ?? [0, 0, 0]),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(rx, ry, rz)),
+    new THREE.Vector3(scale[0], scale[1], scale[2])
+  );
+  const positions = new Float64Array(desc.positions);
+  const vertex = new THREE.Vector3();
+  for (let i = 0; i < positions.length; i += 3) {
+    vertex.fromArray(positions, i).applyMatrix4(transform).toArray(positions, i);
+  }
+  return new MeshShape(positions, desc.indices);
+};
+
+const createSceneRigidBody = (desc: RigidBodyDescription, is2D: boolean): RigidBody => {
+  const body = createRigidBody(createCollider(desc), desc.density ?? DEFAULT_BODY_DENSITY, is2D);
+  if (desc.appliedForce) { body.appliedForce.copy(toVector3(desc.appliedForce)); }
+  if (desc.appliedTorque) { body.appliedTorque.copy(toVector3(desc.appliedTorque)); }
+  return body;
+};
+
+const createForceField = (desc: ForceFieldDescription): ForceField => {
+  let field: ForceField;
+  switch (desc.type) {
+    case "gravity":
+      field = new GravityField(toVector3(desc.acceleration));
+      break;
+    case "attractor":
+      field = new AttractorField(toVector3(desc.position), desc.strength);
+      break;
+    case "vortex": {
+      const axis = desc.axis ? toVector3(desc.axis).normalize() : new THREE.Vector3(0, 0, 1);
+      field = new VortexField(toVector3(desc.position), axis, desc.strength, desc.pull);
+      break;
+    }
+    case "wind":
+      field = new WindField(toVector3(desc.velocity), {
+        drag: desc.drag, turbulence: desc.turbulence, turbulenceScale: desc.turbulenceScale, seed: desc.seed,
+      });
+      break;
+  }
+  if (desc.position) { field.position.copy(toVector3(desc.position)); }
+  field.region = desc.region ? createShape(desc.region) : null;
+  field.falloff = FALLOFFS[desc.falloff ?? "none"];
+  field.radius = desc.radius ?? field.radius;
+  field.enabled = desc.enabled ?? true;
+  return field;
+};
+
+const createCollider = (desc: ColliderDescription): Collider => {
+  const boundary = BOUNDARY_TYPES[desc.boundary ?? "sticky"];
+  const friction = desc.friction ?? 0;
+  let collider: Collider;
+  switch (desc.type) {
+    case "plane":
+      collider = new PlaneCollider(toVector3(desc.point), toVector3(desc.normal), boundary, friction);
+      break;
+    case "sphere":
+      collider = new SphereCollider(toVector3(desc.center), desc.radius, boundary, friction);
+      break;
+    case "box": {
+      const [rx, ry, rz] = (desc.rotation ?? [0, 0, 0]).map(THREE.MathUtils.degToRad);
+      const rotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(rx, ry, rz));
+      collider = new BoxCollider(toVector3(desc.center), toVector3(desc.halfExtents), rotation, boundary, friction);
+      break;
+    }
+    case "capsule":
+      collider = new CapsuleCollider(toVector3(desc.start), toVector3(desc.end), desc.radius, boundary, friction);
+      break;
+    case "polygon": {
+      const vertices = desc.vertices.map(([x, y]) => new THREE.Vector2(x, y));
+      collider = new PolygonCollider(toVector3(desc.position), vertices, desc.halfDepth, boundary, friction);
+      break;
+    }
+  }
+  if (desc.linearVelocity) { collider.linearVelocity.copy(toVector3(desc.linearVelocity)); }
+  if (desc.angularVelocity) { collider.angularVelocity.copy(toVector3(desc.angularVelocity)); }
+  return collider;
+};
@@ -0,0 +1,101 @@
+import * as THREE from 'three';
+import type { MaterialDescriptor } from "../mpm/Materials";
+import { KernelType, createKernel } from "../mpm/Kernels";
+import type { SceneDescription, BodyDescription, Vec3Tuple } from "../scene/SceneDescription";
+import type { MPMSystemOptions, TimeStepOptions } from "../mpm/MPMSystem";
+import type { ParticleField } from "../mpm/ParticleFields";
+import type { SurfaceMesh } from "../mpm/Surface";
+
+// Message protocol between the main thread (SimulationHost) and the simulation worker.
+// Everything sent across has to survive structured cloning, so vectors are plain tuples
+// and materials are sent as descriptors.
+
+export type { Vec3Tuple, ParticleField, SurfaceMesh };
+
+export interface SimulationConfig {
+  cellSize?: number;
+  gridSize?: Vec3Tuple;
+  origin?: Vec3Tuple;
+  domain?: { min: Vec3Tuple, max: Vec3Tuple };
+  kernel?: KernelType;
+}
+
+// The substep size within each frame is chosen adaptively within the bounds of the TimeStepOptions
+export interface SimulationParameters extends TimeStepOptions {
+  frameDt: number; // Simulated time between each frame sent back to the main thread
+  gravity: Vec3Tuple;
+}
+
+export const DEFAULT_FRAME_DT = 1 / 60;
+
+// Interactive forcing of the material, see GridBrush
+export interface BrushDescription {
+  mode: "push" | "drag";
+  position: Vec3Tuple;
+  velocity: Vec3Tuple;
+  radius: number;
+  strength: number;
+}
+
+// Extra data sent along with every frame, for visualizing the simulation
+export interface VisualizationOptions {
+  colorField: ParticleField | null; // Value of the field for each particle
+  grid: boolean;    // Mass and velocity of the grid nodes that hold material
+  surface: boolean; // Surface reconstructed from the density of the particles
+}
+
+export const DEFAULT_VISUALIZATION: VisualizationOptions = { colorField: null, grid: false, surface: false };
+
+// Floats per grid node in a frame's gridNodes: position (3), mass, velocity (3)
+export const GRID_NODE_STRIDE = 7;
+
+export type SimulationCommand =
+  | { type: "init", config: SimulationConfig }
+  | { type: "loadScene", scene: SceneDescription } // Replaces the simulation with the scene's
+  | { type: "saveSnapshot" }
+  | { type: "loadSnapshot", buffer: ArrayBuffer } // Replaces the simulation with a binary snapshot's
+  | { type: "reset" } // Restarts the last initialized or loaded simulation, keeping the current parameters
+  | {
+      type: "addParticles", min: Vec3Tuple, max: Vec3Tuple, size: number, mass: number,
+      material: MaterialDescriptor
+    }
+  | { type: "addBody", body: BodyDescription }
+  | { type: "erase", center: Vec3Tuple, radius: number } // Deactivates the particles within the radius
+  | { type: "setBrush", brush: BrushDescription | null }
+  | { type: "setParameters", parameters: Partial<SimulationParameters> }
+  | { type: "setVisualization", options: VisualizationOptions }
+  | { type: "play" }
+  | { type: "pause" }
+  | { type: "step", frames: number } // Advances the given number of frames, even while paused
+  | { type: "returnBuffer", buffer: ArrayBuffer }; // Hands the buffer of a consumed frame back for reuse
+
+export type SimulationEvent =
+  | {
+      type: "ready", is2D: boolean, cellSize: number,
+      boundsMin: Vec3Tuple, boundsMax: Vec3Tuple, // Bounds of the domain
+      parameters: SimulationParameters,
+    }
+  | {
+      type: "frame", frame: number, time: number, count: number,
+      positions: Float32Array, // 3 floats per particle, transferred (not copied) to the receiver
+      active: Uint8Array,      // Whether each particle is active, shares the buffer of the positions
+      values: Float32Array | null,    // Color field per particle, shares the buffer of the positions
+      gridNodes: Float32Array | null, // GRID_NODE_STRIDE floats per grid node with mass
+      surface: SurfaceMesh | null,
+      substeps: number,        // Number of simulation steps the frame took
+      stepTime: number,        // Milliseconds spent simulating the frame
+    }
+  | { type: "snapshot", buffer: ArrayBuffer } // Binary snapshot, see snapshotToBinary
+  | { type: "error", message: string };
+
+export const toVector3 = (v: Vec3Tuple) => new THREE.Vector3(v[0], v[1], v[2]);
+
+export const toSystemOptions = (config: SimulationConfig): MPMSystemOptions => {
+  return {
+    cellSize: config.cellSize,
+    gridSize: config.gridSize && toVector3(config.gridSize),
+    origin: config.origin && toVector3(config.origin),
+    domain: config.domain && new THREE.Box3(toVector3(config.domain.min), toVector3(config.domain.max)),
+    kernel: config.kernel && createKernel(config.kernel),
+  };
+};
@@ -0,0 +1,274 @@
+import * as THREE from 'three';
+import { MPMSystem, DEFAULT_TIME_STEP_OPTIONS } from "../mpm/MPMSystem";
+import { createMaterial } from "../mpm/Materials";
+import { GridBrush, BrushMode } from "../mpm/Brush";
+import { snapshotToBinary, snapshotFromBinary } from "../mpm/Snapshot";
+import { computeParticleField } from "../mpm/ParticleFields";
+import { extractSurface } from "../mpm/Surface";
+import { validateScene, validateBodyDescription, buildScene, addBody } from "../scene/SceneLoader";
+import {
+  SimulationCommand, SimulationEvent, SimulationParameters, BrushDescription, VisualizationOptions,
+  DEFAULT_FRAME_DT, DEFAULT_VISUALIZATION, GRID_NODE_STRIDE, toSystemOptions, toVector3
+} from "./SimulationProtocol";
+
+// Maximum number of frames posted to the main thread that haven't had their buffer returned yet,
+// this keeps the worker from running arbitrarily far ahead of the renderer
+const MAX_FRAMES_IN_FLIGHT = 3;
+// Resolution of the reconstructed surface, as a fraction of the grid's cell size
+const SURFACE_SPACING = 0.5;
+
+// NOTE: The DOM lib doesn't declare the worker global scope, but its postMessage/onmessage
+// are compatible with those of a Worker
+const ctx = self as unknown as Worker;
+
+class SimulationWorker {
+  mpm: MPMSystem | null = null;
+  parameters: SimulationParameters = { frameDt: DEFAULT_FRAME_DT, gravity: [0, 0, 0], ...DEFAULT_TIME_STEP_OPTIONS };
+  visualization: VisualizationOptions = { ...DEFAULT_VISUALIZATION };
+  running: boolean = false;
+  frame: number = 0;
+
+  _initial: (() => MPMSystem) | null = null; // Rebuilds the simulation as it was initialized or loaded
+  _initialFrame: number = 0; // Of the simulation that _initial rebuilds, a loaded snapshot's frame
+  _freeBuffers: Array<ArrayBuffer> = [];
+  _framesInFlight: number = 0;
+  _pendingSteps: number = 0; // Frames requested by step commands and not advanced yet
+  _tickScheduled: boolean = false;
+
+  handleCommand(cmd: SimulationCommand) {
+    switch (cmd.type) {
+      case "init": {
+        const config = cmd.config;
+        this._initial = () => new MPMSystem(toSystemOptions(config));
+        this._initialFrame = 0;
+        const mpm = this._initial();
+        this.parameters.gravity = mpm.gravity.toArray();
+        this._reset(mpm);
+        break;
+      }
+      case "loadScene": {
+        // NOTE: The scene is validated again since the worker can't trust what it's sent
+        const scene = validateScene(cmd.scene);
+        this._initial = () => buildScene(scene);
+        this._initialFrame = 0;
+        const mpm = this._initial();
+        this.parameters = {
+          frameDt: scene.solver?.frameDt ?? DEFAULT_FRAME_DT, gravity: mpm.gravity.toArray(), ...mpm.timeStepOptions
+        };
+        this._reset(mpm);
+        break;
+      }
+      case "saveSnapshot": {
+        const buffer = snapshotToBinary(this._system(), { frame: this.frame, frameDt: this.parameters.frameDt });
+        this._post({ type: "snapshot", buffer }, [buffer]);
+        break;
+      }
+      case "loadSnapshot": {
+        const buffer = cmd.buffer;
+        const { mpm, playback } = snapshotFromBinary(buffer);
+        this._initial = () => snapshotFromBinary(buffer).mpm;
+        this._initialFrame = playback.frame;
+        Object.assign(this.parameters, mpm.timeStepOptions, { frameDt: playback.frameDt, gravity: mpm.gravity.toArray() });
+        this._reset(mpm);
+        break;
+      }
+      case "reset":
+        if (this._initial == null) {
+          throw new Error("The simulation hasn't been initialized");
+        }
+        this._reset(this._initial());
+        break;
+      case "addParticles":
+        this._system().addParticles(
+          toVector3(cmd.min), toVector3(cmd.max), cmd.size, cmd.mass, createMaterial(cmd.material)
+        );
+        this._postChanges();
+        break;
+      case "addBody":
+        addBody(this._system(), validateBodyDescription(cmd.body));
+        this._postChanges();
+        break;
+      case "erase":
+        if (this._system().eraseParticles(toVector3(cmd.center), cmd.radius) > 0) {
+          this._postChanges();
+        }
+        break;
+      case "setBrush":
+        this._system().brush = cmd.brush && toBrush(cmd.brush);
+        break;
+      case "setParameters":
+        Object.assign(this.parameters, cmd.parameters);
+        break;
+      case "setVisualization":
+        this.visualization = { ...cmd.options };
+        this._postChanges();
+        break;
+      case "play":
+        this.running = true;
+        this._scheduleTick();
+        break;
+      case "pause":
+        this.running = false;
+        break;
+      case "step":
+        // Advanced by the ticks, so that the frames in flight stay limited however many are requested
+        if (cmd.frames > 0) {
+          this._pendingSteps += Math.floor(cmd.frames);
+          this._scheduleTick();
+        }
+        break;
+      case "returnBuffer":
+        this._freeBuffers.push(cmd.buffer);
+        this._framesInFlight = Math.max(0, this._framesInFlight - 1);
+        this._scheduleTick();
+        break;
+      default: {
+        // Messages come from outside the type system, so an unknown one can still arrive
+        const unknown: never = cmd;
+        throw new Error(`Unknown simulation command: ${String((unknown as { type?: unknown }).type)}`);
+      }
+    }
+  }
+
+  _reset(mpm: MPMSystem) {
+    this.mpm = mpm;
+    this.frame = this._initialFrame;
+    this._framesInFlight = 0; // The host drops the frames of the previous simulation
+    this._pendingSteps = 0;
+    const bounds = mpm.domainBounds();
+    this._post({
+      type: "ready", is2D: mpm.is2D, cellSize: mpm.grid.cellSize,
+      boundsMin: bounds.min.toArray(), boundsMax: bounds.max.toArray(), parameters: { ...this.parameters }
+    });
+    this._postFrame(0, 0);
+  }
+
+  // Lets the main thread see changes to the particles while paused
+  _postChanges() {
+    if (!this.running) {
+      this._postFrame(0, 0);
+    }
+  }
+
+  _system(): MPMSystem {
+    if (this.mpm == null) {
+      throw new Error("The simulation hasn't been initialized");
+    }
+    return this.mpm;
+  }
+
+  _scheduleTick() {
+    if (this._tickScheduled || !this._hasFramesDue() || this.mpm == null) { return; }
+    this._tickScheduled = true;
+    // NOTE: Using a timeout rather than looping lets incoming commands be processed between frames
+    setTimeout(() => {
+      this._tickScheduled = false;
+      if (!this._hasFramesDue() || this._framesInFlight >= MAX_FRAMES_IN_FLIGHT) {
+        return; // Resumed by play(), a step or when the main thread returns a buffer
+      }
+      this._pendingSteps = Math.max(0, this._pendingSteps - 1);
+      this._advanceFrame();
+      this._scheduleTick();
+    }, 0);
+  }
+
+  _hasFramesDue(): boolean {
+    return this.running || this._pendingSteps > 0;
+  }
+
+  _advanceFrame() {
+    const mpm = this._system();
+    const { frameDt, gravity, ...timeStepOptions } = this.parameters;
+    Object.assign(mpm.timeStepOptions, timeStepOptions);
+    mpm.gravity.fromArray(gravity);
+    const startTime = performance.now();
+    mpm.advance(frameDt);
+    this.frame++;
+    this._postFrame(mpm.lastSubsteps, performance.now() - startTime);
+  }
+
+  _postFrame(substeps: number, stepTime: number) {
+    const mpm = this._system();
+    const particles = mpm.particles;
+    const count = particles.count;
+    const { colorField, grid, surface } = this.visualization;
+
+    // The positions, the values of the color field and the active flags share a buffer. Reuse a
+    // returned buffer if there's one big enough, otherwise allocate a new one.
+    const floats = (colorField ? 4 : 3) * count;
+    const byteLength = 4 * floats + count;
+    let buffer = this._freeBuffers.pop();
+    if (buffer == null || buffer.byteLength < byteLength) {
+      buffer = new ArrayBuffer(Math.max(byteLength, 12));
+    }
+    const positions = new Float32Array(buffer, 0, 3 * count);
+    for (let i = 0; i < positions.length; i++) {
+      positions[i] = particles.pos[i];
+    }
+    const values = colorField ? computeParticleField(particles, colorField, new Float32Array(buffer, 12 * count, count)) : null;
+    const active = new Uint8Array(buffer, 4 * floats, count);
+    active.set(particles.active.subarray(0, count));
+    const gridNodes = grid ? this._gridNodes() : null;
+    const surfaceMesh = surface ? extractSurface(particles, mpm.is2D, SURFACE_SPACING * mpm.grid.cellSize) : null;
+
+    const transfer: Transferable[] = [buffer];
+    if (gridNodes) { transfer.push(gridNodes.buffer); }
+    if (surfaceMesh) {
+      transfer.push(surfaceMesh.positions.buffer);
+      if (surfaceMesh.normals) { transfer.push(surfaceMesh.normals.buffer); }
+    }
+    this._framesInFlight++;
+    this._post({
+      type: "frame", frame: this.frame, time: mpm.time, count, positions, active, values, gridNodes,
+      surface: surfaceMesh, substeps, stepTime
+    }, transfer);
+  }
+
+  // The nodes of the last step's grid that received material, see GRID_NODE_STRIDE. The two fields
+  // of the nodes along cracks are shown as one, with their total mass and momentum.
+  _gridNodes(): Float32Array {
+    const grid = this._system().grid;
+    const { mass, mass2, vel, vel2 } = grid;
+    let numNodes = 0;
+    for (let n = 0; n < grid.numCells; n++) {
+      if (mass[n] + mass2[n] > 0) { numNodes++; }
+    }
+    const nodes = new Float32Array(GRID_NODE_STRIDE * numNodes);
+    const cell = new THREE.Vector3();
+    let o = 0;
+    for (let n = 0; n < grid.numCells; n++) {
+      const m1 = mass[n], m2 = mass2[n];
+      const total = m1 + m2;
+      if (total <= 0) { continue; }
+      grid.cellIndexOf(n, cell);
+      grid.cellIndexToPosition(cell.x, cell.y, cell.z).toArray(nodes, o);
+      nodes[o + 3] = total;
+      nodes[o + 4] = (m1 * vel[3*n] + m2 * vel2[3*n]) / total;
+      nodes[o + 5] = (m1 * vel[3*n + 1] + m2 * vel2[3*n + 1]) / total;
+      nodes[o + 6] = (m1 * vel[3*n + 2] + m2 * vel2[3*n + 2]) / total;
+      o += GRID_NODE_STRIDE;
+    }
+    return nodes;
+  }
+
+  _post(event: SimulationEvent, transfer: Transferable[] = []) {
+    ctx.postMessage(event, transfer);
+  }
+}
+
+const toBrush = (desc: BrushDescription): GridBrush => {
+  return new GridBrush(
+    desc.mode === "push" ? BrushMode.Push : BrushMode.Drag,
+    toVector3(desc.position), desc.radius, desc.strength, toVector3(desc.velocity)
+  );
+};
+
+const simulation = new SimulationWorker();
+ctx.onmessage = (ev: MessageEvent<SimulationCommand>) => {
+  try {
+    simulation.handleCommand(ev.data);
+  }
+  catch (e) {
+    ctx.postMessage({ type: "error", message: e instanceof Error ? e.message : String(e) } as SimulationEvent);
+  }
+};